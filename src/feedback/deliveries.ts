@@ -0,0 +1,23 @@
+/**
+ * Reply linking — ties a rep's reply to the delivery it answers, so a
+ * field signal carries the deal it's about into PMM notifications,
+ * the deal store and analytics.
+ *
+ * Each delivery records the message it was sent as (message_ref); a
+ * reply names the message it answers — its Slack thread, the Telegram
+ * message replied to or whose button was pressed (repliedMessage in
+ * parse.ts), and storage.findDeliveryByMessageRef() looks it up.
+ */
+
+import type { DeliveryEntry, FeedbackEntry } from "../shared/types.js";
+
+/** The feedback, pointed at the delivery it answers. */
+export function attachDelivery(feedback: FeedbackEntry, delivery: DeliveryEntry): FeedbackEntry {
+  return {
+    ...feedback,
+    delivery_id: delivery.delivery_id,
+    ...(delivery.deal_id && { deal_id: delivery.deal_id }),
+    deal_name: delivery.deal_name,
+    rep_id: feedback.rep_id || delivery.rep_id,
+  };
+}
@@ -22,9 +22,9 @@ export function buildOutcomeNotification(
   companyName: string,
   industry: string,
   dealSize: number,
-  delivery?: DeliveryEntry
+  delivery?: DeliveryEntry,
+  isWon = outcome === "Closed Won" // Pass for stages configured as won under other names
 ): PmmNotification {
-  const isWon = outcome === "Closed Won";
   const emoji = isWon ? "\ud83c\udf89" : "\ud83d\udcc9";
   const sizeStr = dealSize > 0 ? ` ($${dealSize.toLocaleString()})` : "";
 
@@ -73,11 +73,9 @@ export function buildFieldSignalNotification(
   const sourceLabel =
     feedback.source === "call_intel" ? "Call intel" : "Rep reply";
 
-  const dealInfo = feedback.deal_name
-    ? feedback.deal_name
-    : delivery
-      ? `${delivery.deal_name} (${delivery.deal_stage}, ${delivery.industry})`
-      : "Unknown deal";
+  const dealInfo = delivery
+    ? `${delivery.deal_name} (${delivery.deal_stage}, ${delivery.industry})`
+    : feedback.deal_name || "Unknown deal";
 
   const text =
     `${emoji} *${sourceLabel}* on ${dealInfo}\n\n` +
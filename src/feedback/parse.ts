@@ -7,9 +7,15 @@
  * Telegram text replies, and call intel POSTs.
  */
 
-import type { FeedbackEntry, FeedbackSource } from "../shared/types.js";
+import type { FeedbackEntry, FeedbackSource, MessageRef } from "../shared/types.js";
 import { generateFeedbackId } from "../shared/id.js";
 
+/**
+ * Message subtypes that are still a person replying. Everything else —
+ * bot_message, message_changed, message_deleted... — isn't feedback.
+ */
+const SLACK_REPLY_SUBTYPES = new Set(["thread_broadcast", "file_share"]);
+
 /**
  * Parse a raw webhook payload into a FeedbackEntry.
  * Returns null if the payload doesn't match any known format.
@@ -61,8 +67,13 @@ export function parseFeedback(
   }
 
   // ── Slack Events API (thread reply) ────────────────────
+  // delivery_id is a placeholder until the thread is matched to a
+  // delivery (see repliedMessage).
   if (body.event && typeof body.event === "object") {
     const event = body.event as Record<string, unknown>;
+    if (!isSlackReply(event)) {
+      return null;
+    }
     if (event.text && event.thread_ts) {
       return {
         id: generateFeedbackId(),
@@ -81,6 +92,10 @@ export function parseFeedback(
   if (body.callback_query && typeof body.callback_query === "object") {
     const cb = body.callback_query as Record<string, unknown>;
     const cbData = String(cb.data || "").split(":");
+    // The "clicked" label that replaces the buttons — not a vote
+    if (cbData[0] === "noop") {
+      return null;
+    }
     const from = cb.from as Record<string, unknown> | undefined;
 
     return {
@@ -96,11 +111,13 @@ export function parseFeedback(
   }
 
   // ── Telegram Text Reply (field signal from rep) ────────
+  // delivery_id is a placeholder until the replied-to message is
+  // matched to a delivery (see repliedMessage).
   if (body.message && typeof body.message === "object") {
     const msg = body.message as Record<string, unknown>;
     const replyTo = msg.reply_to_message as Record<string, unknown> | undefined;
 
-    if (msg.text && replyTo) {
+    if (msg.text && replyTo && !isTelegramBot(msg)) {
       const from = msg.from as Record<string, unknown> | undefined;
       return {
         id: generateFeedbackId(),
@@ -124,6 +141,7 @@ export function parseFeedback(
       value: String(body.summary),
       raw_text: String(body.summary),
       rep_id: "",
+      ...(body.deal_id !== undefined && body.deal_id !== "" && { deal_id: String(body.deal_id) }),
       deal_name: String(body.deal_name),
       timestamp,
     };
@@ -132,3 +150,56 @@ export function parseFeedback(
   // Unknown payload format
   return null;
 }
+
+/**
+ * The message a reply answers, or null if the payload isn't a reply:
+ * the Slack DM a thread is under, the Telegram message replied to, or
+ * the Telegram message whose button was pressed. Match it against
+ * deliveries' message_ref.
+ */
+export function repliedMessage(body: Record<string, unknown>): MessageRef | null {
+  if (body.event && typeof body.event === "object") {
+    const event = body.event as Record<string, unknown>;
+    if (isSlackReply(event) && event.thread_ts && event.channel) {
+      return { channel: String(event.channel), id: String(event.thread_ts) };
+    }
+  }
+
+  if (body.callback_query && typeof body.callback_query === "object") {
+    const cb = body.callback_query as Record<string, unknown>;
+    return telegramMessageRef(cb.message);
+  }
+
+  if (body.message && typeof body.message === "object") {
+    const msg = body.message as Record<string, unknown>;
+    if (!isTelegramBot(msg) && msg.reply_to_message && typeof msg.reply_to_message === "object") {
+      // A reply is in the same chat as the message it answers
+      const replyTo = { chat: msg.chat, ...(msg.reply_to_message as Record<string, unknown>) };
+      return telegramMessageRef(replyTo);
+    }
+  }
+
+  return null;
+}
+
+// ── Helpers ────────────────────────────────────────────────
+
+/** chat.id + message_id of a Telegram Message, or null if either is missing. */
+function telegramMessageRef(message: unknown): MessageRef | null {
+  if (!message || typeof message !== "object") return null;
+  const msg = message as Record<string, unknown>;
+  const chat = msg.chat as Record<string, unknown> | undefined;
+  if (chat?.id === undefined || msg.message_id === undefined) return null;
+  return { channel: String(chat.id), id: String(msg.message_id) };
+}
+
+function isTelegramBot(msg: Record<string, unknown>): boolean {
+  const from = msg.from as Record<string, unknown> | undefined;
+  return from?.is_bot === true;
+}
+
+/** A person's message — not a bot's (ours included), an edit or a deletion. */
+function isSlackReply(event: Record<string, unknown>): boolean {
+  if (event.bot_id || event.bot_profile) return false;
+  return !event.subtype || SLACK_REPLY_SUBTYPES.has(String(event.subtype));
+}
@@ -20,9 +20,51 @@ import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { z } from "zod";
 import { loadMcpConfig } from "../shared/config.js";
-import { readKB, writeKB, readFeedbackLog, readRepDirectory, upsertRep, removeRep, enableSync } from "../shared/data.js";
+import { createStorage } from "../shared/storage.js";
+import {
+  enableSync,
+  flushSync,
+  isSyncEnabled,
+  pullSync,
+  recordSyncPull,
+  pushOutboxBeforePull,
+  takeSetAsidePush,
+  SYNC_ENDPOINTS,
+  readSyncState,
+  readSyncOutbox,
+  retrySyncOutbox,
+  fetchFailedRuns,
+  fetchDealTimelines,
+  replayFailedRun,
+  pullFeedbackLog,
+  readFeedbackMirror,
+} from "../shared/sync.js";
+import type { SyncEndpoint } from "../shared/sync.js";
+import {
+  checkDataFiles,
+  parseKnowledgeBase,
+  parseRepDirectory,
+  parseStageConfig,
+  parseFieldMapping,
+} from "../shared/validate.js";
 import { generateId } from "../shared/id.js";
+import {
+  diffKB,
+  formatKBDiff,
+  isEmptyDiff,
+  diffRepDirectory,
+  formatRepDirectoryDiff,
+  diffStageConfig,
+  formatStageConfigDiff,
+  diffFieldMapping,
+  formatFieldMappingDiff,
+} from "../shared/kb-diff.js";
+import { readDealTimelines, timelineEvents } from "../shared/deal-timeline.js";
+import { deliveryStats, isDelivered } from "../shared/delivery-stats.js";
 import { enrichDealContext } from "../pipeline/enrich.js";
+import { classifyStage } from "../pipeline/filter.js";
+import { crmRecord, parseCrmPayload } from "../pipeline/parse.js";
+import { BUILT_IN_FIELD_MAPS, fieldRule, mapField } from "../pipeline/field-map.js";
 import { contextGate } from "../pipeline/gate.js";
 import { buildTemplateEnablement } from "../pipeline/template.js";
 import type {
@@ -31,14 +73,36 @@ import type {
   ObjectionEntry,
   ResourceLink,
   KnowledgeBase,
+  RepDirectory,
+  StageConfig,
+  StageTransitionRule,
+  FieldMapping,
+  FieldRule,
+  FeedbackLog,
   DealContext,
+  DealTimeline,
 } from "../shared/types.js";
+import { MAPPED_DEAL_FIELDS, MappedDealFieldSchema, FieldTransformSchema } from "../shared/types.js";
 
 const config = loadMcpConfig();
+const storage = createStorage(config);
+
+// ── Refuse to start on a malformed data file ──────────────────
+try {
+  checkDataFiles(storage);
+} catch (err) {
+  console.error(`[JIT] ${(err as Error).message}`);
+  process.exit(1);
+}
 
 // ── Remote sync — push KB/rep changes to Railway webhook server ──
 if (config.syncUrl && config.syncSecret) {
-  enableSync(config.syncUrl, config.syncSecret);
+  enableSync(config.syncUrl, config.syncSecret, {
+    statePath: config.syncStatePath,
+    outboxPath: config.syncOutboxPath,
+  });
+  // Resume pushes left in the outbox by the last session
+  void retrySyncOutbox({ force: true });
 } else if (config.syncUrl && !config.syncSecret) {
   console.error("[JIT] SYNC_URL is set but SYNC_SECRET is missing — sync disabled");
 }
@@ -67,7 +131,7 @@ server.tool(
     })).default([]).describe("Optional links to supporting materials — Canva one-pagers, Notion docs, slide decks, etc."),
   },
   async ({ company, industry, segment, challenge, result, metric, relevant_stages, resources }) => {
-    const kb = readKB(config.kbPath);
+    const kb = storage.readKB();
     const id = generateId("cs", kb.case_studies);
 
     const entry: CaseStudy = {
@@ -75,7 +139,7 @@ server.tool(
     };
 
     kb.case_studies.push(entry);
-    writeKB(config.kbPath, kb);
+    storage.writeKB(kb, { author: config.author, source: "add_case_study" });
 
     return {
       content: [{
@@ -102,7 +166,7 @@ server.tool(
     })).default([]).describe("Optional links to supporting materials — battle cards, compete sheets, etc."),
   },
   async ({ competitor, differentiator, category, supporting_evidence, resources }) => {
-    const kb = readKB(config.kbPath);
+    const kb = storage.readKB();
     const id = generateId("cp", kb.competitor_positioning);
 
     const entry: CompetitorPositioning = {
@@ -110,7 +174,7 @@ server.tool(
     };
 
     kb.competitor_positioning.push(entry);
-    writeKB(config.kbPath, kb);
+    storage.writeKB(kb, { author: config.author, source: "add_competitor" });
 
     return {
       content: [{
@@ -132,9 +196,9 @@ server.tool(
     stage_guidance: z.record(z.string(), z.string()).default({}).describe("Stage-specific guidance. Keys are deal stages, values are what to focus on."),
   },
   async ({ name, description, stage_guidance }) => {
-    const kb = readKB(config.kbPath);
+    const kb = storage.readKB();
     kb.methodology = { name, description, stage_guidance };
-    writeKB(config.kbPath, kb);
+    storage.writeKB(kb, { author: config.author, source: "set_methodology" });
 
     const stageCount = Object.keys(stage_guidance).length;
     return {
@@ -159,7 +223,7 @@ server.tool(
     relevant_stages: z.array(z.string()).default(["Proposal Sent", "Negotiation"]).describe("Deal stages where this objection typically comes up"),
   },
   async ({ objection, response, competitor, category, relevant_stages }) => {
-    const kb = readKB(config.kbPath);
+    const kb = storage.readKB();
     const id = generateId("ob", kb.objection_library);
 
     const entry: ObjectionEntry = {
@@ -167,7 +231,7 @@ server.tool(
     };
 
     kb.objection_library.push(entry);
-    writeKB(config.kbPath, kb);
+    storage.writeKB(kb, { author: config.author, source: "add_objection" });
 
     return {
       content: [{
@@ -195,7 +259,7 @@ server.tool(
     deal_notes: z.string().default("").describe("Additional context or notes about the deal (optional)"),
   },
   async ({ deal_name, deal_stage, company_name, industry, competitor, deal_size, deal_notes }) => {
-    const kb = readKB(config.kbPath);
+    const kb = storage.readKB();
 
     if (!contextGate(kb)) {
       return {
@@ -211,6 +275,7 @@ server.tool(
 
     // Build deal context from the conversational parameters
     const deal: DealContext = {
+      deal_id: "",
       deal_name,
       deal_stage,
       company_name: company_name || deal_name,
@@ -260,7 +325,7 @@ server.tool(
     type: z.enum(["all", "case_studies", "competitors", "objections", "methodology"]).default("all").describe("What to list"),
   },
   async ({ type }) => {
-    const kb = readKB(config.kbPath);
+    const kb = storage.readKB();
     const parts: string[] = [];
 
     if (type === "all" || type === "case_studies") {
@@ -335,7 +400,7 @@ server.tool(
     stage: z.string().optional().describe("Filter by deal stage relevance"),
   },
   async ({ industry, competitor, stage }) => {
-    const kb = readKB(config.kbPath);
+    const kb = storage.readKB();
     const parts: string[] = [];
 
     let matchedCS = kb.case_studies;
@@ -398,7 +463,7 @@ server.tool(
     name: z.string().optional().describe("Company or competitor name to match (removes first match)"),
   },
   async ({ id, name }) => {
-    const kb = readKB(config.kbPath);
+    const kb = storage.readKB();
     let removed = false;
     let removedDesc = "";
 
@@ -447,20 +512,366 @@ server.tool(
     }
 
     if (removed) {
-      writeKB(config.kbPath, kb);
+      storage.writeKB(kb, { author: config.author, source: "remove_entry" });
       return { content: [{ type: "text" as const, text: `Removed ${removedDesc}.\n\nKnowledge base now has ${kb._meta.entry_count} entries.` }] };
     }
     return { content: [{ type: "text" as const, text: `No entry found matching ${id ? `ID "${id}"` : `name "${name}"`}. Use list_entries to see all entries.` }] };
   }
 );
 
+// ── Tool: list_kb_versions ──────────────────────────────────
+
+server.tool(
+  "list_kb_versions",
+  "List recent versions of the knowledge base — who changed it, when, and through which tool. Use with diff_kb_versions and rollback_kb.",
+  {
+    limit: z.number().default(20).describe("Number of versions to show, newest first (default: 20)"),
+  },
+  async ({ limit }) => {
+    const versions = storage.listKBVersions(limit);
+    if (versions.length === 0) {
+      return { content: [{ type: "text" as const, text: "No KB version history yet. A version is recorded every time the knowledge base changes." }] };
+    }
+
+    const current = storage.readKB()._meta.revision;
+    const lines = [`**KB Version History** (${versions.length} most recent)`, ""];
+    for (const v of versions) {
+      const marker = v.version === current ? " ← current" : "";
+      lines.push(`- **v${v.version}** ${v.timestamp} — ${v.author} via ${v.source} (${v.entry_count} entries)${marker}`);
+    }
+
+    return { content: [{ type: "text" as const, text: lines.join("\n") }] };
+  }
+);
+
+// ── Tool: diff_kb_versions ──────────────────────────────────
+
+server.tool(
+  "diff_kb_versions",
+  "Show what changed between two knowledge base versions — entries added, removed, or edited.",
+  {
+    from: z.number().describe("Older version number (from list_kb_versions)"),
+    to: z.number().optional().describe("Newer version number (defaults to the current KB)"),
+  },
+  async ({ from, to }) => {
+    const before = storage.readKBVersion(from);
+    if (!before) {
+      return { content: [{ type: "text" as const, text: `Version ${from} not found. Use list_kb_versions to see available versions.` }] };
+    }
+
+    let after: KnowledgeBase;
+    let toLabel: string;
+    if (to === undefined) {
+      after = storage.readKB();
+      toLabel = `current (v${after._meta.revision ?? "?"})`;
+    } else {
+      const target = storage.readKBVersion(to);
+      if (!target) {
+        return { content: [{ type: "text" as const, text: `Version ${to} not found. Use list_kb_versions to see available versions.` }] };
+      }
+      after = target.kb;
+      toLabel = `v${to}`;
+    }
+
+    const text = `**KB diff: v${from} → ${toLabel}**\n\n${formatKBDiff(diffKB(before.kb, after))}`;
+    return { content: [{ type: "text" as const, text }] };
+  }
+);
+
+// ── Tool: rollback_kb ───────────────────────────────────────
+
+server.tool(
+  "rollback_kb",
+  "Restore the knowledge base to an earlier version. The rollback is recorded as a new version (so it can itself be undone) and synced to the webhook server.",
+  {
+    version: z.number().describe("Version number to restore (from list_kb_versions)"),
+  },
+  async ({ version }) => {
+    const snapshot = storage.readKBVersion(version);
+    if (!snapshot) {
+      return { content: [{ type: "text" as const, text: `Version ${version} not found. Use list_kb_versions to see available versions.` }] };
+    }
+
+    const before = storage.readKB();
+    const kb = structuredClone(snapshot.kb);
+    storage.writeKB(kb, { author: config.author, source: "rollback_kb" });
+
+    return {
+      content: [{
+        type: "text" as const,
+        text: `Rolled back the knowledge base to v${version} (saved as v${kb._meta.revision}).\n\n` +
+          `${formatKBDiff(diffKB(before, kb))}\n\n` +
+          `Knowledge base now has ${kb._meta.entry_count} entries.`,
+      }],
+    };
+  }
+);
+
+// ── Tool: pull_sync ─────────────────────────────────────────
+
+server.tool(
+  "pull_sync",
+  "Fetch the knowledge base, rep directory, stage rules and field mapping from the webhook server and replace the local copies. Use after another PMM has made changes, or when a push reported a sync conflict. Edits still waiting to reach the server are pushed first, and a document whose edit still can't be delivered is left alone. The previous local KB stays in version history; reps, stage rules and field mapping are replaced outright.",
+  {
+    preview: z.boolean().default(false).describe("Show what would change without applying it"),
+  },
+  async ({ preview }) => {
+    if (!isSyncEnabled()) {
+      return { content: [{ type: "text" as const, text: "Sync is not configured. Set SYNC_URL and SYNC_SECRET to pull from the webhook server." }] };
+    }
+
+    // Deliver queued edits first, so the pulled copies include them
+    const waiting = new Set(await pushOutboxBeforePull());
+
+    let remoteKB: Awaited<ReturnType<typeof pullSync>>;
+    let remoteDir: Awaited<ReturnType<typeof pullSync>>;
+    let remoteStages: Awaited<ReturnType<typeof pullSync>>;
+    let remoteFields: Awaited<ReturnType<typeof pullSync>>;
+    let serverKB: KnowledgeBase;
+    let serverDir: RepDirectory;
+    let serverStages: StageConfig;
+    let serverFields: FieldMapping;
+    try {
+      remoteKB = await pullSync("/api/kb");
+      remoteDir = await pullSync("/api/rep-directory");
+      remoteStages = await pullSync("/api/stage-config");
+      remoteFields = await pullSync("/api/field-mapping");
+      serverKB = parseKnowledgeBase(remoteKB.data, `${config.syncUrl}/api/kb`);
+      serverDir = parseRepDirectory(remoteDir.data, `${config.syncUrl}/api/rep-directory`);
+      serverStages = parseStageConfig(remoteStages.data, `${config.syncUrl}/api/stage-config`);
+      serverFields = parseFieldMapping(remoteFields.data, `${config.syncUrl}/api/field-mapping`);
+    } catch (err) {
+      return { content: [{ type: "text" as const, text: `Pull failed — nothing was changed locally.\n\n${(err as Error).message}` }] };
+    }
+
+    const localKB = storage.readKB();
+    const kbDiff = diffKB(localKB, serverKB);
+    const repDiff = diffRepDirectory(storage.readRepDirectory(), serverDir);
+    const repsChanged = repDiff.added.length + repDiff.removed.length + repDiff.changed.length > 0;
+    const stageDiff = diffStageConfig(storage.readStageConfig(), serverStages);
+    const stagesChanged = stageDiff.added.length + stageDiff.removed.length + stageDiff.changed.length > 0;
+    const fieldDiff = diffFieldMapping(storage.readFieldMapping(), serverFields);
+    const fieldsChanged = fieldDiff.added.length + fieldDiff.removed.length + fieldDiff.changed.length > 0;
+
+    const lines = [
+      preview ? "**Pull preview** — the server's copy differs from yours:" : "**Pulled from the webhook server**",
+      "",
+      formatKBDiff(kbDiff),
+      ...(repsChanged ? ["", formatRepDirectoryDiff(repDiff)] : []),
+      ...(stagesChanged ? ["", formatStageConfigDiff(stageDiff)] : []),
+      ...(fieldsChanged ? ["", formatFieldMappingDiff(fieldDiff)] : []),
+    ];
+
+    const held = ([
+      ["/api/kb", "knowledge base"],
+      ["/api/rep-directory", "rep directory"],
+      ["/api/stage-config", "stage rules"],
+      ["/api/field-mapping", "field mapping"],
+    ] as const).filter(([endpoint]) => waiting.has(endpoint));
+    for (const [, name] of held) {
+      lines.push("", `\u26a0\ufe0f Keeping your local ${name} — an edit to it still hasn't reached the server (see get_sync_status). Pull again once it's delivered.`);
+    }
+
+    if (preview) {
+      lines.push("", "Run pull_sync again without preview to apply.");
+      return { content: [{ type: "text" as const, text: lines.join("\n") }] };
+    }
+
+    if (!waiting.has("/api/kb")) {
+      if (!isEmptyDiff(kbDiff)) {
+        // Local revision numbers continue from local history, not the server's
+        delete serverKB._meta.revision;
+        storage.replaceKB(serverKB, { author: serverKB._meta.updated_by || "unknown", source: "pull_sync" });
+        lines.push("", `Your previous local KB is saved as v${localKB._meta.revision ?? "?"} — use diff_kb_versions or rollback_kb to reapply anything you need.`);
+      }
+      recordSyncPull("/api/kb", remoteKB.etag);
+    }
+
+    if (!waiting.has("/api/rep-directory")) {
+      if (repsChanged) storage.replaceRepDirectory(serverDir);
+      recordSyncPull("/api/rep-directory", remoteDir.etag);
+    }
+
+    if (!waiting.has("/api/stage-config")) {
+      if (stagesChanged) storage.replaceStageConfig(serverStages);
+      recordSyncPull("/api/stage-config", remoteStages.etag);
+    }
+
+    if (!waiting.has("/api/field-mapping")) {
+      if (fieldsChanged) storage.replaceFieldMapping(serverFields);
+      recordSyncPull("/api/field-mapping", remoteFields.etag);
+    }
+
+    const setAside = readSyncState().set_aside ?? [];
+    if (setAside.length > 0) {
+      lines.push("", `Edits the server refused are set aside, not lost (${setAside.map((c) => c.endpoint).join(", ")}) — get_sync_status shows them and can re-apply one over the server's copy.`);
+    }
+
+    return { content: [{ type: "text" as const, text: lines.join("\n") }] };
+  }
+);
+
+// ── Tool: get_sync_status ───────────────────────────────────
+
+server.tool(
+  "get_sync_status",
+  "Check whether KB, rep directory, stage rule and field mapping changes are reaching the webhook server — the last successful push, pushes still waiting to be retried, the last error, and any unresolved conflicts.",
+  {
+    retry_now: z.boolean().default(false).describe("Retry every pending push immediately instead of waiting for its backoff"),
+    reapply: z.enum(SYNC_ENDPOINTS).optional().describe("Push an edit the server refused, set aside by pull_sync, again over the server's current copy"),
+  },
+  async ({ retry_now, reapply }) => {
+    if (!isSyncEnabled()) {
+      return { content: [{ type: "text" as const, text: "Sync is not configured. Set SYNC_URL and SYNC_SECRET to push changes to the webhook server." }] };
+    }
+
+    if (retry_now) await retrySyncOutbox({ force: true });
+
+    if (reapply) {
+      const refused = readSyncState().set_aside?.find((c) => c.endpoint === reapply);
+      if (!refused) {
+        return { content: [{ type: "text" as const, text: `No edit to ${reapply} is set aside.` }] };
+      }
+      try {
+        reapplyDocument(reapply, refused.data);
+      } catch (err) {
+        return { content: [{ type: "text" as const, text: `Could not re-apply the set-aside ${reapply} edit.\n\n${(err as Error).message}` }] };
+      }
+      takeSetAsidePush(reapply);
+      await flushSync();
+    }
+
+    const state = readSyncState();
+    const { items } = readSyncOutbox();
+    const lines = [
+      `**Sync Status** → ${config.syncUrl}`,
+      `- Last successful push: ${state.last_push ? `${state.last_push.endpoint} at ${state.last_push.at}` : "Never"}`,
+      `- Last error: ${state.last_error ? `${state.last_error.endpoint} at ${state.last_error.at} — ${state.last_error.message}` : "None"}`,
+      `- Pending pushes: ${items.length}`,
+      ...items.map((i) =>
+        `  - ${i.endpoint} — queued ${i.queued_at}, ${i.attempts} failed attempt(s)` +
+        (i.attempts > 0 ? `, next retry ${i.next_attempt_at}${i.last_error ? ` (${i.last_error})` : ""}` : "")
+      ),
+      `- Conflicts: ${state.conflicts.length === 0 ? "None" : `${state.conflicts.length} — run pull_sync`}`,
+      ...state.conflicts.map((c) => `  - ${c.endpoint} (${c.detected_at})`),
+    ];
+    const setAside = state.set_aside ?? [];
+    if (setAside.length > 0) {
+      lines.push(`- Refused edits set aside by pull_sync: ${setAside.length} — re-apply one with reapply`);
+      for (const c of setAside) {
+        lines.push(`  - ${c.endpoint} (refused ${c.detected_at}):`, c.summary.replace(/^/gm, "    "));
+      }
+    }
+    return { content: [{ type: "text" as const, text: lines.join("\n") }] };
+  }
+);
+
+// ── Tool: list_failed_runs ──────────────────────────────────
+
+server.tool(
+  "list_failed_runs",
+  "List CRM webhooks the webhook server couldn't turn into a delivery — which deal, the step that failed and why. Fix the cause (configure the KB, add the rep) and then use replay_failed_run.",
+  {
+    limit: z.number().int().min(1).max(500).default(20).describe("How many to show, newest first"),
+  },
+  async ({ limit }) => {
+    if (!isSyncEnabled()) {
+      return { content: [{ type: "text" as const, text: "Sync is not configured. Set SYNC_URL and SYNC_SECRET to reach the webhook server." }] };
+    }
+
+    let response: Awaited<ReturnType<typeof fetchFailedRuns>>;
+    try {
+      response = await fetchFailedRuns(limit);
+    } catch (err) {
+      return { content: [{ type: "text" as const, text: `Could not fetch failed runs.\n\n${(err as Error).message}` }] };
+    }
+
+    if (response.total === 0) {
+      return { content: [{ type: "text" as const, text: "No failed runs — every webhook so far ended in a delivery." }] };
+    }
+
+    const lines = [`**Failed Runs** (${response.failed_runs.length} of ${response.total}, newest first)`, ""];
+    for (const run of response.failed_runs) {
+      const deal = run.deal ? `${run.deal.deal_name} (${run.stage})` : run.stage;
+      lines.push(`- **${run.id}** — ${deal}, ${run.kind} failed at "${run.step}" after ${run.attempts} attempt(s) on ${run.failed_at}`);
+      lines.push(`  Error: ${run.error}`);
+      if (run.replay_job_id) {
+        lines.push(`  Replayed ${run.replayed_at} as ${run.replay_job_id} — ${run.replay_status ?? "unknown"}`);
+      }
+    }
+    lines.push("", "Use replay_failed_run with an ID to re-run it once the cause is fixed.");
+    return { content: [{ type: "text" as const, text: lines.join("\n") }] };
+  }
+);
+
+// ── Tool: replay_failed_run ─────────────────────────────────
+
+server.tool(
+  "replay_failed_run",
+  "Re-run a failed CRM webhook on the webhook server from its saved payload, e.g. after configuring the KB or adding the missing rep. The CRM doesn't need to re-send anything.",
+  {
+    id: z.string().describe("Failed run ID from list_failed_runs (e.g., 'job-lx3k9f7-2')"),
+  },
+  async ({ id }) => {
+    if (!isSyncEnabled()) {
+      return { content: [{ type: "text" as const, text: "Sync is not configured. Set SYNC_URL and SYNC_SECRET to reach the webhook server." }] };
+    }
+
+    // Local KB / rep fixes must reach the server before the replay reads them
+    await flushSync();
+
+    try {
+      const { job_id } = await replayFailedRun(id);
+      return { content: [{ type: "text" as const, text: `Replaying ${id} as job ${job_id}. Check list_failed_runs for the result.` }] };
+    } catch (err) {
+      return { content: [{ type: "text" as const, text: `Replay failed.\n\n${(err as Error).message}` }] };
+    }
+  }
+);
+
+// ── Tool: get_deal_timeline ─────────────────────────────────
+
+server.tool(
+  "get_deal_timeline",
+  "Show the full story of one deal: every stage change and what it triggered, the enablement packages sent, the rep's reactions and replies, call intel, and how it closed — plus the deal's last-known competitor, size and owner.",
+  {
+    deal_name: z.string().describe("Deal name as the CRM sends it (case-insensitive), or the CRM's deal ID"),
+  },
+  async ({ deal_name }) => {
+    let timelines: DealTimeline[];
+    let source = "";
+    if (isSyncEnabled()) {
+      try {
+        ({ timelines } = await fetchDealTimelines(deal_name));
+        source = `_From the deal store on ${config.syncUrl}_`;
+      } catch (err) {
+        return { content: [{ type: "text" as const, text: `Could not fetch the deal timeline.\n\n${(err as Error).message}` }] };
+      }
+    } else {
+      timelines = readDealTimelines(storage, deal_name);
+    }
+
+    if (timelines.length === 0) {
+      return {
+        content: [{
+          type: "text" as const,
+          text: `No deal named "${deal_name}" or with that ID. Deals are recorded from CRM webhooks — check the name matches the CRM's.`,
+        }],
+      };
+    }
+
+    const text = timelines.map(formatDealTimeline).join("\n\n---\n\n");
+    return { content: [{ type: "text" as const, text: withSource(text, source) }] };
+  }
+);
+
 // ── Tool: get_status ────────────────────────────────────────
 
 server.tool(
   "get_status",
   "Check the current status of the knowledge base — is it configured, how many entries, when was it last updated?",
   async () => {
-    const kb = readKB(config.kbPath);
+    const kb = storage.readKB();
     const lines = [
       `**Knowledge Base Status**`,
       `- Configured: ${kb._meta.configured ? "Yes" : "No"}`,
@@ -470,7 +881,9 @@ server.tool(
       `- Methodology: ${kb.methodology ? kb.methodology.name : "Not set"}`,
       `- Total Entries: ${kb._meta.entry_count}`,
       `- Last Updated: ${kb._meta.last_updated || "Never"}`,
-      `- File: ${config.kbPath}`,
+      `- Version: ${kb._meta.revision ? `v${kb._meta.revision} by ${kb._meta.updated_by} via ${kb._meta.updated_via}` : "None recorded"}`,
+      `- Storage: ${storage.backend === "sqlite" ? config.sqlitePath : config.kbPath}`,
+      `- Sync: ${syncStatusLine()}`,
       "",
       kb._meta.configured
         ? "The webhook server will use this content for enablement packages."
@@ -504,15 +917,17 @@ server.tool(
 
 server.tool(
   "get_feedback_summary",
-  "Get a summary of how your enablement content is performing. Shows delivery count, reaction breakdown, field signals received, and which content gets the most positive/negative reactions.",
+  "Get a summary of how your enablement content is performing. Shows delivery count, delivery failure rate and top failure causes, reaction breakdown, field signals received, and which content gets the most positive/negative reactions. When SYNC_URL is set, reads the production feedback log from the webhook server.",
   {
     days: z.number().default(30).describe("Number of days to look back (default: 30)"),
   },
   async ({ days }) => {
-    const log = readFeedbackLog(config.feedbackLogPath);
+    const { log, source } = await readAnalyticsLog();
     const cutoff = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
 
-    const recentDeliveries = log.deliveries.filter((d) => d.timestamp >= cutoff);
+    const recentAttempts = log.deliveries.filter((d) => d.timestamp >= cutoff);
+    const recentDeliveries = recentAttempts.filter(isDelivered);
+    const stats = deliveryStats(recentAttempts);
     const recentFeedback = log.feedback.filter((f) => f.timestamp >= cutoff);
 
     const reactions = recentFeedback.filter((f) => f.source === "reaction");
@@ -546,12 +961,22 @@ server.tool(
 
     const lines: string[] = [
       `\ud83d\udcca **Feedback Summary** (last ${days} days)`,
-      `- ${recentDeliveries.length} enablement deliveries sent`,
+      `- ${recentDeliveries.length} enablement deliveries sent` +
+        (stats.failed > 0 || stats.queued > 0
+          ? `, ${stats.failed} failed (${stats.failure_rate}% failure rate), ${stats.queued} still queued`
+          : ""),
       `- ${reactions.length} reactions received: ${helpful.length} helpful (${helpfulRate}%), ${notHelpful.length} not helpful`,
       `- ${fieldSignals.length} field signals from reps`,
       `- ${outcomes.length} outcomes tracked: ${won.length} closed won, ${lost.length} closed lost`,
     ];
 
+    if (stats.top_causes.length > 0) {
+      lines.push("", "\u274c **Top delivery failure causes:**");
+      for (const cause of stats.top_causes) {
+        lines.push(`- ${cause.error_code}: ${cause.count} failed — ${cause.example}`);
+      }
+    }
+
     const sortedCS = Object.entries(csSurfaceCount).sort(([, a], [, b]) => b.count - a.count);
     if (sortedCS.length > 0) {
       lines.push("", "**Top surfaced content:**");
@@ -568,10 +993,11 @@ server.tool(
       }
     }
 
-    if (recentDeliveries.length === 0 && recentFeedback.length === 0) {
+    if (recentAttempts.length === 0 && recentFeedback.length === 0) {
       lines.push("", "No delivery or feedback data yet. Once the webhook server starts delivering enablement packages and reps react, data will appear here.");
     }
 
+    if (source) lines.push("", source);
     return { content: [{ type: "text" as const, text: lines.join("\n") }] };
   }
 );
@@ -580,18 +1006,18 @@ server.tool(
 
 server.tool(
   "get_outcomes",
-  "See which enabled deals have closed (won or lost) and what content was surfaced for each.",
+  "See which enabled deals have closed (won or lost) and what content was surfaced for each. When SYNC_URL is set, reads the production feedback log from the webhook server.",
   {
     outcome: z.enum(["all", "won", "lost"]).default("all").describe("Filter outcomes"),
   },
   async ({ outcome }) => {
-    const log = readFeedbackLog(config.feedbackLogPath);
+    const { log, source } = await readAnalyticsLog();
     let outcomeFeedback = log.feedback.filter((f) => f.source === "outcome");
     if (outcome === "won") outcomeFeedback = outcomeFeedback.filter((f) => f.value === "closed_won");
     else if (outcome === "lost") outcomeFeedback = outcomeFeedback.filter((f) => f.value === "closed_lost");
 
     if (outcomeFeedback.length === 0) {
-      return { content: [{ type: "text" as const, text: `No ${outcome === "all" ? "" : outcome + " "}outcome data yet.` }] };
+      return { content: [{ type: "text" as const, text: withSource(`No ${outcome === "all" ? "" : outcome + " "}outcome data yet.`, source) }] };
     }
 
     const lines: string[] = [`\ud83c\udfaf **Deal Outcomes** (${outcomeFeedback.length} total)`, ""];
@@ -609,6 +1035,7 @@ server.tool(
       lines.push("");
     }
 
+    if (source) lines.push(source);
     return { content: [{ type: "text" as const, text: lines.join("\n") }] };
   }
 );
@@ -617,18 +1044,18 @@ server.tool(
 
 server.tool(
   "get_field_signals",
-  "See what reps are telling you from the field — thread replies with new objections, call intel, and field observations.",
+  "See what reps are telling you from the field — thread replies with new objections, call intel, and field observations. When SYNC_URL is set, reads the production feedback log from the webhook server.",
   {
     days: z.number().default(30).describe("Number of days to look back (default: 30)"),
   },
   async ({ days }) => {
-    const log = readFeedbackLog(config.feedbackLogPath);
+    const { log, source } = await readAnalyticsLog();
     const cutoff = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
 
     const signals = log.feedback.filter((f) => (f.source === "reply" || f.source === "call_intel") && f.timestamp >= cutoff);
 
     if (signals.length === 0) {
-      return { content: [{ type: "text" as const, text: `No field signals in the last ${days} days.` }] };
+      return { content: [{ type: "text" as const, text: withSource(`No field signals in the last ${days} days.`, source) }] };
     }
 
     const lines: string[] = [`\ud83d\udcac **Field Signals** (last ${days} days, ${signals.length} total)`, ""];
@@ -644,6 +1071,7 @@ server.tool(
     }
 
     lines.push("---", "Review these signals and update your knowledge base if any objections or competitive intel are not currently covered.");
+    if (source) lines.push("", source);
     return { content: [{ type: "text" as const, text: lines.join("\n") }] };
   }
 );
@@ -660,7 +1088,7 @@ server.tool(
     telegram_chat_id: z.string().default("").describe("Telegram chat ID (optional, for Telegram channel users)"),
   },
   async ({ email, name, slack_id, telegram_chat_id }) => {
-    upsertRep(config.repDirectoryPath, {
+    storage.upsertRep({
       email,
       name,
       slack_id,
@@ -669,7 +1097,7 @@ server.tool(
       registered_via: "manual",
     });
 
-    const dir = readRepDirectory(config.repDirectoryPath);
+    const dir = storage.readRepDirectory();
     const routing = slack_id
       ? `Slack DMs → ${slack_id}`
       : telegram_chat_id
@@ -691,7 +1119,7 @@ server.tool(
   "list_reps",
   "List all sales reps in the directory with their messaging IDs.",
   async () => {
-    const dir = readRepDirectory(config.repDirectoryPath);
+    const dir = storage.readRepDirectory();
 
     if (dir.reps.length === 0) {
       return {
@@ -725,9 +1153,9 @@ server.tool(
     email: z.string().describe("Rep's email address to remove"),
   },
   async ({ email }) => {
-    const removed = removeRep(config.repDirectoryPath, email);
+    const removed = storage.removeRep(email);
     if (removed) {
-      const dir = readRepDirectory(config.repDirectoryPath);
+      const dir = storage.readRepDirectory();
       return {
         content: [{
           type: "text" as const,
@@ -744,11 +1172,533 @@ server.tool(
   }
 );
 
+// ── Tool: get_stage_config ──────────────────────────────────
+
+server.tool(
+  "get_stage_config",
+  "Show the stage rules: which deal stages trigger an enablement package, which count as won or lost, how each CRM's own stage IDs or labels map onto those stages, and the pipeline order and from → to rules that decide what a stage move does.",
+  async () => {
+    return { content: [{ type: "text" as const, text: formatStageRules(storage.readStageConfig()) }] };
+  }
+);
+
+// ── Tool: map_crm_stage ─────────────────────────────────────
+
+server.tool(
+  "map_crm_stage",
+  "Map a CRM's stage ID or label onto a canonical stage — e.g. HubSpot's internal 'appointmentscheduled' or a Pipedrive stage ID '7' onto 'Proposal Sent'. Use when webhooks from the CRM are being skipped because its stage names don't match the stage rules.",
+  {
+    crm: z.string().describe("CRM the stage comes from: 'hubspot', 'salesforce', 'attio', 'pipedrive', 'close', 'zoho', 'dynamics', 'freshsales', 'copper', 'generic', or a plugin adapter's name"),
+    crm_stage: z.string().describe("Stage ID or label exactly as the CRM sends it (matched case-insensitively)"),
+    canonical_stage: z.string().describe("Stage it means (e.g., 'Proposal Sent', 'Negotiation', 'Closed Won')"),
+  },
+  async ({ crm, crm_stage, canonical_stage }) => {
+    const key = crm.trim().toLowerCase();
+    const note = unknownCrmNote(key);
+    const rules = storage.readStageConfig();
+    rules.stage_maps[key] = { ...rules.stage_maps[key], [crm_stage]: canonical_stage };
+    rules._meta.updated_by = config.author;
+    storage.writeStageConfig(rules);
+
+    const effect = stageEffect(canonical_stage, rules);
+    return {
+      content: [{
+        type: "text" as const,
+        text: `✓ ${key} stage "${crm_stage}" now maps to "${canonical_stage}" — ${effect}.${note}`,
+      }],
+    };
+  }
+);
+
+// ── Tool: unmap_crm_stage ───────────────────────────────────
+
+server.tool(
+  "unmap_crm_stage",
+  "Remove a CRM stage mapping. The CRM's stage name is then used as-is.",
+  {
+    crm: z.string().describe("CRM the mapping belongs to (a built-in CRM or a plugin adapter's name)"),
+    crm_stage: z.string().describe("Stage ID or label to unmap"),
+  },
+  async ({ crm, crm_stage }) => {
+    const rules = storage.readStageConfig();
+    const key = crm.trim().toLowerCase();
+    const map = rules.stage_maps[key] ?? {};
+    const stage = Object.keys(map).find((s) => s.toLowerCase() === crm_stage.trim().toLowerCase());
+
+    if (stage === undefined) {
+      return {
+        content: [{
+          type: "text" as const,
+          text: `No ${key} mapping for "${crm_stage}". Use get_stage_config to see the current mappings.${unknownCrmNote(key)}`,
+        }],
+      };
+    }
+
+    delete map[stage];
+    if (Object.keys(map).length === 0) delete rules.stage_maps[key];
+    rules._meta.updated_by = config.author;
+    storage.writeStageConfig(rules);
+
+    return {
+      content: [{
+        type: "text" as const,
+        text: `✓ Removed ${key} mapping "${stage}". That stage is now used as-is — ${stageEffect(stage, rules)}.`,
+      }],
+    };
+  }
+);
+
+// ── Tool: set_trigger_stages ────────────────────────────────
+
+server.tool(
+  "set_trigger_stages",
+  "Set which canonical stages trigger an enablement package and which are won or lost outcomes. Only the lists you pass are replaced.",
+  {
+    enablement_stages: z.array(z.string()).optional().describe("Stages that send the rep an enablement package (e.g., ['Proposal Sent', 'Negotiation'])"),
+    won_stages: z.array(z.string()).optional().describe("Stages that mean the deal was won (e.g., ['Closed Won'])"),
+    lost_stages: z.array(z.string()).optional().describe("Stages that mean the deal was lost (e.g., ['Closed Lost'])"),
+  },
+  async ({ enablement_stages, won_stages, lost_stages }) => {
+    if (!enablement_stages && !won_stages && !lost_stages) {
+      return { content: [{ type: "text" as const, text: "Nothing to change — pass enablement_stages, won_stages and/or lost_stages." }] };
+    }
+
+    const rules = storage.readStageConfig();
+    if (enablement_stages) rules.enablement_stages = enablement_stages;
+    if (won_stages) rules.won_stages = won_stages;
+    if (lost_stages) rules.lost_stages = lost_stages;
+
+    // A stage can only do one thing
+    const seen = new Map<string, string>();
+    for (const [list, stages] of [
+      ["enablement", rules.enablement_stages],
+      ["won", rules.won_stages],
+      ["lost", rules.lost_stages],
+    ] as const) {
+      for (const stage of stages) {
+        const other = seen.get(stage.toLowerCase());
+        if (other && other !== list) {
+          return {
+            content: [{
+              type: "text" as const,
+              text: `"${stage}" is in both the ${other} and ${list} stages — a stage can only be one of them. Nothing was changed.`,
+            }],
+          };
+        }
+        seen.set(stage.toLowerCase(), list);
+      }
+    }
+
+    rules._meta.updated_by = config.author;
+    storage.writeStageConfig(rules);
+    return { content: [{ type: "text" as const, text: `✓ Stage rules updated.\n\n${formatStageRules(rules)}` }] };
+  }
+);
+
+// ── Tool: set_stage_order ───────────────────────────────────
+
+server.tool(
+  "set_stage_order",
+  "Set the order deals move through the pipeline, and whether moving back to an earlier stage is ignored. A deal that jumps forward over enablement stages gets one combined package covering them.",
+  {
+    stage_order: z.array(z.string()).optional().describe("Canonical stages, earliest first (e.g., ['Discovery', 'Demo', 'Proposal Sent', 'Negotiation']). Won/lost stages don't belong here."),
+    suppress_backwards: z.boolean().optional().describe("Ignore moves back to an earlier stage (default true)"),
+  },
+  async ({ stage_order, suppress_backwards }) => {
+    if (!stage_order && suppress_backwards === undefined) {
+      return { content: [{ type: "text" as const, text: "Nothing to change — pass stage_order and/or suppress_backwards." }] };
+    }
+
+    const rules = storage.readStageConfig();
+    if (stage_order) rules.stage_order = stage_order;
+    if (suppress_backwards !== undefined) rules.suppress_backwards = suppress_backwards;
+    rules._meta.updated_by = config.author;
+    storage.writeStageConfig(rules);
+
+    return { content: [{ type: "text" as const, text: `✓ Stage order updated.\n\n${formatStageRules(rules)}` }] };
+  }
+);
+
+// ── Tool: add_transition_rule ───────────────────────────────
+
+server.tool(
+  "add_transition_rule",
+  "Add a rule for a specific stage move — e.g. send a package when a deal skips Demo and goes straight from Discovery to Proposal Sent, or ignore Negotiation → Proposal Sent. Rules are checked in order before the default behaviour; the first match wins. Replaces an existing rule for the same move.",
+  {
+    from: z.string().describe("Stage the deal moves from, or '*' for any (including a deal seen for the first time)"),
+    to: z.string().describe("Stage the deal moves to, or '*' for any"),
+    action: z.enum(["enablement", "skip"]).describe("'enablement' sends a package for this move, 'skip' ignores it"),
+  },
+  async ({ from, to, action }) => {
+    const rules = storage.readStageConfig();
+    const same = (r: StageTransitionRule) =>
+      r.from.toLowerCase() === from.trim().toLowerCase() && r.to.toLowerCase() === to.trim().toLowerCase();
+    const index = rules.transition_rules.findIndex(same);
+    const rule = { from: from.trim(), to: to.trim(), action };
+
+    if (index >= 0) rules.transition_rules[index] = rule;
+    else rules.transition_rules.push(rule);
+    rules._meta.updated_by = config.author;
+    storage.writeStageConfig(rules);
+
+    return {
+      content: [{
+        type: "text" as const,
+        text: `✓ ${index >= 0 ? "Updated" : "Added"} rule: ${rule.from} → ${rule.to} ${action === "enablement" ? "sends an enablement package" : "is ignored"}.`,
+      }],
+    };
+  }
+);
+
+// ── Tool: remove_transition_rule ────────────────────────────
+
+server.tool(
+  "remove_transition_rule",
+  "Remove a stage move rule. That move then falls back to the default behaviour.",
+  {
+    from: z.string().describe("The rule's from stage (or '*')"),
+    to: z.string().describe("The rule's to stage (or '*')"),
+  },
+  async ({ from, to }) => {
+    const rules = storage.readStageConfig();
+    const index = rules.transition_rules.findIndex(
+      (r) => r.from.toLowerCase() === from.trim().toLowerCase() && r.to.toLowerCase() === to.trim().toLowerCase()
+    );
+
+    if (index < 0) {
+      return {
+        content: [{
+          type: "text" as const,
+          text: `No rule for ${from} → ${to}. Use get_stage_config to see the current rules.`,
+        }],
+      };
+    }
+
+    const [removed] = rules.transition_rules.splice(index, 1);
+    rules._meta.updated_by = config.author;
+    storage.writeStageConfig(rules);
+
+    return { content: [{ type: "text" as const, text: `✓ Removed rule ${removed.from} → ${removed.to} (${removed.action}).` }] };
+  }
+);
+
+// ── Tool: get_field_mapping ─────────────────────────────────
+
+server.tool(
+  "get_field_mapping",
+  "Show where each deal field (deal name, competitor, rep email...) is read from in each CRM's webhook payload — the built-in paths and any custom ones set with set_field_mapping.",
+  {
+    crm: z.string().optional().describe("Only show this CRM: 'hubspot', 'salesforce', 'attio', 'pipedrive', 'close', 'zoho', 'dynamics', 'freshsales', 'copper', 'generic', or a plugin adapter's name"),
+  },
+  async ({ crm }) => {
+    const key = crm?.trim().toLowerCase();
+    const note = key ? unknownCrmNote(key) : "";
+    return { content: [{ type: "text" as const, text: formatFieldMapping(storage.readFieldMapping(), key) + note }] };
+  }
+);
+
+// ── Tool: set_field_mapping ─────────────────────────────────
+
+server.tool(
+  "set_field_mapping",
+  "Set where a CRM's webhook keeps a deal field — e.g. Salesforce's competitor in 'Primary_Competitor__c', or a HubSpot custom property. Paths are tried in order and the first with a value wins. Replaces the built-in paths for that field.",
+  {
+    crm: z.string().describe("CRM the payload comes from: 'hubspot', 'salesforce', 'attio', 'pipedrive', 'close', 'zoho', 'dynamics', 'freshsales', 'copper', 'generic', or a plugin adapter's name"),
+    field: MappedDealFieldSchema.describe("Deal field to set"),
+    paths: z.array(z.string().min(1)).min(1).describe("Dot paths into the payload, tried in order (e.g., ['properties.primary_competitor', 'properties.competitor'])"),
+    transforms: z.array(FieldTransformSchema).default([]).describe("Applied in order to the value found: 'lowercase', 'uppercase', 'trim', 'number' (\"$150,000\" → 150000), 'split:<separator>' or 'split:<separator>:<index>'"),
+  },
+  async ({ crm, field, paths, transforms }) => {
+    const key = crm.trim().toLowerCase();
+    const note = unknownCrmNote(key);
+    const mapping = storage.readFieldMapping();
+    mapping.crms[key] = { ...mapping.crms[key], [field]: { paths, transforms } };
+    mapping._meta.updated_by = config.author;
+    storage.writeFieldMapping(mapping);
+
+    return {
+      content: [{
+        type: "text" as const,
+        text: `✓ ${key} ${field} is now read from ${formatFieldRule({ paths, transforms })}. Use test_field_mapping with a sample payload to check it.${note}`,
+      }],
+    };
+  }
+);
+
+// ── Tool: reset_field_mapping ───────────────────────────────
+
+server.tool(
+  "reset_field_mapping",
+  "Remove custom field paths so a CRM goes back to the built-in ones — for one field, or every field of the CRM.",
+  {
+    crm: z.string().describe("CRM the custom paths belong to"),
+    field: MappedDealFieldSchema.optional().describe("Field to reset (omit to reset every field of the CRM)"),
+  },
+  async ({ crm, field }) => {
+    const key = crm.trim().toLowerCase();
+    const mapping = storage.readFieldMapping();
+    const fields = mapping.crms[key] ?? {};
+
+    if (field ? !fields[field] : Object.keys(fields).length === 0) {
+      return {
+        content: [{
+          type: "text" as const,
+          text: `No custom ${key}${field ? ` ${field}` : ""} paths. Use get_field_mapping to see the current mapping.`,
+        }],
+      };
+    }
+
+    if (field) delete fields[field];
+    if (!field || Object.keys(fields).length === 0) delete mapping.crms[key];
+    mapping._meta.updated_by = config.author;
+    storage.writeFieldMapping(mapping);
+
+    return {
+      content: [{
+        type: "text" as const,
+        text: `✓ ${key} ${field ?? "fields"} back to the built-in paths.`,
+      }],
+    };
+  }
+);
+
+// ── Tool: test_field_mapping ────────────────────────────────
+
+server.tool(
+  "test_field_mapping",
+  "Show how a sample CRM webhook payload maps onto the deal fields under the current field mapping — each field's value and the path it came from. Nothing is sent or stored.",
+  {
+    payload: z.string().describe("The webhook payload as JSON, pasted from the CRM's webhook log"),
+    crm: z.string().optional().describe("Treat the payload as coming from this CRM instead of detecting it"),
+  },
+  async ({ payload, crm }) => {
+    let raw: Record<string, unknown>;
+    try {
+      raw = JSON.parse(payload);
+      if (!raw || typeof raw !== "object" || Array.isArray(raw)) throw new Error("expected a JSON object");
+    } catch (err) {
+      return { content: [{ type: "text" as const, text: `Couldn't read the payload: ${(err as Error).message}` }] };
+    }
+
+    const key = crm?.trim().toLowerCase();
+    const note = key ? unknownCrmNote(key) : "";
+    const mapping = storage.readFieldMapping();
+    const deal = parseCrmPayload(raw, mapping);
+    const crmType = key ?? deal._crm_type;
+    const lines = [
+      `**Field mapping test** — ${crmType}${key ? "" : " (detected)"}`,
+      `- deal_stage: ${deal.deal_stage ? `"${deal.deal_stage}"` : "_not found_"} (stage rules decide what it means)`,
+    ];
+    const record = crmRecord(deal._raw, crmType);
+    for (const field of MAPPED_DEAL_FIELDS) {
+      const found = mapField(record, mapping, crmType, field);
+      const source = found.custom ? "custom" : "built-in";
+      lines.push(
+        found.path
+          ? `- ${field}: "${found.value}" ← ${found.path} (${source})`
+          : `- ${field}: _not found_ — tried ${formatFieldRule(fieldRule(mapping, crmType, field)?.rule)} (${source}), default used`
+      );
+    }
+    return { content: [{ type: "text" as const, text: lines.join("\n") + note }] };
+  }
+);
+
+// ── Helpers ─────────────────────────────────────────────────
+
+/**
+ * Write a set-aside document back to local storage — the write pushes
+ * it over the server's copy. Throws if it no longer validates.
+ */
+function reapplyDocument(endpoint: SyncEndpoint, data: unknown): void {
+  const source = `set-aside ${endpoint} push`;
+  switch (endpoint) {
+    case "/api/kb":
+      storage.writeKB(parseKnowledgeBase(data, source), { author: config.author, source: "reapply_sync_push" });
+      break;
+    case "/api/rep-directory":
+      storage.writeRepDirectory(parseRepDirectory(data, source));
+      break;
+    case "/api/stage-config":
+      storage.writeStageConfig(parseStageConfig(data, source));
+      break;
+    case "/api/field-mapping":
+      storage.writeFieldMapping(parseFieldMapping(data, source));
+      break;
+  }
+}
+
+/**
+ * Deliveries and feedback are recorded on the webhook server. With sync
+ * enabled the analytics tools read a local mirror of the production log,
+ * topped up with whatever is new on each call; otherwise the local log.
+ * `source` is a footnote saying which one the numbers came from.
+ */
+async function readAnalyticsLog(): Promise<{ log: FeedbackLog; source: string }> {
+  if (!isSyncEnabled()) return { log: storage.readFeedbackLog(), source: "" };
+
+  try {
+    const { log, pulled } = await pullFeedbackLog(config.feedbackMirrorPath);
+    return { log, source: `_Production data from ${config.syncUrl} (${pulled} new entries pulled)_` };
+  } catch (err) {
+    const cached = readFeedbackMirror(config.feedbackMirrorPath);
+    return {
+      log: cached ?? storage.readFeedbackLog(),
+      source: `_\u26a0\ufe0f Couldn't reach ${config.syncUrl} (${(err as Error).message}) — showing ${cached ? "the last pulled production data" : "local data only"}_`,
+    };
+  }
+}
+
+function withSource(text: string, source: string): string {
+  return source ? `${text}\n\n${source}` : text;
+}
+
+function formatDealTimeline(timeline: DealTimeline): string {
+  const { deal } = timeline;
+  const crm = deal ? ` (${deal.crm}${deal.deal_id ? ` ${deal.deal_id}` : ""})` : "";
+  const lines = [`**${timeline.deal_name}**${crm}`];
+
+  if (deal) {
+    const { fields, outcome } = deal;
+    lines.push(
+      `- Stage: ${deal.stage} since ${deal.stage_changed_at}`,
+      `- Company: ${fields.company_name} | Industry: ${fields.industry} | Size: $${fields.deal_size.toLocaleString()}`,
+      `- Competitor: ${fields.competitor} | Owner: ${fields.rep_email || "unknown"}`,
+      `- Outcome: ${outcome ? `${outcome.result === "won" ? "Won" : "Lost"} (${outcome.stage}, ${outcome.at})` : "Open"}`,
+      `- First seen: ${deal.first_seen_at}`
+    );
+  } else {
+    lines.push("_Not in the deal store (delivered before it existed) — showing the feedback log only._");
+  }
+
+  lines.push("", "**Timeline**");
+  const events = timelineEvents(timeline);
+  if (events.length === 0) lines.push("Nothing recorded yet.");
+  for (const event of events) {
+    lines.push(`- ${event.at.slice(0, 16).replace("T", " ")} — ${event.text}`);
+  }
+  return lines.join("\n");
+}
+
+function formatStageRules(rules: StageConfig): string {
+  const list = (stages: string[]) => (stages.length > 0 ? stages.join(", ") : "None");
+  const lines = [
+    "**Stage Rules**",
+    `- Enablement: ${list(rules.enablement_stages)}`,
+    `- Won: ${list(rules.won_stages)}`,
+    `- Lost: ${list(rules.lost_stages)}`,
+    "",
+    "**Stage moves**",
+    `- Pipeline order: ${rules.stage_order.length > 0 ? rules.stage_order.join(" → ") : "None"}`,
+    `- Backwards moves: ${rules.suppress_backwards ? "ignored" : "treated like any other move"}`,
+    ...rules.transition_rules.map(
+      (r, i) => `- Rule ${i + 1}: ${r.from} → ${r.to} ${r.action === "enablement" ? "sends a package" : "is ignored"}`
+    ),
+    "",
+    "**CRM stage mappings**",
+  ];
+
+  const crms = Object.entries(rules.stage_maps).filter(([, map]) => Object.keys(map).length > 0);
+  if (crms.length === 0) lines.push("None — every CRM's stage names are used as-is.");
+  for (const [crm, map] of crms) {
+    lines.push(`- ${crm}:`);
+    for (const [stage, canonical] of Object.entries(map)) {
+      lines.push(`  - "${stage}" → ${canonical} (${stageEffect(canonical, rules)})`);
+    }
+  }
+
+  const { last_updated, updated_by } = rules._meta;
+  const updated = last_updated
+    ? `${last_updated}${updated_by ? ` by ${updated_by}` : ""}`
+    : "Never (shipped defaults)";
+  lines.push("", `Last updated: ${updated}`);
+  return lines.join("\n");
+}
+
+function formatFieldMapping(mapping: FieldMapping, crm?: string): string {
+  const lines = ["**Field Mapping**"];
+  const crms = crm ? [crm] : [...new Set([...Object.keys(BUILT_IN_FIELD_MAPS), ...Object.keys(mapping.crms)])];
+  for (const key of crms) {
+    lines.push("", `**${key}**`);
+    for (const field of MAPPED_DEAL_FIELDS) {
+      const found = fieldRule(mapping, key, field);
+      lines.push(`- ${field}: ${formatFieldRule(found?.rule)}${found?.custom ? " (custom)" : ""}`);
+    }
+  }
+
+  const { last_updated, updated_by } = mapping._meta;
+  const updated = last_updated
+    ? `${last_updated}${updated_by ? ` by ${updated_by}` : ""}`
+    : "Never (built-in paths only)";
+  lines.push("", `Last updated: ${updated}`);
+  return lines.join("\n");
+}
+
+function formatFieldRule(rule: FieldRule | undefined): string {
+  if (!rule) return "nothing";
+  const paths = rule.paths.join(" → ");
+  return rule.transforms.length > 0 ? `${paths} [${rule.transforms.join(", ")}]` : paths;
+}
+
+/**
+ * CRM names the tools recognise: the built-ins plus any already in the
+ * stage maps or field mapping. Plugin adapters aren't loaded here, so a
+ * name outside these is allowed with a note rather than refused.
+ */
+function knownCrms(): string[] {
+  return [...new Set([
+    ...Object.keys(BUILT_IN_FIELD_MAPS),
+    ...Object.keys(storage.readStageConfig().stage_maps),
+    ...Object.keys(storage.readFieldMapping().crms),
+  ])];
+}
+
+/** A note to add to a tool's reply when the CRM name matches no adapter, else "". */
+function unknownCrmNote(crm: string): string {
+  const known = knownCrms();
+  if (known.includes(crm)) return "";
+  return `\n\nNote: "${crm}" matches no built-in CRM or one already mapped (${known.join(", ")}). That's fine for a plugin adapter — use its name exactly — otherwise check the spelling.`;
+}
+
+/** What a canonical stage does under the current rules. */
+function stageEffect(stage: string, rules: StageConfig): string {
+  switch (classifyStage(stage, rules)) {
+    case "enablement":
+      return "sends an enablement package";
+    case "outcome":
+      return "records an outcome";
+    default:
+      return "ignored";
+  }
+}
+
+function syncStatusLine(): string {
+  if (!isSyncEnabled()) return "Not configured";
+  const { conflicts } = readSyncState();
+  const pending = readSyncOutbox().items.length;
+  if (conflicts.length === 0) {
+    return pending === 0
+      ? `Enabled → ${config.syncUrl}`
+      : `Enabled → ${config.syncUrl} (${pending} push(es) waiting to retry — see get_sync_status)`;
+  }
+
+  const details = conflicts.map((c) => `  - ${c.endpoint} (${c.detected_at}):\n${c.summary.replace(/^/gm, "    ")}`);
+  return `\u26a0\ufe0f ${conflicts.length} conflict(s) — run pull_sync\n${details.join("\n")}`;
+}
+
 // ── Start ───────────────────────────────────────────────────
 
 async function main() {
   const transport = new StdioServerTransport();
   await server.connect(transport);
+
+  // Every tool call is a chance to deliver pushes the server missed
+  const handle = transport.onmessage;
+  transport.onmessage = (message) => {
+    if ("method" in message && message.method === "tools/call") {
+      void retrySyncOutbox();
+    }
+    handle?.(message);
+  };
 }
 
 main().catch((err) => {
@@ -0,0 +1,362 @@
+/**
+ * CRM adapters — everything the pipeline knows about one CRM's
+ * webhooks, behind one interface: how to recognise its payloads, read
+ * the deal and its stage out of them, and check they really came from
+ * the CRM.
+ *
+ * The built-in CRMs are registered adapters like any other. The webhook
+ * server registers more at startup from CRM_PLUGIN_DIR (see
+ * server/crm-plugins.ts), so an in-house CRM doesn't need a fork.
+ * Plugin adapters are asked before the built-ins — a payload with a
+ * `Name` key isn't necessarily Salesforce's — and the generic adapter,
+ * which takes anything, is always asked last.
+ *
+ * An adapter's name keys everything kept per CRM: stage maps, the field
+ * mapping, deal store records and webhook keys.
+ */
+
+import type { IncomingHttpHeaders } from "http";
+import type { Config } from "../shared/config.js";
+import type { CrmType, FieldMapping, MappedDealField } from "../shared/types.js";
+import { MAPPED_DEAL_FIELDS } from "../shared/types.js";
+import { mapField, readPath, STAGE_PATHS } from "./field-map.js";
+import { dynamicsRecord, isDynamicsContext } from "./dynamics.js";
+import {
+  verifyAttioSignature,
+  verifyBasicAuth,
+  verifyCloseSignature,
+  verifyHubSpotSignature,
+  verifySharedSecret,
+} from "./crm-signatures.js";
+
+/**
+ * The deal as the CRM sent it — "" for anything missing. parseCrmPayload
+ * fills in the defaults. The ID comes from extractDealId.
+ */
+export type CrmDealFields = Record<Exclude<MappedDealField, "deal_id"> | "deal_stage", string>;
+
+/** A CRM webhook as it arrived, for signature checks. */
+export interface CrmWebhookRequest {
+  method: string; // "POST"
+  url: string; // Full URL the CRM called, e.g. "https://your-app.up.railway.app/webhook/crm"
+  headers: IncomingHttpHeaders;
+  rawBody: string; // Exactly as received — signatures are computed over the bytes
+}
+
+export interface CrmAdapter {
+  name: string; // "hubspot", "zoho", "acme-crm"...
+  /** Whether a payload (already unwrapped from n8n's { body }) comes from this CRM. */
+  detect(raw: Record<string, unknown>): boolean;
+  /** Read the deal's fields, honouring the field mapping where the CRM has paths. */
+  parse(raw: Record<string, unknown>, mapping: FieldMapping): CrmDealFields;
+  /** Every stage value the payload carries, most specific first. */
+  extractStage(raw: Record<string, unknown>): string[];
+  /** Previous-stage values, for CRMs that send the deal as it was. */
+  extractPreviousStage?(raw: Record<string, unknown>): string[];
+  /** The CRM's own ID for the deal, "" if the payload has none. */
+  extractDealId(raw: Record<string, unknown>, mapping: FieldMapping): string;
+  /**
+   * Why the request can't be trusted to come from the CRM, or null if
+   * it can. CRMs without a signature scheme leave this out.
+   */
+  verifySignature?(request: CrmWebhookRequest, config: Config): string | null;
+  /** The object field paths are read from, when it isn't the payload itself. */
+  record?(raw: Record<string, unknown>): Record<string, unknown>;
+}
+
+// ============================================================
+// Registry
+// ============================================================
+
+const plugins: CrmAdapter[] = [];
+
+/**
+ * Register an adapter ahead of the built-ins. One with a built-in's
+ * name replaces it; registering a name twice keeps the latest.
+ */
+export function registerCrmAdapter(adapter: CrmAdapter): void {
+  unregisterCrmAdapter(adapter.name);
+  plugins.push(adapter);
+}
+
+/** Remove a registered adapter. The built-ins can't be removed. */
+export function unregisterCrmAdapter(name: string): boolean {
+  const index = plugins.findIndex((a) => a.name === name);
+  if (index < 0) return false;
+  plugins.splice(index, 1);
+  return true;
+}
+
+/** Every adapter, in the order payloads are matched against them. */
+export function crmAdapters(): CrmAdapter[] {
+  const replaced = new Set(plugins.map((a) => a.name));
+  return [
+    ...plugins.filter((a) => a.name !== GENERIC.name),
+    ...BUILT_IN_ADAPTERS.filter((a) => !replaced.has(a.name)),
+    plugins.find((a) => a.name === GENERIC.name) ?? GENERIC,
+  ];
+}
+
+/** The adapter registered under a name, or null. */
+export function getCrmAdapter(name: string): CrmAdapter | null {
+  return crmAdapters().find((a) => a.name === name) ?? null;
+}
+
+/** The first adapter that recognises the payload — the generic one if none does. */
+export function detectCrmAdapter(raw: Record<string, unknown>): CrmAdapter {
+  return crmAdapters().find((a) => a.detect(raw)) ?? GENERIC;
+}
+
+// ============================================================
+// Built-in adapters
+// ============================================================
+
+interface BuiltInSpec {
+  name: CrmType;
+  detect(raw: Record<string, unknown>): boolean;
+  stages(record: Record<string, unknown>): unknown[];
+  previousStages?(record: Record<string, unknown>): unknown[];
+  record?(raw: Record<string, unknown>): Record<string, unknown>;
+  /** The CRM's own signature check, if it has one and it's configured. */
+  verify?(request: CrmWebhookRequest, config: Config): string | null | undefined;
+}
+
+/**
+ * A built-in CRM: fields through the field mapping and BUILT_IN_FIELD_MAPS,
+ * the stage label from STAGE_PATHS. A generic deal_stage / previous_stage
+ * is read from every CRM's payload as a last resort.
+ *
+ * Webhooks are checked with the CRM's own signature when its secret is
+ * set, else with CRM_WEBHOOK_SECRET (see verifyUnsignedCrm).
+ */
+function builtIn(spec: BuiltInSpec): CrmAdapter {
+  const recordOf = spec.record ?? ((raw: Record<string, unknown>) => raw);
+
+  return {
+    name: spec.name,
+    detect: spec.detect,
+    ...(spec.record && { record: spec.record }),
+
+    parse(raw, mapping) {
+      const record = recordOf(raw);
+      const fields = {} as CrmDealFields;
+      for (const field of MAPPED_DEAL_FIELDS) {
+        if (field === "deal_id") continue;
+        fields[field] = mapField(record, mapping, spec.name, field).value;
+      }
+      fields.deal_stage =
+        STAGE_PATHS[spec.name].map((path) => readPath(record, path)).find((v) => v !== null) ?? "";
+      return fields;
+    },
+
+    extractStage(raw) {
+      const record = recordOf(raw);
+      return stageValues([...spec.stages(record), record.deal_stage]);
+    },
+
+    extractPreviousStage(raw) {
+      const record = recordOf(raw);
+      return stageValues([...(spec.previousStages?.(record) ?? []), record.previous_stage]);
+    },
+
+    extractDealId(raw, mapping) {
+      return mapField(recordOf(raw), mapping, spec.name, "deal_id").value;
+    },
+
+    verifySignature(request, config) {
+      const own = spec.verify?.(request, config);
+      if (own !== undefined) return own;
+      return verifyUnsignedCrm(request, config);
+    },
+  };
+}
+
+/**
+ * The check for a CRM without a signature of its own configured: the
+ * shared CRM_WEBHOOK_SECRET. Without one, the webhook is refused as
+ * soon as any CRM has a secret — the adapter is picked from the
+ * payload's shape, so otherwise a body shaped like another CRM would
+ * get around the configured check. With no secrets at all, anything
+ * is accepted.
+ */
+export function verifyUnsignedCrm(request: CrmWebhookRequest, config: Config): string | null {
+  if (config.crmWebhookSecret) return verifySharedSecret(request, config.crmWebhookSecret);
+  return crmSecretsConfigured(config).length > 0
+    ? "no signature configured for this CRM — set CRM_WEBHOOK_SECRET"
+    : null;
+}
+
+/** Which CRM signature checks have their secrets set. */
+export function crmSecretsConfigured(config: Config): string[] {
+  return [
+    config.hubspotClientSecret && "HubSpot signature",
+    config.pipedriveWebhookUser && "Pipedrive basic auth",
+    config.attioWebhookSecret && "Attio signature",
+    config.closeWebhookSignatureKey && "Close signature",
+  ].filter((check): check is string => Boolean(check));
+}
+
+// ── HubSpot ────────────────────────────────────────────────
+
+const HUBSPOT = builtIn({
+  name: "hubspot",
+  detect: (raw) => isObject(raw.properties),
+  stages: (body) => [asRecord(body.properties).dealstage],
+  verify: (request, config) =>
+    config.hubspotClientSecret
+      ? verifyHubSpotSignature(request, config.hubspotClientSecret, config.webhookSignatureToleranceMs)
+      : undefined,
+});
+
+// ── Salesforce ─────────────────────────────────────────────
+
+const SALESFORCE = builtIn({
+  name: "salesforce",
+  detect: (raw) => Boolean(raw.StageName || raw.Name),
+  stages: (body) => [body.StageName],
+  // A flow or field-history payload's prior StageName
+  previousStages: (body) => [body.PriorValue, body.Previous_Stage__c],
+});
+
+// ── Attio ──────────────────────────────────────────────────
+
+const ATTIO = builtIn({
+  name: "attio",
+  detect: (raw) => isObject(raw.attributes),
+  stages: (body) => [asRecord(body.attributes).stage],
+  verify: (request, config) =>
+    config.attioWebhookSecret ? verifyAttioSignature(request, config.attioWebhookSecret) : undefined,
+});
+
+// ── Pipedrive ──────────────────────────────────────────────
+
+const PIPEDRIVE = builtIn({
+  name: "pipedrive",
+  detect: (raw) => isObject(raw.current),
+  // A won/lost status outranks the stage the deal closed in
+  stages: (body) => {
+    const current = asRecord(body.current);
+    return [current.status !== "open" && current.status, current.stage_name, current.stage_id];
+  },
+  // v1: previous holds the deal as it was before the change
+  previousStages: (body) => {
+    if (!isObject(body.previous)) return [];
+    const previous = asRecord(body.previous);
+    return [previous.status !== "open" && previous.status, previous.stage_name, previous.stage_id];
+  },
+  verify: (request, config) =>
+    config.pipedriveWebhookUser
+      ? verifyBasicAuth(request, config.pipedriveWebhookUser, config.pipedriveWebhookPassword)
+      : undefined,
+});
+
+// ── Close ──────────────────────────────────────────────────
+
+const CLOSE = builtIn({
+  name: "close",
+  detect: (raw) => Boolean(raw.lead || raw.status_label),
+  // status_label, then status_type ("won", "lost", "active")
+  stages: (body) => [body.status_label, body.status_type],
+  previousStages: (body) => {
+    const previous = asRecord(body.previous_data);
+    return [previous.status_label, previous.status_type];
+  },
+  verify: (request, config) =>
+    config.closeWebhookSignatureKey
+      ? verifyCloseSignature(request, config.closeWebhookSignatureKey, config.webhookSignatureToleranceMs)
+      : undefined,
+});
+
+// ── Zoho CRM ───────────────────────────────────────────────
+
+const ZOHO = builtIn({
+  name: "zoho",
+  detect: (raw) => raw.Deal_Name !== undefined,
+  stages: (body) => [body.Stage],
+});
+
+// ── Dynamics 365 ───────────────────────────────────────────
+
+const DYNAMICS = builtIn({
+  name: "dynamics",
+  detect: isDynamicsContext,
+  // Read from the flattened execution context (see dynamics.ts)
+  record: dynamicsRecord,
+  // A won/lost state outranks the stage, then the business process
+  // stage and the sales stage
+  stages: (body) => {
+    const formatted = asRecord(body.FormattedValues);
+    return [
+      formatted.statecode !== "Open" && formatted.statecode,
+      body.stepname,
+      formatted.salesstage,
+    ];
+  },
+  // The step's pre-image
+  previousStages: (body) => {
+    const preImage = asRecord(body.PreImage);
+    return [preImage.stepname, asRecord(preImage.FormattedValues).salesstage];
+  },
+});
+
+// ── Freshsales ─────────────────────────────────────────────
+
+const FRESHSALES = builtIn({
+  name: "freshsales",
+  detect: (raw) => isObject(raw.deal),
+  stages: (body) => {
+    const deal = asRecord(body.deal);
+    return [asRecord(deal.deal_stage).name, deal.deal_stage_id];
+  },
+});
+
+// ── Copper ─────────────────────────────────────────────────
+
+const COPPER = builtIn({
+  name: "copper",
+  detect: (raw) => raw.pipeline_stage_id !== undefined,
+  // A won/lost/abandoned status outranks the pipeline stage ID
+  stages: (body) => [body.status !== "Open" && body.status, body.pipeline_stage_id],
+  // updated_attributes holds [before, after] for each change
+  previousStages: (body) => {
+    const stageChange = asRecord(body.updated_attributes).pipeline_stage_id;
+    return Array.isArray(stageChange) ? [stageChange[0]] : [];
+  },
+});
+
+// ── Generic ────────────────────────────────────────────────
+
+const GENERIC = builtIn({
+  name: "generic",
+  detect: () => true,
+  stages: () => [],
+});
+
+const BUILT_IN_ADAPTERS: CrmAdapter[] = [
+  HUBSPOT,
+  SALESFORCE,
+  ATTIO,
+  PIPEDRIVE,
+  CLOSE,
+  ZOHO,
+  DYNAMICS,
+  FRESHSALES,
+  COPPER,
+];
+
+// ── Helpers ────────────────────────────────────────────────
+
+/** Non-empty strings and numbers, as strings. */
+function stageValues(values: unknown[]): string[] {
+  return values
+    .filter((v) => (typeof v === "string" && v.length > 0) || typeof v === "number")
+    .map(String);
+}
+
+function isObject(value: unknown): boolean {
+  return Boolean(value) && typeof value === "object";
+}
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === "object" ? (value as Record<string, unknown>) : {};
+}
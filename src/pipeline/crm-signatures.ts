@@ -0,0 +1,117 @@
+/**
+ * CRM webhook authenticity — the checks the built-in CRM adapters run
+ * before a webhook is trusted (see verifySignature in crm-adapters.ts).
+ *
+ * - HubSpot: X-HubSpot-Signature-v3, a base64 HMAC-SHA256 of method +
+ *   URL + body + X-HubSpot-Request-Timestamp, keyed with the app's
+ *   client secret
+ * - Pipedrive: HTTP basic auth, set on the webhook
+ * - Attio: Attio-Signature, a hex HMAC-SHA256 of the body keyed with
+ *   the webhook's secret
+ * - Close: close-sig-hash, a hex HMAC-SHA256 of close-sig-timestamp +
+ *   body keyed with the subscription's (hex) signature key
+ * - Everything else: a shared secret, in an X-Webhook-Secret header or
+ *   a ?secret= query parameter for CRMs that can't set headers
+ *
+ * Each check returns why the request was rejected, or null. Signed
+ * timestamps older (or newer) than the tolerance are rejected, so a
+ * captured request can't be replayed later. Comparisons are
+ * constant-time.
+ */
+
+import { createHmac, timingSafeEqual } from "crypto";
+import type { CrmWebhookRequest } from "./crm-adapters.js";
+
+/**
+ * HubSpot v3 signs the URL with these characters decoded — the rest
+ * stay percent-encoded.
+ */
+const HUBSPOT_DECODED = /%(3A|2F|3F|40|21|24|27|28|29|2A|2C|3B)/gi;
+
+export function verifyHubSpotSignature(
+  request: CrmWebhookRequest,
+  clientSecret: string,
+  toleranceMs: number,
+  now: number = Date.now()
+): string | null {
+  const signature = header(request, "x-hubspot-signature-v3");
+  const timestamp = header(request, "x-hubspot-request-timestamp");
+  if (!signature || !timestamp) return "missing X-HubSpot-Signature-v3 or X-HubSpot-Request-Timestamp";
+
+  const stale = staleTimestamp(Number(timestamp), toleranceMs, now);
+  if (stale) return stale;
+
+  const uri = request.url.replace(HUBSPOT_DECODED, (code) => decodeURIComponent(code));
+  const expected = createHmac("sha256", clientSecret)
+    .update(`${request.method}${uri}${request.rawBody}${timestamp}`)
+    .digest("base64");
+  return safeEqual(signature, expected) ? null : "HubSpot signature mismatch";
+}
+
+export function verifyBasicAuth(
+  request: CrmWebhookRequest,
+  user: string,
+  password: string
+): string | null {
+  const authorization = header(request, "authorization");
+  if (!authorization?.startsWith("Basic ")) return "missing basic auth";
+
+  const expected = Buffer.from(`${user}:${password}`).toString("base64");
+  return safeEqual(authorization.slice(6).trim(), expected) ? null : "wrong basic auth credentials";
+}
+
+export function verifyAttioSignature(request: CrmWebhookRequest, secret: string): string | null {
+  const signature = header(request, "attio-signature") ?? header(request, "x-attio-signature");
+  if (!signature) return "missing Attio-Signature";
+
+  const expected = createHmac("sha256", secret).update(request.rawBody).digest("hex");
+  return safeEqual(signature.toLowerCase(), expected) ? null : "Attio signature mismatch";
+}
+
+export function verifyCloseSignature(
+  request: CrmWebhookRequest,
+  signatureKey: string,
+  toleranceMs: number,
+  now: number = Date.now()
+): string | null {
+  const signature = header(request, "close-sig-hash");
+  const timestamp = header(request, "close-sig-timestamp");
+  if (!signature || !timestamp) return "missing close-sig-hash or close-sig-timestamp";
+
+  // Close timestamps are in seconds
+  const stale = staleTimestamp(Number(timestamp) * 1000, toleranceMs, now);
+  if (stale) return stale;
+
+  const expected = createHmac("sha256", Buffer.from(signatureKey, "hex"))
+    .update(`${timestamp}${request.rawBody}`)
+    .digest("hex");
+  return safeEqual(signature.toLowerCase(), expected) ? null : "Close signature mismatch";
+}
+
+export function verifySharedSecret(request: CrmWebhookRequest, secret: string): string | null {
+  const query = new URL(request.url, "http://localhost").searchParams.get("secret");
+  const given = header(request, "x-webhook-secret") ?? query;
+  if (!given) return "missing X-Webhook-Secret";
+  return safeEqual(given, secret) ? null : "wrong webhook secret";
+}
+
+/** Constant-time string comparison — a length mismatch is simply unequal. */
+export function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+// ── Helpers ────────────────────────────────────────────────
+
+function header(request: CrmWebhookRequest, name: string): string | null {
+  const value = request.headers[name];
+  const first = Array.isArray(value) ? value[0] : value;
+  return first ? first : null;
+}
+
+function staleTimestamp(timestampMs: number, toleranceMs: number, now: number): string | null {
+  if (!Number.isFinite(timestampMs)) return "invalid signature timestamp";
+  if (Math.abs(now - timestampMs) > toleranceMs) return "signature timestamp outside tolerance";
+  return null;
+}
@@ -0,0 +1,80 @@
+/**
+ * Dynamics 365 service endpoints — flattens the RemoteExecutionContext
+ * a webhook step posts into a record the field paths can read.
+ *
+ * Dynamics sends entities as key/value lists, with typed values:
+ *
+ *   { "PrimaryEntityName": "opportunity", "PrimaryEntityId": "…",
+ *     "InputParameters": [{ "key": "Target", "value": {
+ *       "Attributes": [{ "key": "name", "value": "Contoso Renewal" },
+ *                      { "key": "estimatedvalue", "value": { "Value": 150000 } }],
+ *       "FormattedValues": [{ "key": "salesstage", "value": "Propose" }] } }],
+ *     "PostEntityImages": [...], "PreEntityImages": [...] }
+ *
+ * The record is the post image (when the step registers one) with the
+ * Target's changed attributes on top: { name, estimatedvalue: 150000,
+ * ownerid: { Id, Name, LogicalName }, FormattedValues: { salesstage },
+ * PreImage: { ... } }. Money and option set values become plain
+ * numbers; lookups keep their Id and Name.
+ */
+
+/** A body that is a Dynamics 365 RemoteExecutionContext. */
+export function isDynamicsContext(body: Record<string, unknown>): boolean {
+  return typeof body.PrimaryEntityName === "string" && Array.isArray(body.InputParameters);
+}
+
+export function dynamicsRecord(context: Record<string, unknown>): Record<string, unknown> {
+  const target = entityRecord(keyValues(context.InputParameters).Target);
+  const post = entityRecord(firstImage(context.PostEntityImages));
+  const pre = entityRecord(firstImage(context.PreEntityImages));
+
+  return {
+    PrimaryEntityId: context.PrimaryEntityId,
+    ...post,
+    ...target,
+    FormattedValues: { ...asRecord(post.FormattedValues), ...asRecord(target.FormattedValues) },
+    PreImage: pre,
+  };
+}
+
+// ── Helpers ────────────────────────────────────────────────
+
+function entityRecord(entity: unknown): Record<string, unknown> {
+  const { Attributes, FormattedValues } = asRecord(entity);
+  const record: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(keyValues(Attributes))) {
+    record[key] = plainValue(value);
+  }
+  record.FormattedValues = keyValues(FormattedValues);
+  return record;
+}
+
+/** Money and OptionSetValue → their Value; EntityReference → { Id, Name, LogicalName }. */
+function plainValue(value: unknown): unknown {
+  if (!value || typeof value !== "object") return value;
+  const typed = value as Record<string, unknown>;
+  if ("Value" in typed) return typed.Value;
+  if ("LogicalName" in typed) {
+    return { Id: typed.Id, Name: typed.Name, LogicalName: typed.LogicalName };
+  }
+  return value;
+}
+
+function firstImage(images: unknown): unknown {
+  return Array.isArray(images) ? asRecord(images[0]).value : undefined;
+}
+
+/** [{ key, value }] → { key: value } */
+function keyValues(list: unknown): Record<string, unknown> {
+  const record: Record<string, unknown> = {};
+  if (!Array.isArray(list)) return record;
+  for (const item of list) {
+    const { key, value } = asRecord(item);
+    if (typeof key === "string") record[key] = value;
+  }
+  return record;
+}
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === "object" ? (value as Record<string, unknown>) : {};
+}
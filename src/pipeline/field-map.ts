@@ -0,0 +1,248 @@
+/**
+ * Field mapping — where each CRM keeps the deal fields, as dot paths
+ * into the webhook payload.
+ *
+ * BUILT_IN_FIELD_MAPS holds the paths the parsers have always read
+ * (Competitor__c, properties.hubspot_owner_email, current.competitor...).
+ * The field mapping kept with the data (field-mapping.json, edited with
+ * the set_field_mapping tool) overrides them field by field, for orgs
+ * that use Primary_Competitor__c or their own HubSpot properties.
+ */
+
+import type {
+  CrmType,
+  FieldMapping,
+  FieldRule,
+  MappedDealField,
+} from "../shared/types.js";
+
+type FieldRules = Partial<Record<MappedDealField, FieldRule>>;
+
+const paths = (...p: string[]): FieldRule => ({ paths: p, transforms: [] });
+
+export const BUILT_IN_FIELD_MAPS: Record<CrmType, FieldRules> = {
+  hubspot: {
+    deal_id: paths("objectId", "properties.hs_object_id", "id"),
+    deal_name: paths("properties.dealname"),
+    company_name: paths("properties.company"),
+    deal_notes: paths("properties.notes"),
+    product_interest: paths("properties.product_interest"),
+    industry: paths("properties.industry"),
+    competitor: paths("properties.competitor", "properties.hs_competitor"),
+    deal_size: paths("properties.amount"),
+    rep_email: paths("properties.hubspot_owner_email"),
+    rep_slack_id: paths("properties.rep_slack_id"),
+  },
+  salesforce: {
+    deal_id: paths("Id"),
+    deal_name: paths("Name"),
+    company_name: paths("Account.Name"),
+    deal_notes: paths("Description"),
+    product_interest: paths("Product_Interest__c"),
+    industry: paths("Industry__c"),
+    competitor: paths("Competitor__c"),
+    deal_size: paths("Amount"),
+    rep_email: paths("Owner.Email"),
+    rep_slack_id: paths("Rep_Slack_ID__c"),
+  },
+  attio: {
+    // Attio webhooks send { id: { workspace_id, object_id, record_id } }
+    deal_id: paths("record_id", "id.record_id", "id"),
+    deal_name: paths("attributes.name", "attributes.title"),
+    company_name: paths("attributes.company"),
+    deal_notes: paths("attributes.notes", "attributes.description"),
+    product_interest: paths("attributes.product_interest"),
+    industry: paths("attributes.industry"),
+    competitor: paths("attributes.competitor"),
+    deal_size: paths("attributes.value", "attributes.amount"),
+    rep_email: paths("attributes.owner_email"),
+    rep_slack_id: paths("attributes.rep_slack_id"),
+  },
+  pipedrive: {
+    deal_id: paths("current.id"),
+    deal_name: paths("current.title"),
+    company_name: paths("current.org_name"),
+    deal_notes: paths("current.notes"),
+    product_interest: paths("current.product_interest"),
+    industry: paths("current.industry"),
+    competitor: paths("current.competitor"),
+    deal_size: paths("current.value"),
+    rep_email: paths("current.owner_email"),
+    rep_slack_id: paths("current.rep_slack_id"),
+  },
+  close: {
+    deal_id: paths("opportunity_id", "id"),
+    deal_name: paths("lead.display_name", "lead_name"),
+    company_name: paths("lead.name", "lead.display_name"),
+    deal_notes: paths("note"),
+    product_interest: paths("product_interest"),
+    industry: paths("industry"),
+    competitor: paths("competitor"),
+    deal_size: paths("value", "annualized_value"),
+    rep_email: paths("user_email"),
+    rep_slack_id: paths("rep_slack_id"),
+  },
+  zoho: {
+    // Zoho workflow webhooks send the record with its API field names
+    deal_id: paths("id"),
+    deal_name: paths("Deal_Name"),
+    company_name: paths("Account_Name.name", "Account_Name"),
+    deal_notes: paths("Description"),
+    product_interest: paths("Product_Interest"),
+    industry: paths("Industry"),
+    competitor: paths("Competitor"),
+    deal_size: paths("Amount"),
+    rep_email: paths("Owner.email"),
+    rep_slack_id: paths("Rep_Slack_ID"),
+  },
+  dynamics: {
+    // Read from the flattened RemoteExecutionContext (see dynamics.ts).
+    // Lookups carry the owner's name, not their email — map a column
+    // that holds it (e.g. new_owneremail) with set_field_mapping.
+    deal_id: paths("opportunityid", "PrimaryEntityId"),
+    deal_name: paths("name"),
+    company_name: paths("parentaccountid.Name", "customerid.Name"),
+    deal_notes: paths("description"),
+    product_interest: paths("new_productinterest"),
+    industry: paths("new_industry", "FormattedValues.industrycode"),
+    competitor: paths("new_competitor"),
+    deal_size: paths("estimatedvalue"),
+    rep_email: paths("new_owneremail"),
+    rep_slack_id: paths("new_repslackid"),
+  },
+  freshsales: {
+    deal_id: paths("deal.id"),
+    deal_name: paths("deal.name"),
+    company_name: paths("deal.sales_account.name"),
+    deal_notes: paths("deal.custom_field.cf_notes"),
+    product_interest: paths("deal.custom_field.cf_product_interest"),
+    industry: paths("deal.custom_field.cf_industry"),
+    competitor: paths("deal.custom_field.cf_competitor"),
+    deal_size: paths("deal.amount"),
+    rep_email: paths("deal.owner.email"),
+    rep_slack_id: paths("deal.custom_field.cf_rep_slack_id"),
+  },
+  copper: {
+    deal_id: paths("id"),
+    deal_name: paths("name"),
+    company_name: paths("company_name"),
+    deal_notes: paths("details"),
+    product_interest: paths("product_interest"),
+    industry: paths("industry"),
+    competitor: paths("competitor"),
+    deal_size: paths("monetary_value"),
+    rep_email: paths("assignee.email"),
+    rep_slack_id: paths("rep_slack_id"),
+  },
+  generic: {
+    deal_id: paths("deal_id"),
+    deal_name: paths("deal_name"),
+    company_name: paths("company_name"),
+    deal_notes: paths("deal_notes"),
+    product_interest: paths("product_interest"),
+    industry: paths("industry"),
+    competitor: paths("competitor"),
+    deal_size: paths("deal_size"),
+    rep_email: paths("rep_email"),
+    rep_slack_id: paths("rep_slack_id"),
+  },
+};
+
+/**
+ * Where each CRM sends the stage, as it labels it. Not part of the
+ * field mapping — what a stage means is up to the stage rules.
+ */
+export const STAGE_PATHS: Record<CrmType, string[]> = {
+  hubspot: ["properties.dealstage"],
+  salesforce: ["StageName"],
+  attio: ["attributes.stage", "attributes.status"],
+  pipedrive: ["current.stage_name", "current.status"],
+  close: ["status_label", "status_type"],
+  zoho: ["Stage"],
+  dynamics: ["stepname", "FormattedValues.salesstage"],
+  freshsales: ["deal.deal_stage.name", "deal.deal_stage_id"],
+  copper: ["pipeline_stage_id"],
+  generic: ["deal_stage"],
+};
+
+/** How a field's value was found — for test_field_mapping. */
+export interface MappedField {
+  value: string; // "" if no path had a value
+  path: string | null; // The path it came from
+  custom: boolean; // From the field mapping rather than the built-in paths
+}
+
+/**
+ * The rule in effect for a CRM's field: the PMM's, else the built-in
+ * one. Null if neither has one.
+ */
+export function fieldRule(
+  mapping: FieldMapping,
+  crm: string,
+  field: MappedDealField
+): { rule: FieldRule; custom: boolean } | null {
+  const custom = mapping.crms[crm]?.[field];
+  if (custom) return { rule: custom, custom: true };
+  const builtIn = BUILT_IN_FIELD_MAPS[crm as CrmType]?.[field];
+  return builtIn ? { rule: builtIn, custom: false } : null;
+}
+
+/**
+ * Read one field from the payload: the first path whose value is still
+ * non-empty after the transforms.
+ */
+export function mapField(
+  raw: Record<string, unknown>,
+  mapping: FieldMapping,
+  crm: string,
+  field: MappedDealField
+): MappedField {
+  const found = fieldRule(mapping, crm, field);
+  if (!found) return { value: "", path: null, custom: false };
+
+  for (const path of found.rule.paths) {
+    const value = readPath(raw, path);
+    if (value === null) continue;
+    const transformed = found.rule.transforms.reduce(applyTransform, value);
+    if (transformed !== "") return { value: transformed, path, custom: found.custom };
+  }
+  return { value: "", path: null, custom: found.custom };
+}
+
+/**
+ * A dot path's value as a string — null when it's missing, empty, or
+ * not a string or number. Array items are addressed by index.
+ */
+export function readPath(raw: Record<string, unknown>, path: string): string | null {
+  let value: unknown = raw;
+  for (const key of path.split(".")) {
+    if (value === null || typeof value !== "object") return null;
+    value = (value as Record<string, unknown>)[key];
+  }
+
+  if (typeof value === "number") return String(value);
+  if (typeof value === "string" && value.trim().length > 0) return value;
+  return null;
+}
+
+function applyTransform(value: string, transform: string): string {
+  switch (transform) {
+    case "lowercase":
+      return value.toLowerCase();
+    case "uppercase":
+      return value.toUpperCase();
+    case "trim":
+      return value.trim();
+    case "number":
+      return value.replace(/[^0-9.-]/g, "");
+  }
+
+  // split:<separator> or split:<separator>:<index>
+  const split = /^split:(.+?)(?::(-?\d+))?$/.exec(transform);
+  if (split) {
+    const parts = value.split(split[1]);
+    const index = split[2] ? parseInt(split[2], 10) : 0;
+    return (parts.at(index) ?? "").trim();
+  }
+  return value;
+}
@@ -1,25 +1,109 @@
 /**
  * Stage filter — determines which deal stage changes should trigger
  * the enablement pipeline or outcome tracking.
+ *
+ * The rules come from the stage config kept with the data (see
+ * StageConfig in types.ts): each CRM's stage IDs and labels are mapped
+ * to a canonical stage, and the canonical enablement / won / lost lists
+ * decide what happens. Without a config the shipped defaults apply.
+ * Stage names are compared case-insensitively.
+ *
+ * When the deal's previous stage is known the move is judged as a
+ * whole (classifyTransition): from → to rules, backwards moves and
+ * stages jumped over.
  */
 
-const ENABLEMENT_STAGES = ["Proposal Sent", "Negotiation"];
-const OUTCOME_STAGES = ["Closed Won", "Closed Lost"];
+import type { StageConfig, StageTransitionRule } from "../shared/types.js";
+import { defaultStageConfig } from "../shared/data.js";
+import { detectCrmAdapter } from "./crm-adapters.js";
 
 export type StageType = "enablement" | "outcome" | "skip";
 
 /**
  * Classify a deal stage as enablement-worthy, outcome-worthy, or skip.
  *
- * @param stage - The deal stage string from the CRM
+ * @param stage - The canonical deal stage (see extractStage)
  * @returns "enablement" if rep needs content, "outcome" if deal closed, "skip" otherwise
  */
-export function classifyStage(stage: string): StageType {
-  if (ENABLEMENT_STAGES.includes(stage)) return "enablement";
-  if (OUTCOME_STAGES.includes(stage)) return "outcome";
+export function classifyStage(
+  stage: string,
+  rules: StageConfig = defaultStageConfig()
+): StageType {
+  if (includesStage(rules.enablement_stages, stage)) return "enablement";
+  if (stageOutcome(stage, rules)) return "outcome";
   return "skip";
 }
 
+/**
+ * Whether an outcome stage means the deal was won or lost. Null for
+ * any stage that isn't an outcome.
+ */
+export function stageOutcome(
+  stage: string,
+  rules: StageConfig = defaultStageConfig()
+): "won" | "lost" | null {
+  if (includesStage(rules.won_stages, stage)) return "won";
+  if (includesStage(rules.lost_stages, stage)) return "lost";
+  return null;
+}
+
+export interface TransitionDecision {
+  type: StageType;
+  skipped: string[]; // Enablement stages jumped over, for a combined package
+  reason: string; // Why, for the log
+}
+
+/**
+ * Classify a move from one canonical stage to another. In order:
+ * 1. The same stage again → classifyStage(to)
+ * 2. The first matching transition rule decides
+ * 3. No previous stage, or an outcome → classifyStage(to)
+ * 4. A move back in stage_order is skipped if suppress_backwards is on
+ * 5. A move forward over enablement stages sends one package that
+ *    covers them, even if `to` itself isn't an enablement stage
+ */
+export function classifyTransition(
+  from: string | null,
+  to: string,
+  rules: StageConfig = defaultStageConfig()
+): TransitionDecision {
+  const toType = classifyStage(to, rules);
+  const byStage = (): TransitionDecision => ({
+    type: toType,
+    skipped: [],
+    reason: toType === "skip" ? `stage "${to}" not in target list` : `stage "${to}"`,
+  });
+  if (from !== null && normalize(from) === normalize(to)) return byStage();
+
+  const move = `"${from ?? "(new deal)"}" → "${to}"`;
+  const skipped = from === null ? [] : skippedStages(from, to, rules);
+  const rule = rules.transition_rules.find((r) => matchesRule(r, from, to));
+  if (rule) {
+    return {
+      type: rule.action,
+      skipped: rule.action === "enablement" ? skipped : [],
+      reason: `rule ${rule.from} → ${rule.to} (${rule.action}) matched ${move}`,
+    };
+  }
+
+  if (from === null || toType === "outcome") return byStage();
+
+  const fromIndex = indexOfStage(rules.stage_order, from);
+  const toIndex = indexOfStage(rules.stage_order, to);
+  if (rules.suppress_backwards && fromIndex >= 0 && toIndex >= 0 && toIndex < fromIndex) {
+    return { type: "skip", skipped: [], reason: `backwards move ${move}` };
+  }
+
+  if (skipped.length > 0) {
+    return {
+      type: "enablement",
+      skipped,
+      reason: `${move} skipped ${skipped.join(", ")}`,
+    };
+  }
+  return byStage();
+}
+
 /**
  * Check if a stage matches any of the provided target stages.
  * Used for custom stage configurations.
@@ -32,40 +116,96 @@ export function filterStage(
 }
 
 /**
- * Extract the deal stage from a raw CRM webhook payload.
- * Handles the various field names across CRM platforms.
+ * Extract the deal stage from a raw CRM webhook payload and map it to
+ * its canonical stage. The CRM's adapter knows where its stage values
+ * are (see crm-adapters.ts); the first one with a mapping wins, and
+ * with none mapped the most specific is returned as the CRM sent it.
  */
-export function extractStage(raw: Record<string, unknown>): string {
+export function extractStage(
+  raw: Record<string, unknown>,
+  rules: StageConfig = defaultStageConfig()
+): string {
   // n8n-style body wrapping
   const body = (raw.body as Record<string, unknown>) || raw;
+  const adapter = detectCrmAdapter(body);
+  const candidates = adapter.extractStage(body);
 
-  // HubSpot: properties.dealstage
-  if (body.properties && typeof body.properties === "object") {
-    const props = body.properties as Record<string, unknown>;
-    if (props.dealstage) return String(props.dealstage);
+  for (const candidate of candidates) {
+    const canonical = mapCrmStage(rules, adapter.name, candidate);
+    if (canonical) return canonical;
   }
+  return candidates[0] ?? "";
+}
 
-  // Salesforce: StageName
-  if (body.StageName) return String(body.StageName);
+/**
+ * The deal's previous stage as the CRM reports it, mapped like
+ * extractStage. Null when the payload doesn't carry one — Pipedrive
+ * v1 sends `previous`, Close `previous_data`, Dynamics 365 a pre-image,
+ * Copper `updated_attributes`; Salesforce flows and generic senders
+ * can add PriorValue / previous_stage.
+ */
+export function extractPreviousStage(
+  raw: Record<string, unknown>,
+  rules: StageConfig = defaultStageConfig()
+): string | null {
+  const body = (raw.body as Record<string, unknown>) || raw;
+  const adapter = detectCrmAdapter(body);
+  const candidates = adapter.extractPreviousStage?.(body) ?? [];
 
-  // Attio: attributes.stage
-  if (body.attributes && typeof body.attributes === "object") {
-    const attrs = body.attributes as Record<string, unknown>;
-    if (attrs.stage) return String(attrs.stage);
+  for (const candidate of candidates) {
+    const canonical = mapCrmStage(rules, adapter.name, candidate);
+    if (canonical) return canonical;
   }
+  return candidates[0] ?? null;
+}
 
-  // Pipedrive: current.stage_id or current.stage_name
-  if (body.current && typeof body.current === "object") {
-    const current = body.current as Record<string, unknown>;
-    if (current.stage_name) return String(current.stage_name);
-    if (current.stage_id) return String(current.stage_id);
-  }
+/**
+ * The canonical stage a CRM's stage ID or label maps to, or null if
+ * the CRM has no mapping for it.
+ */
+export function mapCrmStage(
+  rules: StageConfig,
+  crm: string,
+  crmStage: string
+): string | null {
+  const map = rules.stage_maps[crm];
+  if (!map || !crmStage) return null;
+  if (map[crmStage] !== undefined) return map[crmStage];
 
-  // Close: status_label
-  if (body.status_label) return String(body.status_label);
+  const target = normalize(crmStage);
+  const key = Object.keys(map).find((k) => normalize(k) === target);
+  return key !== undefined ? map[key] : null;
+}
 
-  // Generic: deal_stage
-  if (body.deal_stage) return String(body.deal_stage);
+/**
+ * Enablement stages strictly between `from` and `to` in stage_order.
+ * Empty unless both are in the order and the move is forwards.
+ */
+function skippedStages(from: string, to: string, rules: StageConfig): string[] {
+  const fromIndex = indexOfStage(rules.stage_order, from);
+  const toIndex = indexOfStage(rules.stage_order, to);
+  if (fromIndex < 0 || toIndex <= fromIndex + 1) return [];
+  return rules.stage_order
+    .slice(fromIndex + 1, toIndex)
+    .filter((stage) => includesStage(rules.enablement_stages, stage));
+}
+
+function matchesRule(rule: StageTransitionRule, from: string | null, to: string): boolean {
+  const matches = (pattern: string, stage: string | null) =>
+    pattern === "*" || (stage !== null && normalize(pattern) === normalize(stage));
+  return matches(rule.from, from) && matches(rule.to, to);
+}
+
+function indexOfStage(stages: string[], stage: string): number {
+  const target = normalize(stage);
+  return stages.findIndex((s) => normalize(s) === target);
+}
+
+function includesStage(stages: string[], stage: string): boolean {
+  const target = normalize(stage);
+  return target.length > 0 && stages.some((s) => normalize(s) === target);
+}
 
-  return "";
+function normalize(stage: string): string {
+  return stage.trim().toLowerCase();
 }
@@ -0,0 +1,219 @@
+/**
+ * HubSpot v3 webhook subscriptions — turns a batch of subscription
+ * events into the deal payloads the rest of the pipeline reads.
+ *
+ * HubSpot doesn't send the deal. It POSTs an array of events, each with
+ * the deal's objectId and (for deal.propertyChange) the one property
+ * that changed:
+ *
+ *   [{ "eventId": 1, "subscriptionType": "deal.propertyChange",
+ *      "objectId": 8841920731, "propertyName": "dealstage",
+ *      "propertyValue": "contractsent", "occurredAt": 1767225600000 }]
+ *
+ * Every deal in the batch is looked up through the CRM API (HUBSPOT_API_URL,
+ * authenticated with HUBSPOT_ACCESS_TOKEN) for the properties the field
+ * mapping reads, and its hubspot_owner_id resolved to the owner's email
+ * for rep routing. The result is shaped like the flat HubSpot payload:
+ * { eventId, objectId, properties: { dealname, dealstage, ... } }.
+ */
+
+import type { FieldMapping } from "../shared/types.js";
+import { MAPPED_DEAL_FIELDS } from "../shared/types.js";
+import { fieldRule } from "./field-map.js";
+
+/** HubSpot gives up on a webhook after 5s — leave room for the deal and owner lookups. */
+const HUBSPOT_TIMEOUT_MS = 2_000;
+
+export interface HubSpotApi {
+  url: string; // e.g. https://api.hubapi.com
+  token: string; // Private app access token (crm.objects.deals.read, crm.objects.owners.read)
+}
+
+/** One event from a v3 webhook subscription batch. */
+export interface HubSpotEvent {
+  eventId: number | string;
+  subscriptionType: string; // "deal.creation", "deal.propertyChange", ...
+  objectId: number | string;
+  propertyName?: string;
+  propertyValue?: string;
+  occurredAt?: number;
+}
+
+/** The lookup failed in a way a HubSpot retry might fix. */
+export class HubSpotApiError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "HubSpotApiError";
+  }
+}
+
+/** A body that is a v3 subscription batch rather than a deal payload. */
+export function isHubSpotEventBatch(body: unknown): body is HubSpotEvent[] {
+  return (
+    Array.isArray(body) &&
+    body.length > 0 &&
+    body.every(
+      (e) =>
+        e &&
+        typeof e === "object" &&
+        typeof e.subscriptionType === "string" &&
+        (typeof e.objectId === "number" || typeof e.objectId === "string")
+    )
+  );
+}
+
+/**
+ * The events that can move a deal: deal creation, and changes to
+ * dealstage. Oldest first, so two moves of one deal in a batch are
+ * judged in the order they happened.
+ */
+export function stageEvents(events: HubSpotEvent[]): HubSpotEvent[] {
+  return events
+    .filter(
+      (e) =>
+        e.subscriptionType === "deal.creation" ||
+        (e.subscriptionType === "deal.propertyChange" && e.propertyName === "dealstage")
+    )
+    .sort((a, b) => (a.occurredAt ?? 0) - (b.occurredAt ?? 0));
+}
+
+/**
+ * Build a deal payload for each stage event. Deals and owners are
+ * looked up once per batch. Without an access token the payload only
+ * has what the event carried (the deal ID and stage).
+ */
+export async function expandHubSpotEvents(
+  events: HubSpotEvent[],
+  api: HubSpotApi,
+  mapping: FieldMapping
+): Promise<Record<string, unknown>[]> {
+  const deals = new Map<string, Promise<Record<string, unknown>>>();
+  const owners = new Map<string, Promise<string | null>>();
+  if (!api.token) {
+    console.warn("[JIT] HubSpot: no HUBSPOT_ACCESS_TOKEN set — deals can't be looked up, only their stage is known");
+  }
+
+  const lookup = (dealId: string) => {
+    if (!deals.has(dealId)) {
+      deals.set(
+        dealId,
+        fetchDeal(dealId, api, mapping).then((properties) => withOwnerEmail(properties, api, owners))
+      );
+    }
+    return deals.get(dealId)!;
+  };
+
+  return Promise.all(
+    stageEvents(events).map(async (event) => {
+      const dealId = String(event.objectId);
+      const properties = api.token ? await lookup(dealId) : {};
+      return {
+        eventId: event.eventId,
+        objectId: event.objectId,
+        properties: {
+          ...properties,
+          hs_object_id: dealId,
+          // The stage the event moved to, not wherever the deal is by now
+          ...(event.propertyName === "dealstage" && { dealstage: event.propertyValue }),
+        },
+      };
+    })
+  );
+}
+
+/**
+ * Add properties.hubspot_owner_email to a flat HubSpot payload that
+ * only has hubspot_owner_id. Unchanged without a token or an owner.
+ */
+export async function resolveHubSpotOwner(
+  payload: Record<string, unknown>,
+  api: HubSpotApi
+): Promise<Record<string, unknown>> {
+  const properties = payload.properties as Record<string, unknown>;
+  if (!api.token || properties.hubspot_owner_email || !properties.hubspot_owner_id) {
+    return payload;
+  }
+  return { ...payload, properties: await withOwnerEmail(properties, api, new Map()) };
+}
+
+// ── API ────────────────────────────────────────────────────
+
+/**
+ * The deal's properties — the ones the field mapping reads, plus the
+ * stage and owner. A deleted deal has none.
+ */
+async function fetchDeal(
+  dealId: string,
+  api: HubSpotApi,
+  mapping: FieldMapping
+): Promise<Record<string, unknown>> {
+  const query = encodeURIComponent(dealProperties(mapping).join(","));
+  const result = await get(api, `/crm/v3/objects/deals/${encodeURIComponent(dealId)}?properties=${query}`);
+  if (!result) {
+    console.warn(`[JIT] HubSpot: deal ${dealId} not found`);
+    return {};
+  }
+  return (result.properties as Record<string, unknown>) ?? {};
+}
+
+async function withOwnerEmail(
+  properties: Record<string, unknown>,
+  api: HubSpotApi,
+  owners: Map<string, Promise<string | null>>
+): Promise<Record<string, unknown>> {
+  const ownerId = properties.hubspot_owner_id;
+  if ((typeof ownerId !== "string" && typeof ownerId !== "number") || ownerId === "") {
+    return properties;
+  }
+
+  const key = String(ownerId);
+  if (!owners.has(key)) owners.set(key, fetchOwnerEmail(key, api));
+  const email = await owners.get(key)!;
+  return email ? { ...properties, hubspot_owner_email: email } : properties;
+}
+
+/**
+ * An owner's email. Null when it can't be found — the rep then can't
+ * be routed by email, but the webhook shouldn't fail over it.
+ */
+async function fetchOwnerEmail(ownerId: string, api: HubSpotApi): Promise<string | null> {
+  try {
+    const owner = await get(api, `/crm/v3/owners/${encodeURIComponent(ownerId)}`);
+    if (typeof owner?.email === "string" && owner.email) return owner.email;
+    console.warn(`[JIT] HubSpot: owner ${ownerId} not found or has no email`);
+  } catch (err) {
+    console.warn(`[JIT] HubSpot: owner ${ownerId} lookup failed: ${(err as Error).message}`);
+  }
+  return null;
+}
+
+/** GET from the HubSpot API. Null on 404. */
+async function get(api: HubSpotApi, path: string): Promise<Record<string, unknown> | null> {
+  let response: Response;
+  try {
+    response = await fetch(`${api.url.replace(/\/+$/, "")}${path}`, {
+      headers: { Authorization: `Bearer ${api.token}` },
+      signal: AbortSignal.timeout(HUBSPOT_TIMEOUT_MS),
+    });
+  } catch (err) {
+    throw new HubSpotApiError(`HubSpot API unreachable: ${(err as Error).message}`);
+  }
+
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    throw new HubSpotApiError(`HubSpot API ${path.split("?")[0]} returned ${response.status}`);
+  }
+  return (await response.json()) as Record<string, unknown>;
+}
+
+/** Property names the field mapping reads from "properties.<name>". */
+function dealProperties(mapping: FieldMapping): string[] {
+  const names = new Set(["dealstage", "hubspot_owner_id"]);
+  for (const field of MAPPED_DEAL_FIELDS) {
+    for (const path of fieldRule(mapping, "hubspot", field)?.rule.paths ?? []) {
+      const [root, name] = path.split(".");
+      if (root === "properties" && name) names.add(name);
+    }
+  }
+  return [...names];
+}
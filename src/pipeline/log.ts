@@ -4,14 +4,18 @@
  *
  * Replaces the n8n "Log Delivery" node and GitHub API write cycle.
  * Now just a local file append.
+ *
+ * A delivery is logged queued on its first send attempt. Each attempt
+ * is counted and the platform's error kept, and it ends sent or — once
+ * the job gives up — failed.
  */
 
-import type { DeliveryEntry, DealContext, KnowledgeBase } from "../shared/types.js";
-import { appendDelivery } from "../shared/data.js";
-import { generateDeliveryId } from "../shared/id.js";
+import type { DeliveryEntry, DealContext, KnowledgeBase, MessageRef } from "../shared/types.js";
+import type { Storage } from "../shared/storage.js";
 
 /**
- * Build a delivery entry from deal context and KB state.
+ * Build a delivery entry from deal context and KB state — queued, with
+ * no attempts yet.
  */
 export function buildDeliveryEntry(
   deal: DealContext,
@@ -26,6 +30,7 @@ export function buildDeliveryEntry(
 
   return {
     delivery_id: deliveryId,
+    deal_id: deal.deal_id,
     deal_name: deal.deal_name,
     deal_stage: deal.deal_stage,
     industry: deal.industry,
@@ -34,22 +39,78 @@ export function buildDeliveryEntry(
     case_studies_surfaced: caseStudiesSurfaced,
     competitors_surfaced: competitorsSurfaced,
     channel,
+    status: "queued",
+    attempts: 0,
     timestamp: new Date().toISOString(),
   };
 }
 
 /**
- * Log a delivery to the local feedback log.
+ * Count a send attempt — logs the delivery queued on the first.
+ */
+export function recordDeliveryAttempt(
+  deal: DealContext,
+  kb: KnowledgeBase,
+  deliveryId: string,
+  channel: string,
+  storage: Storage
+): DeliveryEntry {
+  const entry = storage.getDelivery(deliveryId) ?? buildDeliveryEntry(deal, kb, deliveryId, channel);
+  entry.attempts = (entry.attempts ?? 0) + 1;
+  storage.saveDelivery(entry);
+  return entry;
+}
+
+/**
+ * Keep why the last send failed. The delivery stays queued while the
+ * job retries.
+ */
+export function recordDeliveryError(
+  storage: Storage,
+  deliveryId: string,
+  code: string,
+  message: string
+): void {
+  const entry = storage.getDelivery(deliveryId);
+  if (!entry) return;
+  storage.saveDelivery({ ...entry, error_code: code, error_message: message });
+}
+
+/**
+ * Mark a queued delivery failed — its job gave up. Keeps the platform
+ * error if a send got that far.
+ */
+export function markDeliveryFailed(storage: Storage, deliveryId: string, message: string): void {
+  const entry = storage.getDelivery(deliveryId);
+  if (!entry || entry.status !== "queued") return;
+  storage.saveDelivery({
+    ...entry,
+    status: "failed",
+    error_code: entry.error_code ?? "unknown",
+    error_message: entry.error_message ?? message,
+  });
+}
+
+/**
+ * Log a delivery as sent, with the message it was sent as.
  */
 export function logDelivery(
   deal: DealContext,
   kb: KnowledgeBase,
   deliveryId: string,
   channel: string,
-  feedbackLogPath: string
+  storage: Storage,
+  messageRef?: MessageRef
 ): DeliveryEntry {
-  const entry = buildDeliveryEntry(deal, kb, deliveryId, channel);
-  appendDelivery(feedbackLogPath, entry);
+  const { error_code: _code, error_message: _message, ...queued } =
+    storage.getDelivery(deliveryId) ?? buildDeliveryEntry(deal, kb, deliveryId, channel);
+  const entry: DeliveryEntry = {
+    ...queued,
+    status: "sent",
+    attempts: Math.max(queued.attempts ?? 0, 1),
+    ...(messageRef && { message_ref: messageRef }),
+  };
+  storage.saveDelivery(entry);
   console.log(
     `[JIT] Delivered: ${deal.deal_name} (${deal.deal_stage}) → ${deal.rep_slack_id || deal.rep_email} [${deliveryId}]`
   );
@@ -12,7 +12,7 @@
  */
 
 import type { DealContext } from "../shared/types.js";
-import { findRepByEmail, upsertRep } from "../shared/data.js";
+import type { Storage } from "../shared/storage.js";
 
 /**
  * Resolve the rep's messaging identity.
@@ -20,7 +20,7 @@ import { findRepByEmail, upsertRep } from "../shared/data.js";
  */
 export function resolveRepIdentity(
   deal: DealContext,
-  repDirectoryPath?: string
+  storage?: Storage
 ): DealContext {
   let repSlackId = deal.rep_slack_id;
   let resolutionMethod = "unresolved";
@@ -36,8 +36,8 @@ export function resolveRepIdentity(
   }
 
   // 2. Check rep directory by email
-  if (deal.rep_email && repDirectoryPath) {
-    const rep = findRepByEmail(repDirectoryPath, deal.rep_email);
+  if (deal.rep_email && storage) {
+    const rep = storage.findRepByEmail(deal.rep_email);
     if (rep?.slack_id) {
       return {
         ...deal,
@@ -72,7 +72,7 @@ export function resolveRepIdentity(
 export async function resolveRepViaSlackApi(
   deal: DealContext,
   slackBotToken: string,
-  repDirectoryPath: string
+  storage: Storage
 ): Promise<DealContext> {
   if (!deal.rep_email || !slackBotToken) {
     return deal;
@@ -94,7 +94,7 @@ export async function resolveRepViaSlackApi(
 
     if (result.ok && result.user?.id) {
       // Cache in rep directory for future lookups
-      upsertRep(repDirectoryPath, {
+      storage.upsertRep({
         email: deal.rep_email,
         name: result.user.real_name || deal.rep_email,
         slack_id: result.user.id,
@@ -131,7 +131,7 @@ export async function resolveRepViaSlackApi(
  */
 export function resolveRepForTelegram(
   deal: DealContext,
-  repDirectoryPath: string
+  storage: Storage
 ): DealContext {
   if (!deal.rep_email) {
     return {
@@ -141,7 +141,7 @@ export function resolveRepForTelegram(
     };
   }
 
-  const rep = findRepByEmail(repDirectoryPath, deal.rep_email);
+  const rep = storage.findRepByEmail(deal.rep_email);
   if (rep?.telegram_chat_id) {
     return {
       ...deal,
@@ -0,0 +1,131 @@
+/**
+ * Salesforce Outbound Messages — the SOAP XML a Workflow Rule or Flow
+ * sends when it can't make an HTTP callout of its own.
+ *
+ *   <soapenv:Envelope ...><soapenv:Body>
+ *     <notifications xmlns="http://soap.sforce.com/2005/09/outbound">
+ *       <OrganizationId>00D...</OrganizationId>
+ *       <Notification>
+ *         <Id>04l...</Id>
+ *         <sObject xsi:type="sf:Opportunity" xmlns:sf="urn:sobject.enterprise.soap.sforce.com">
+ *           <sf:Id>006...</sf:Id>
+ *           <sf:StageName>Negotiation</sf:StageName>
+ *         </sObject>
+ *       </Notification>
+ *     </notifications>
+ *   </soapenv:Body></soapenv:Envelope>
+ *
+ * A message carries up to 100 notifications. Each sObject's fields have
+ * the same names as in the REST JSON (Name, StageName, Competitor__c),
+ * so a notification becomes a flat Salesforce payload the parser already
+ * reads. Salesforce resends the message until it gets the Ack back.
+ *
+ * Only the message's fixed shape is read — this isn't a general XML
+ * parser.
+ */
+
+export interface OutboundNotification {
+  id: string; // Same on every retry of the message
+  sobject_type: string; // "Opportunity"
+  fields: Record<string, string>; // Fields sent as nil are left out
+}
+
+export interface OutboundMessage {
+  organization_id: string;
+  notifications: OutboundNotification[];
+}
+
+/** A request body that is an Outbound Message rather than JSON. */
+export function isOutboundMessage(body: unknown): body is string {
+  return typeof body === "string" && /<(\w+:)?notifications[\s>]/.test(body);
+}
+
+/**
+ * Read an Outbound Message. Throws if the XML has no notifications —
+ * Salesforce then retries it rather than losing it.
+ */
+export function parseOutboundMessage(xml: string): OutboundMessage {
+  const notifications: OutboundNotification[] = [];
+
+  for (const [, notification] of xml.matchAll(element("Notification"))) {
+    const sobject = /<(?:\w+:)?sObject(\s[^>]*)?>([\s\S]*?)<\/(?:\w+:)?sObject>/.exec(notification);
+    const id = textOf(notification.replace(sobject?.[0] ?? "", ""), "Id");
+    if (!sobject || !id) continue;
+
+    const type = /xsi:type="(?:\w+:)?(\w+)"/.exec(sobject[1] ?? "");
+    notifications.push({
+      id,
+      sobject_type: type?.[1] ?? "",
+      fields: childFields(sobject[2]),
+    });
+  }
+
+  if (notifications.length === 0) {
+    throw new Error("Outbound Message has no notifications");
+  }
+  return { organization_id: textOf(xml, "OrganizationId") ?? "", notifications };
+}
+
+/**
+ * The flat payload parseCrmPayload reads for a notification, with the
+ * notification ID for webhook dedup.
+ */
+export function notificationPayload(notification: OutboundNotification): Record<string, unknown> {
+  return { ...notification.fields, NotificationId: notification.id };
+}
+
+/** The reply that stops Salesforce resending the message. */
+export function outboundMessageAck(): string {
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<soapenv:Envelope xmlns:soapenv="http://schemas.xmlsoap.org/soap/envelope/">`,
+    `<soapenv:Body>`,
+    `<notificationsResponse xmlns="http://soap.sforce.com/2005/09/outbound">`,
+    `<Ack>true</Ack>`,
+    `</notificationsResponse>`,
+    `</soapenv:Body>`,
+    `</soapenv:Envelope>`,
+  ].join("");
+}
+
+// ── Helpers ────────────────────────────────────────────────
+
+/** <name>…</name>, with or without a namespace prefix. */
+function element(name: string): RegExp {
+  return new RegExp(`<(?:\\w+:)?${name}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:\\w+:)?${name}>`, "g");
+}
+
+function textOf(xml: string, name: string): string | null {
+  const match = element(name).exec(xml);
+  return match ? decodeEntities(match[1].trim()) : null;
+}
+
+/** Every <sf:Field>value</sf:Field> child; self-closing (nil) ones are skipped. */
+function childFields(xml: string): Record<string, string> {
+  const fields: Record<string, string> = {};
+  for (const [, name, value] of xml.matchAll(/<(?:\w+:)?(\w+)(?:\s[^>]*)?>([^<]*)<\/(?:\w+:)?\1>/g)) {
+    fields[name] = decodeEntities(value.trim());
+  }
+  return fields;
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (_, entity: string) => {
+    switch (entity.toLowerCase()) {
+      case "amp":
+        return "&";
+      case "lt":
+        return "<";
+      case "gt":
+        return ">";
+      case "quot":
+        return '"';
+      case "apos":
+        return "'";
+    }
+    const code = entity[1] === "x" || entity[1] === "X"
+      ? parseInt(entity.slice(2), 16)
+      : parseInt(entity.slice(1), 10);
+    return String.fromCodePoint(code);
+  });
+}
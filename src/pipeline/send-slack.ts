@@ -5,15 +5,40 @@
 
 import type { SlackMessage } from "../shared/types.js";
 
+/**
+ * chat.postMessage errors retrying won't fix — the rep or channel is
+ * gone, the bot can't post there, or the token is bad.
+ */
+const PERMANENT_SLACK_ERRORS = new Set([
+  "channel_not_found",
+  "not_in_channel",
+  "is_archived",
+  "user_not_found",
+  "user_disabled",
+  "account_inactive",
+  "cannot_dm_bot",
+  "invalid_auth",
+  "not_authed",
+  "token_revoked",
+  "missing_scope",
+  "msg_too_long",
+  "invalid_blocks",
+]);
+
+export function isPermanentSlackError(error: string | undefined): boolean {
+  return error !== undefined && PERMANENT_SLACK_ERRORS.has(error);
+}
+
 /**
  * Send a Slack DM to the sales rep.
  *
- * @returns Slack API response or error details
+ * @returns Slack API response or error details — on success, the DM
+ * channel and ts of the posted message
  */
 export async function sendSlackDM(
   message: SlackMessage,
   botToken: string
-): Promise<{ ok: boolean; error?: string; ts?: string }> {
+): Promise<{ ok: boolean; error?: string; channel?: string; ts?: string }> {
   const response = await fetch("https://slack.com/api/chat.postMessage", {
     method: "POST",
     headers: {
@@ -32,6 +57,7 @@ export async function sendSlackDM(
   const result = (await response.json()) as {
     ok: boolean;
     error?: string;
+    channel?: string;
     ts?: string;
   };
 
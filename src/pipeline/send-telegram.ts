@@ -1,19 +1,39 @@
 /**
  * Telegram sender — posts messages via the Telegram Bot API.
+ *
+ * Every call takes the Bot API base URL (TELEGRAM_API_URL —
+ * https://api.telegram.org, or a stand-in) as its first argument.
  */
 
 import type { TelegramMessage } from "../shared/types.js";
 
+/** The parts of a sent Message the engine keeps. */
+export interface TelegramSentMessage {
+  message_id: number;
+  chat: { id: number };
+}
+
+/**
+ * Whether a failed Bot API call will fail again — a bad request, a bad
+ * token, a bot the user blocked, a chat that doesn't exist. Rate limits
+ * (429) and server errors are worth retrying.
+ */
+export function isPermanentTelegramError(errorCode: number | undefined): boolean {
+  return errorCode === 400 || errorCode === 401 || errorCode === 403 || errorCode === 404;
+}
+
 /**
  * Send a Telegram message with inline keyboard.
+ *
+ * @returns Telegram API response — on success, the sent message with
+ * its message_id and chat
  */
 export async function sendTelegramMessage(
+  apiUrl: string,
   message: TelegramMessage,
   botToken: string
-): Promise<{ ok: boolean; description?: string }> {
-  const url = `https://api.telegram.org/bot${botToken}/sendMessage`;
-
-  const response = await fetch(url, {
+): Promise<{ ok: boolean; error_code?: number; description?: string; result?: TelegramSentMessage }> {
+  const response = await fetch(botApiUrl(apiUrl, botToken, "sendMessage"), {
     method: "POST",
     headers: { "Content-Type": "application/json" },
     body: JSON.stringify({
@@ -26,7 +46,9 @@ export async function sendTelegramMessage(
 
   const result = (await response.json()) as {
     ok: boolean;
+    error_code?: number;
     description?: string;
+    result?: TelegramSentMessage;
   };
 
   if (!result.ok) {
@@ -43,13 +65,12 @@ export async function sendTelegramMessage(
  * Shows a brief toast notification to the user.
  */
 export async function answerCallbackQuery(
+  apiUrl: string,
   callbackQueryId: string,
   text: string,
   botToken: string
 ): Promise<{ ok: boolean; description?: string }> {
-  const url = `https://api.telegram.org/bot${botToken}/answerCallbackQuery`;
-
-  const response = await fetch(url, {
+  const response = await fetch(botApiUrl(apiUrl, botToken, "answerCallbackQuery"), {
     method: "POST",
     headers: { "Content-Type": "application/json" },
     body: JSON.stringify({
@@ -65,14 +86,13 @@ export async function answerCallbackQuery(
  * Edit a message's inline keyboard (replace buttons with a clicked state).
  */
 export async function editMessageReplyMarkup(
+  apiUrl: string,
   chatId: string,
   messageId: number,
   replyMarkup: Record<string, unknown> | null,
   botToken: string
 ): Promise<{ ok: boolean; description?: string }> {
-  const url = `https://api.telegram.org/bot${botToken}/editMessageReplyMarkup`;
-
-  const response = await fetch(url, {
+  const response = await fetch(botApiUrl(apiUrl, botToken, "editMessageReplyMarkup"), {
     method: "POST",
     headers: { "Content-Type": "application/json" },
     body: JSON.stringify({
@@ -89,13 +109,12 @@ export async function editMessageReplyMarkup(
  * Send a plain text Telegram message (used for PMM notifications).
  */
 export async function sendTelegramText(
+  apiUrl: string,
   chatId: string,
   text: string,
   botToken: string
 ): Promise<{ ok: boolean; description?: string }> {
-  const url = `https://api.telegram.org/bot${botToken}/sendMessage`;
-
-  const response = await fetch(url, {
+  const response = await fetch(botApiUrl(apiUrl, botToken, "sendMessage"), {
     method: "POST",
     headers: { "Content-Type": "application/json" },
     body: JSON.stringify({
@@ -107,3 +126,60 @@ export async function sendTelegramText(
 
   return (await response.json()) as { ok: boolean; description?: string };
 }
+
+// ── Webhook registration ───────────────────────────────────
+
+/** Telegram answers setWebhook / getWebhookInfo within this or not at all. */
+const TELEGRAM_WEBHOOK_TIMEOUT_MS = 5_000;
+
+/** What getWebhookInfo reports about the bot's webhook. */
+export interface TelegramWebhookInfo {
+  url: string; // "" when no webhook is set
+  pending_update_count: number;
+  last_error_date?: number; // Unix seconds
+  last_error_message?: string;
+  max_connections?: number;
+}
+
+/**
+ * Point the bot's webhook at a URL. Telegram then sends the secret in
+ * X-Telegram-Bot-Api-Secret-Token on every update.
+ */
+export async function setTelegramWebhook(
+  apiUrl: string,
+  botToken: string,
+  url: string,
+  secretToken: string
+): Promise<{ ok: boolean; description?: string }> {
+  return callBotApi(apiUrl, botToken, "setWebhook", {
+    url,
+    ...(secretToken && { secret_token: secretToken }),
+    allowed_updates: ["message", "callback_query"],
+  });
+}
+
+export async function getTelegramWebhookInfo(
+  apiUrl: string,
+  botToken: string
+): Promise<{ ok: boolean; description?: string; result?: TelegramWebhookInfo }> {
+  return callBotApi(apiUrl, botToken, "getWebhookInfo", {});
+}
+
+async function callBotApi<T extends { ok: boolean; description?: string }>(
+  apiUrl: string,
+  botToken: string,
+  method: string,
+  body: Record<string, unknown>
+): Promise<T> {
+  const response = await fetch(botApiUrl(apiUrl, botToken, method), {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(TELEGRAM_WEBHOOK_TIMEOUT_MS),
+  });
+  return (await response.json()) as T;
+}
+
+function botApiUrl(apiUrl: string, botToken: string, method: string): string {
+  return `${apiUrl.replace(/\/+$/, "")}/bot${botToken}/${method}`;
+}
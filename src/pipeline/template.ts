@@ -12,6 +12,10 @@
  * 3. Objections — matched by competitor + deal stage relevance
  * 4. Methodology — stage-specific guidance applied automatically
  *
+ * A deal that jumped over enablement stages gets one combined package:
+ * stages it skipped count as relevant too, and their methodology
+ * guidance is included.
+ *
  * The output is structured, scannable, and ready for Slack/Telegram delivery.
  */
 
@@ -48,7 +52,7 @@ export function buildTemplateEnablement(deal: DealContext, kb: KnowledgeBase): s
 
   // ── 4. Methodology guidance ──────────────────────────────
   if (kb.methodology) {
-    const methodologySection = formatMethodologySection(kb.methodology, deal.deal_stage);
+    const methodologySection = formatMethodologySection(kb.methodology, packageStages(deal));
     if (methodologySection) {
       sections.push(methodologySection);
     }
@@ -59,6 +63,9 @@ export function buildTemplateEnablement(deal: DealContext, kb: KnowledgeBase): s
     `DEAL CONTEXT`,
     `Company: ${deal.company_name} | Industry: ${deal.industry}`,
     `Stage: ${deal.deal_stage} | Size: $${Number(deal.deal_size).toLocaleString()}`,
+    deal.skipped_stages?.length
+      ? `Skipped: ${deal.skipped_stages.join(", ")} (covered below)`
+      : null,
     deal.competitor !== "Unknown" && deal.competitor !== "None" && deal.competitor !== "Not specified"
       ? `Competitor: ${deal.competitor}`
       : null,
@@ -71,6 +78,14 @@ export function buildTemplateEnablement(deal: DealContext, kb: KnowledgeBase): s
 
 // ── Matching functions ──────────────────────────────────────
 
+/**
+ * The stages this package covers, lowercased: any the deal skipped,
+ * then the one it's in.
+ */
+function packageStages(deal: DealContext): string[] {
+  return [...(deal.skipped_stages ?? []), deal.deal_stage].map((s) => s.toLowerCase());
+}
+
 /**
  * Find the best case study for a deal.
  * Priority: same industry + relevant stage > same industry > relevant stage > first available
@@ -82,13 +97,13 @@ function findBestCaseStudy(
   if (!caseStudies || caseStudies.length === 0) return null;
 
   const industry = deal.industry.toLowerCase();
-  const stage = deal.deal_stage.toLowerCase();
+  const stages = packageStages(deal);
 
   // Score each case study
   const scored = caseStudies.map((cs) => {
     let score = 0;
     if (cs.industry.toLowerCase() === industry) score += 10;
-    if (cs.relevant_stages.some((s) => s.toLowerCase() === stage)) score += 5;
+    if (cs.relevant_stages.some((s) => stages.includes(s.toLowerCase()))) score += 5;
     // Partial industry match (e.g., "Financial" matches "Financial Services")
     if (
       score < 10 &&
@@ -134,7 +149,7 @@ function findRelevantObjections(
   if (!objections || objections.length === 0) return [];
 
   const competitor = deal.competitor.toLowerCase();
-  const stage = deal.deal_stage.toLowerCase();
+  const stages = packageStages(deal);
 
   // Score each objection
   const scored = objections.map((ob) => {
@@ -142,7 +157,7 @@ function findRelevantObjections(
     // Competitor match is highest priority
     if (ob.competitor && ob.competitor.toLowerCase() === competitor) score += 10;
     // Stage relevance
-    if (ob.relevant_stages.some((s) => s.toLowerCase() === stage)) score += 5;
+    if (ob.relevant_stages.some((s) => stages.includes(s.toLowerCase()))) score += 5;
     // General objections (no specific competitor) get a baseline score
     if (!ob.competitor && score === 0) score += 1;
     return { ob, score };
@@ -211,20 +226,22 @@ function formatObjectionSection(objections: ObjectionEntry[]): string {
 
 function formatMethodologySection(
   methodology: KnowledgeBase["methodology"],
-  dealStage: string
+  dealStages: string[]
 ): string | null {
   if (!methodology) return null;
 
   const lines = [`METHODOLOGY: ${methodology.name}`];
 
-  // Check for stage-specific guidance
+  // Check for stage-specific guidance, skipped stages first
   const stageGuidance = methodology.stage_guidance || {};
-  const matchedStage = Object.keys(stageGuidance).find(
-    (s) => s.toLowerCase() === dealStage.toLowerCase()
+  const matchedStages = dealStages.flatMap((stage) =>
+    Object.keys(stageGuidance).filter((s) => s.toLowerCase() === stage)
   );
 
-  if (matchedStage) {
-    lines.push(`At ${matchedStage}: ${stageGuidance[matchedStage]}`);
+  if (matchedStages.length > 0) {
+    for (const matched of matchedStages) {
+      lines.push(`At ${matched}: ${stageGuidance[matched]}`);
+    }
   } else {
     lines.push(methodology.description);
   }
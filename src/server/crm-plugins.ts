@@ -0,0 +1,86 @@
+/**
+ * CRM adapter plugins — extra CRMs the webhook server supports without
+ * a fork, loaded at startup from CRM_PLUGIN_DIR (default
+ * data/crm-plugins).
+ *
+ * Each .js or .mjs file in the directory is imported and its default
+ * export registered: a CrmAdapter, or an array of them (see
+ * crm-adapters.ts for the interface). A plugin registered under a
+ * built-in's name replaces the built-in. Files are loaded in name
+ * order, so a later file wins a name clash.
+ *
+ * A plugin that can't be loaded stops the server — better than
+ * silently sending its webhooks through the generic adapter.
+ */
+
+import { existsSync, readdirSync } from "fs";
+import { join, resolve } from "path";
+import { pathToFileURL } from "url";
+import { registerCrmAdapter } from "../pipeline/crm-adapters.js";
+import type { CrmAdapter } from "../pipeline/crm-adapters.js";
+
+const PLUGIN_EXTENSIONS = [".js", ".mjs"];
+
+/** Methods every adapter must have; the rest are optional. */
+const REQUIRED_METHODS = ["detect", "parse", "extractStage", "extractDealId"] as const;
+
+export interface LoadedCrmPlugin {
+  name: string; // Adapter name
+  file: string; // File it came from
+}
+
+/**
+ * Import and register every plugin in the directory. A missing
+ * directory means no plugins. Throws on a file that doesn't export
+ * valid adapters.
+ */
+export async function loadCrmPlugins(dir: string): Promise<LoadedCrmPlugin[]> {
+  if (!dir || !existsSync(dir)) return [];
+
+  const files = readdirSync(dir)
+    .filter((file) => PLUGIN_EXTENSIONS.some((ext) => file.endsWith(ext)))
+    .sort();
+
+  const loaded: LoadedCrmPlugin[] = [];
+  for (const file of files) {
+    const path = resolve(join(dir, file));
+    let exported: unknown;
+    try {
+      exported = ((await import(pathToFileURL(path).href)) as { default?: unknown }).default;
+    } catch (err) {
+      throw new Error(`CRM plugin ${file} failed to load: ${(err as Error).message}`);
+    }
+
+    for (const adapter of Array.isArray(exported) ? exported : [exported]) {
+      const problem = adapterProblem(adapter);
+      if (problem) throw new Error(`CRM plugin ${file}: ${problem}`);
+      registerCrmAdapter(adapter as CrmAdapter);
+      loaded.push({ name: (adapter as CrmAdapter).name, file });
+    }
+  }
+  return loaded;
+}
+
+// ── Helpers ────────────────────────────────────────────────
+
+/** Why a default export isn't a CrmAdapter, or null if it is. */
+function adapterProblem(value: unknown): string | null {
+  if (!value || typeof value !== "object") {
+    return "default export must be a CRM adapter or an array of them";
+  }
+  const adapter = value as Record<string, unknown>;
+  if (typeof adapter.name !== "string" || !/^[a-z0-9][a-z0-9_-]*$/.test(adapter.name)) {
+    return "adapter name must be lowercase letters, digits, - or _";
+  }
+  for (const method of REQUIRED_METHODS) {
+    if (typeof adapter[method] !== "function") {
+      return `adapter "${adapter.name}" has no ${method}()`;
+    }
+  }
+  for (const method of ["extractPreviousStage", "verifySignature", "record"]) {
+    if (adapter[method] !== undefined && typeof adapter[method] !== "function") {
+      return `adapter "${adapter.name}": ${method} must be a function`;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,189 @@
+/**
+ * Deal store — what the webhook server knows about each deal, kept in
+ * deal-states.json / the deal_states table.
+ *
+ * Every CRM webhook with a stage is recorded, including ones that
+ * don't trigger anything: a deal that passes through Demo must be known
+ * to have been there when it reaches Proposal Sent (see
+ * classifyTransition in filter.ts). Each record keeps:
+ * - the stage history, with what each move triggered and why
+ * - the last real value of the deal fields (competitor, size, owner...)
+ * - links to its deliveries, the feedback on them and the outcome
+ *
+ * Deals are keyed on the CRM's deal ID, so a renamed deal keeps its
+ * record and two deals with the same name get one each. Payloads
+ * without an ID fall back to the deal name.
+ *
+ * A previous stage the CRM sends in the payload (Pipedrive `previous`,
+ * a Salesforce prior value) wins over the one we remember.
+ */
+
+import type { Storage } from "../shared/storage.js";
+import type {
+  DealContext,
+  DealFields,
+  DealOutcome,
+  DealState,
+  FeedbackEntry,
+  StageTransition,
+} from "../shared/types.js";
+import type { TransitionDecision } from "../pipeline/filter.js";
+import { isSameDeal } from "../shared/id.js";
+
+/** Oldest stage changes beyond this are dropped. */
+const STAGE_HISTORY_LIMIT = 200;
+
+/** Parser placeholders — never overwrite a value the CRM did send. */
+const UNKNOWN_VALUES = new Set(["", "Unknown Company", "Not specified"]);
+
+/** What parseCrmPayload calls a deal whose payload has no name. */
+const UNNAMED_DEAL = "Unknown Deal";
+
+/**
+ * Where the deal was before this webhook.
+ */
+export function previousStage(
+  storage: Storage,
+  deal: DealContext,
+  fromPayload: string | null
+): Pick<StageTransition, "from" | "source"> {
+  if (fromPayload) return { from: fromPayload, source: "payload" };
+
+  const known = identifiable(deal) ? storage.getDealState(dealStateId(deal)) : null;
+  return known ? { from: known.stage, source: "history" } : { from: null, source: null };
+}
+
+/**
+ * Record a CRM webhook against its deal: the stage (with what the move
+ * triggered) and the deal fields. A repeat of the stage the deal is
+ * already in only refreshes the fields. Payloads with neither a deal
+ * ID nor a name aren't recorded — they'd all land on "Unknown Deal".
+ */
+export function recordStage(
+  storage: Storage,
+  deal: DealContext,
+  stage: string,
+  from: string | null,
+  decision: TransitionDecision
+): void {
+  if (!stage || !identifiable(deal)) return;
+
+  const now = new Date().toISOString();
+  const state = storage.getDealState(dealStateId(deal)) ?? newDealState(deal, now);
+  const changed = state.stage_history.length === 0 || state.stage !== stage;
+
+  if (changed) {
+    state.previous_stage = state.stage_history.length > 0 ? state.stage : null;
+    state.stage = stage;
+    state.stage_changed_at = now;
+    state.stage_history = [
+      ...state.stage_history,
+      { stage, from, at: now, action: decision.type, reason: decision.reason },
+    ].slice(-STAGE_HISTORY_LIMIT);
+  }
+
+  if (deal.deal_name !== UNNAMED_DEAL) state.deal_name = deal.deal_name;
+  state.fields = mergeFields(state.fields, deal);
+  state.updated_at = now;
+  storage.saveDealState(state);
+}
+
+/**
+ * Link a delivery to the deal it was sent for.
+ */
+export function linkDelivery(storage: Storage, deal: DealContext, deliveryId: string): void {
+  updateDeal(storage, dealStateId(deal), (state) => {
+    if (!state.delivery_ids.includes(deliveryId)) state.delivery_ids.push(deliveryId);
+  });
+}
+
+/**
+ * Record how the deal closed.
+ */
+export function recordOutcome(storage: Storage, deal: DealContext, outcome: DealOutcome): void {
+  updateDeal(storage, dealStateId(deal), (state) => {
+    state.outcome = outcome;
+    if (outcome.feedback_id && !state.feedback_ids.includes(outcome.feedback_id)) {
+      state.feedback_ids.push(outcome.feedback_id);
+    }
+  });
+}
+
+/**
+ * Link a feedback entry to its deal — the one its delivery was sent
+ * for, or else the most recently updated deal with its deal ID (name
+ * if it has none). Feedback that can't be traced to a deal is left
+ * unlinked.
+ */
+export function linkFeedback(storage: Storage, entry: FeedbackEntry): void {
+  const delivery = entry.delivery_id ? storage.getDelivery(entry.delivery_id) : null;
+  const target = {
+    deal_id: delivery?.deal_id || entry.deal_id,
+    deal_name: delivery?.deal_name || entry.deal_name,
+  };
+  if (!target.deal_id && !target.deal_name) return;
+
+  const candidates = storage
+    .findDealStates(target.deal_id || target.deal_name)
+    .filter((d) => isSameDeal(d, target));
+  const deal =
+    candidates.find((d) => entry.delivery_id && d.delivery_ids.includes(entry.delivery_id)) ??
+    candidates.sort((a, b) => b.updated_at.localeCompare(a.updated_at))[0];
+  if (!deal) return;
+
+  updateDeal(storage, deal.id, (state) => {
+    if (!state.feedback_ids.includes(entry.id)) state.feedback_ids.push(entry.id);
+  });
+}
+
+export function dealStateId(deal: DealContext): string {
+  if (deal.deal_id) return `${deal._crm_type}:id:${deal.deal_id}`;
+  return `${deal._crm_type}:${deal.deal_name.trim().toLowerCase()}`;
+}
+
+// ── Helpers ─────────────────────────────────────────────────
+
+function identifiable(deal: DealContext): boolean {
+  return deal.deal_id !== "" || deal.deal_name !== UNNAMED_DEAL;
+}
+
+function updateDeal(storage: Storage, id: string, update: (state: DealState) => void): void {
+  const state = storage.getDealState(id);
+  if (!state) return;
+  update(state);
+  state.updated_at = new Date().toISOString();
+  storage.saveDealState(state);
+}
+
+function newDealState(deal: DealContext, now: string): DealState {
+  return {
+    id: dealStateId(deal),
+    crm: deal._crm_type,
+    deal_id: deal.deal_id,
+    deal_name: deal.deal_name,
+    stage: "",
+    previous_stage: null,
+    stage_changed_at: now,
+    first_seen_at: now,
+    updated_at: now,
+    stage_history: [],
+    fields: mergeFields(undefined, deal),
+    delivery_ids: [],
+    feedback_ids: [],
+    outcome: null,
+  };
+}
+
+function mergeFields(known: DealFields | undefined, deal: DealContext): DealFields {
+  const pick = (value: string, previous: string | undefined) =>
+    UNKNOWN_VALUES.has(value) ? (previous ?? value) : value;
+
+  return {
+    company_name: pick(deal.company_name, known?.company_name),
+    industry: pick(deal.industry, known?.industry),
+    competitor: pick(deal.competitor, known?.competitor),
+    deal_size: deal.deal_size > 0 ? deal.deal_size : (known?.deal_size ?? 0),
+    rep_email: pick(deal.rep_email, known?.rep_email),
+    product_interest: pick(deal.product_interest, known?.product_interest),
+  };
+}
@@ -0,0 +1,153 @@
+/**
+ * Webhook idempotency — stops CRM retries and repeat sends of the same
+ * stage change from starting a second pipeline (and a second DM).
+ *
+ * Every webhook that starts a job leaves a key in storage:
+ * - the CRM's event ID when it sends one (HubSpot eventId, Salesforce
+ *   notification Id, Close event.id, Pipedrive v2 meta.id, or an
+ *   Idempotency-Key header when the body has none), kept for
+ *   EVENT_ID_RETENTION_MS or the dedup window if that's longer
+ * - otherwise a hash of CRM + deal (its ID, or name without one) +
+ *   stage, kept for the dedup window
+ *   (WEBHOOK_DEDUP_WINDOW_MS, 0 turns it off)
+ *
+ * A webhook whose key is still live is answered without a new job and
+ * counted on the key.
+ */
+
+import { createHash } from "crypto";
+import type { IncomingHttpHeaders } from "http";
+import type { Storage } from "../shared/storage.js";
+import type { DealContext, PipelineJob, WebhookKey } from "../shared/types.js";
+
+/** CRMs retry failed deliveries for up to a few days. */
+const EVENT_ID_RETENTION_MS = 72 * 60 * 60_000;
+
+/** What a webhook is recognised by, before it's stored. */
+export interface WebhookIdentity {
+  id: string;
+  source: WebhookKey["source"];
+  deal_name: string;
+  stage: string;
+  ttlMs: number;
+}
+
+/**
+ * Work out the key for a webhook. Null when the CRM sent no event ID
+ * and fingerprint dedup is off.
+ */
+export function identifyWebhook(
+  deal: DealContext,
+  headers: IncomingHttpHeaders,
+  stage: string,
+  windowMs: number
+): WebhookIdentity | null {
+  const eventId = extractEventId(deal._raw, headers);
+
+  if (eventId) {
+    return {
+      id: `event:${deal._crm_type}:${eventId}`,
+      source: "event_id",
+      deal_name: deal.deal_name,
+      stage,
+      ttlMs: Math.max(windowMs, EVENT_ID_RETENTION_MS),
+    };
+  }
+
+  if (windowMs <= 0) return null;
+
+  const hash = createHash("sha256")
+    .update(`${deal._crm_type}\n${deal.deal_id || deal.deal_name}\n${stage}`)
+    .digest("hex")
+    .slice(0, 32);
+  return {
+    id: `deal:${hash}`,
+    source: "fingerprint",
+    deal_name: deal.deal_name,
+    stage,
+    ttlMs: windowMs,
+  };
+}
+
+/**
+ * The live key this webhook repeats, or null if it's new. A duplicate
+ * is counted on the stored key and logged.
+ */
+export function findDuplicateWebhook(
+  storage: Storage,
+  identity: WebhookIdentity
+): WebhookKey | null {
+  const existing = storage.getWebhookKey(identity.id);
+  const now = new Date();
+  if (!existing || Date.parse(existing.expires_at) <= now.getTime()) return null;
+
+  const key: WebhookKey = {
+    ...existing,
+    duplicates: existing.duplicates + 1,
+    last_duplicate_at: now.toISOString(),
+  };
+  storage.saveWebhookKey(key);
+
+  const age = Math.round((now.getTime() - Date.parse(key.first_seen_at)) / 1000);
+  const by = key.source === "event_id" ? "same event ID" : "same deal + stage";
+  console.log(
+    `[JIT] Duplicate webhook suppressed: "${key.deal_name}" → ${key.stage} ` +
+      `(${by}, first seen ${age}s ago as ${key.job_id}, ${key.duplicates} suppressed)`
+  );
+  return key;
+}
+
+/**
+ * Remember a webhook that started a job, so repeats are suppressed.
+ */
+export function rememberWebhook(
+  storage: Storage,
+  identity: WebhookIdentity,
+  job: PipelineJob
+): void {
+  const now = Date.now();
+  storage.saveWebhookKey({
+    id: identity.id,
+    source: identity.source,
+    job_id: job.id,
+    deal_name: identity.deal_name,
+    stage: identity.stage,
+    first_seen_at: new Date(now).toISOString(),
+    expires_at: new Date(now + identity.ttlMs).toISOString(),
+    duplicates: 0,
+    last_duplicate_at: null,
+  });
+}
+
+// ── Event IDs ───────────────────────────────────────────────
+
+/**
+ * The CRM's own ID for this delivery, if it sends one. Retries of the
+ * same event carry the same ID.
+ */
+function extractEventId(
+  body: Record<string, unknown>,
+  headers: IncomingHttpHeaders
+): string | null {
+  const meta = asRecord(body.meta);
+  // Body IDs come first: a batch or multi-notification message shares
+  // one header across every event in it.
+  const candidates = [
+    body.eventId, // HubSpot webhook subscriptions
+    body.NotificationId, // Salesforce Outbound Messages
+    asRecord(body.event).id, // Close
+    meta.entity_id ? meta.id : undefined, // Pipedrive v2 (v1's meta.id is the deal's)
+    body.event_id, // Generic
+    headers["idempotency-key"],
+  ];
+
+  for (const value of candidates) {
+    if (typeof value === "string" && value.length > 0) return value;
+    if (typeof value === "number") return String(value);
+  }
+  return null;
+}
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === "object" ? (value as Record<string, unknown>) : {};
+}
@@ -14,18 +14,34 @@ import express from "express";
 import type { Express } from "express";
 import { loadServerConfig } from "../shared/config.js";
 import type { Config } from "../shared/config.js";
-import { requestLogger, errorHandler } from "./middleware.js";
-import { createCrmRouter } from "./routes/crm.js";
+import { createStorage } from "../shared/storage.js";
+import type { Storage } from "../shared/storage.js";
+import { checkDataFiles } from "../shared/validate.js";
+import { requestLogger, errorHandler, keepRawBody } from "./middleware.js";
+import { createCrmRouter, createPipelineQueue, crmWebhookRejections } from "./routes/crm.js";
 import { createFeedbackRouter } from "./routes/feedback.js";
-import { createTelegramRouter } from "./routes/telegram.js";
+import { createTelegramRouter, createTelegramWebhookRouter } from "./routes/telegram.js";
 import { createCallIntelRouter } from "./routes/call-intel.js";
 import { createSyncRouter } from "./routes/sync.js";
+import { createFailedRunsRouter } from "./routes/failed-runs.js";
+import { createDealsRouter } from "./routes/deals.js";
+import type { JobQueue } from "./job-queue.js";
+import { loadCrmPlugins } from "./crm-plugins.js";
+import { crmSecretsConfigured } from "../pipeline/crm-adapters.js";
+import { registerTelegramWebhook, cachedTelegramWebhookStatus } from "./telegram-webhook.js";
 
 /**
  * Create the Express app with all routes.
  * Exported as a factory for testing (supertest).
+ *
+ * Storage defaults to the backend selected in config, and the CRM job
+ * queue to one over that storage; tests can pass their own.
  */
-export function createApp(config: Config): Express {
+export function createApp(
+  config: Config,
+  storage: Storage = createStorage(config),
+  jobs: JobQueue = createPipelineQueue(config, storage)
+): Express {
   const app = express();
 
   // ── Security hardening ──────────────────────────────────
@@ -43,31 +59,51 @@ export function createApp(config: Config): Express {
   });
 
   // ── Body parsing with size limits ───────────────────────
-  // Webhook payloads are small JSON — 100kb is generous but prevents abuse
-  app.use(express.json({ limit: "100kb" }));
-  app.use(express.urlencoded({ extended: true, limit: "100kb" }));
+  // Webhook payloads are small JSON — 100kb is generous but prevents abuse.
+  // The raw body is kept for webhook signature checks.
+  app.use(express.json({ limit: "100kb", verify: keepRawBody }));
+  app.use(express.urlencoded({ extended: true, limit: "100kb", verify: keepRawBody }));
 
   // Request logging
   app.use(requestLogger);
 
-  // Health check
+  // Health check — with the Telegram bot's webhook as Telegram reports it
+  const telegramWebhookStatus = cachedTelegramWebhookStatus(config);
   app.get("/health", (_req, res) => {
-    res.json({
+    const health = {
       status: "ok",
       service: "jit-enablement-engine",
       channel: config.channel,
       port: config.webhookPort,
-    });
+      storage: storage.backend,
+      crm_webhooks_rejected: crmWebhookRejections(),
+    };
+    if (config.channel !== "telegram" || !config.telegramBotToken) {
+      res.json(health);
+      return;
+    }
+    telegramWebhookStatus()
+      .then((telegram_webhook) => res.json({ ...health, telegram_webhook }))
+      .catch((err) => res.json({ ...health, telegram_webhook: { error: (err as Error).message } }));
   });
 
   // Webhook routes
-  app.use("/webhook/crm", createCrmRouter(config));
-  app.use("/webhook/feedback", createFeedbackRouter(config));
-  app.use("/webhook/telegram", createTelegramRouter(config));
-  app.use("/webhook/call-intel", createCallIntelRouter(config));
+  app.use("/webhook/crm", createCrmRouter(config, storage, jobs));
+  app.use("/webhook/feedback", createFeedbackRouter(config, storage));
+  app.use("/webhook/telegram", createTelegramRouter(config, storage));
+  app.use("/webhook/call-intel", createCallIntelRouter(config, storage));
 
   // Sync routes (KB + rep directory push from MCP server)
-  app.use("/api", createSyncRouter(config));
+  app.use("/api", createSyncRouter(config, storage));
+
+  // Dead-letter store for CRM jobs that failed, with replay
+  app.use("/api/failed-runs", createFailedRunsRouter(config, storage, jobs));
+
+  // Deal store timelines for get_deal_timeline
+  app.use("/api/deals", createDealsRouter(config, storage));
+
+  // Telegram bot webhook status and re-registration
+  app.use("/api/telegram-webhook", createTelegramWebhookRouter(config));
 
   // Error handler (must be last)
   app.use(errorHandler);
@@ -84,31 +120,87 @@ const isMainModule =
 if (isMainModule) {
   try {
     const config = loadServerConfig();
-    const app = createApp(config);
-
-    app.listen(config.webhookPort, () => {
-      console.log("");
-      console.log("JIT Sales Enablement Engine");
-      console.log("─────────────────────────────────────────");
-      console.log(`  Webhook server running on port ${config.webhookPort}`);
-      console.log(`  Channel: ${config.channel}`);
-      console.log("");
-      console.log("  Routes:");
-      console.log(`    POST /webhook/crm          → CRM deal stage changes`);
-      console.log(`    POST /webhook/feedback      → Slack interactions`);
-      console.log(`    POST /webhook/telegram      → Telegram bot updates`);
-      console.log(`    POST /webhook/call-intel    → Call intel submissions`);
-      console.log(`    PUT  /api/kb               → KB sync from MCP server`);
-      console.log(`    PUT  /api/rep-directory     → Rep directory sync`);
-      console.log(`    GET  /health               → Health check`);
-      if (config.syncSecret) {
-        console.log("");
-        console.log("  Sync: ENABLED (SYNC_SECRET configured)");
-      }
-      console.log("");
-      console.log("  Ready to receive webhooks.");
-      console.log("");
-    });
+    const storage = createStorage(config);
+    checkDataFiles(storage);
+    const jobs = createPipelineQueue(config, storage);
+    const app = createApp(config, storage, jobs);
+
+    // Plugin adapters are registered before the first webhook can arrive
+    loadCrmPlugins(config.crmPluginDir)
+      .then((plugins) => {
+        app.listen(config.webhookPort, () => {
+          console.log("");
+          console.log("JIT Sales Enablement Engine");
+          console.log("─────────────────────────────────────────");
+          console.log(`  Webhook server running on port ${config.webhookPort}`);
+          console.log(`  Channel: ${config.channel}`);
+          console.log(`  Storage: ${config.storageBackend}`);
+          console.log("");
+          console.log("  Routes:");
+          console.log(`    POST /webhook/crm          → CRM deal stage changes`);
+          console.log(`    POST /webhook/feedback      → Slack interactions`);
+          console.log(`    POST /webhook/telegram      → Telegram bot updates`);
+          console.log(`    POST /webhook/call-intel    → Call intel submissions`);
+          console.log(`    GET  /api/kb               → KB for pull_sync`);
+          console.log(`    PUT  /api/kb               → KB sync from MCP server`);
+          console.log(`    GET  /api/rep-directory     → Rep directory for pull_sync`);
+          console.log(`    PUT  /api/rep-directory     → Rep directory sync`);
+          console.log(`    GET  /api/stage-config      → Stage rules for pull_sync`);
+          console.log(`    PUT  /api/stage-config      → Stage rules sync`);
+          console.log(`    GET  /api/field-mapping     → Field mapping for pull_sync`);
+          console.log(`    PUT  /api/field-mapping     → Field mapping sync`);
+          console.log(`    GET  /api/feedback-log      → Feedback log for MCP analytics`);
+          console.log(`    GET  /api/failed-runs       → Failed webhook runs`);
+          console.log(`    POST /api/failed-runs/:id/replay → Re-run a failed webhook`);
+          console.log(`    GET  /api/deals/timeline    → One deal's stage changes + feedback`);
+          console.log(`    GET  /api/telegram-webhook  → Telegram webhook status`);
+          console.log(`    POST /api/telegram-webhook  → Re-register the Telegram webhook`);
+          console.log(`    GET  /health               → Health check`);
+          if (plugins.length > 0) {
+            console.log("");
+            console.log(`  CRM plugins: ${plugins.map((p) => `${p.name} (${p.file})`).join(", ")}`);
+          }
+          const crmAuth = crmSecretsConfigured(config);
+          console.log("");
+          if (config.crmWebhookSecret) {
+            console.log(`  CRM webhooks: verified (${[...crmAuth, "shared secret"].join(", ")})`);
+          } else if (crmAuth.length > 0) {
+            console.log(`  CRM webhooks: verified (${crmAuth.join(", ")})`);
+            console.log("  ⚠ CRM_WEBHOOK_SECRET is not set — webhooks from every other CRM are refused (401)");
+          } else {
+            console.log("  CRM webhooks: UNVERIFIED — set CRM_WEBHOOK_SECRET or a CRM's signing secret");
+          }
+          if (config.channel === "telegram" && !config.telegramWebhookSecret) {
+            console.log("");
+            console.log("  Telegram updates: UNVERIFIED — set TELEGRAM_WEBHOOK_SECRET");
+          }
+          if (config.syncSecret) {
+            console.log("");
+            console.log("  Sync: ENABLED (SYNC_SECRET configured)");
+          }
+          const resumed = jobs.resume();
+          if (resumed > 0) {
+            console.log("");
+            console.log(`  Resumed ${resumed} unfinished pipeline job(s)`);
+          }
+          console.log("");
+          console.log("  Ready to receive webhooks.");
+          console.log("");
+
+          // Point the bot at this server, with the secret it must send back
+          if (config.channel === "telegram" && config.publicUrl) {
+            registerTelegramWebhook(config)
+              .then((url) => console.log(`[JIT] Telegram webhook registered: ${url}`))
+              .catch((err) =>
+                console.warn(`[JIT] Telegram webhook not registered: ${(err as Error).message}`)
+              );
+          }
+        });
+      })
+      .catch((err) => {
+        console.error("Failed to start server:", (err as Error).message);
+        process.exit(1);
+      });
   } catch (err) {
     console.error("Failed to start server:", (err as Error).message);
     process.exit(1);
@@ -0,0 +1,215 @@
+/**
+ * Pipeline job queue — every accepted CRM webhook becomes a job in
+ * storage and runs one step at a time.
+ *
+ * A step that throws is retried with exponential backoff, up to
+ * maxAttempts. The job's checkpoint is saved after every step, so a
+ * retry resumes at the step that failed (Slack being down doesn't mean
+ * calling Claude twice). A PermanentJobError fails the job straight
+ * away. Jobs a previous process left pending or running are picked up
+ * by resume() at startup — every accepted webhook ends in a delivery
+ * or a recorded failure (handed to onFailed for the dead-letter store).
+ */
+
+import type { Storage } from "../shared/storage.js";
+import type { PipelineJob, JobKind, StageTransition } from "../shared/types.js";
+import { generateJobId } from "../shared/id.js";
+
+/** Longest wait between two attempts at a step. */
+const RETRY_MAX_MS = 5 * 60_000;
+
+export interface JobContext {
+  job: PipelineJob;
+  /** Checkpoint — saved after the step returns, discarded if it throws. */
+  state: Record<string, unknown>;
+  /** Mark the job succeeded after this step and skip the rest. */
+  finish(result: string): void;
+}
+
+export interface JobStep {
+  name: string;
+  run(ctx: JobContext): Promise<void>;
+}
+
+export type JobHandlers = Record<JobKind, JobStep[]>;
+
+export interface JobQueueOptions {
+  maxAttempts: number; // Per step, including the first
+  retryBaseMs: number; // Delay before the first retry; doubles each time
+  onFailed?: (job: PipelineJob) => void; // Called once a job is marked failed
+}
+
+export interface JobQueue {
+  /** Store a new job and start it. */
+  enqueue(
+    kind: JobKind,
+    payload: Record<string, unknown>,
+    stage: string,
+    transition?: StageTransition
+  ): PipelineJob;
+  /** Restart jobs a previous process left unfinished. Returns how many. */
+  resume(): number;
+  /** Resolves once no job is running or waiting to retry. */
+  idle(): Promise<void>;
+}
+
+/**
+ * A failure retrying won't fix (no way to reach the rep, KB not
+ * configured) — the job fails without using up its attempts.
+ */
+export class PermanentJobError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PermanentJobError";
+  }
+}
+
+export function createJobQueue(
+  storage: Storage,
+  handlers: JobHandlers,
+  options: JobQueueOptions
+): JobQueue {
+  // Runs in flight or waiting on their backoff timer
+  const active = new Set<Promise<void>>();
+
+  function schedule(id: string, delayMs: number): void {
+    const run = wait(delayMs)
+      .then(() => runJob(id))
+      .catch((err) => console.error(`[JIT] Job ${id} crashed:`, err))
+      .finally(() => active.delete(run));
+    active.add(run);
+  }
+
+  async function runJob(id: string): Promise<void> {
+    const job = storage.getJob(id);
+    if (!job || job.status === "succeeded" || job.status === "failed") return;
+
+    const steps = handlers[job.kind];
+    let index = job.step ? steps.findIndex((s) => s.name === job.step) : 0;
+    if (index < 0) {
+      fail(job, `Unknown step "${job.step}"`);
+      return;
+    }
+
+    let result: string | null = null;
+    const ctx: JobContext = {
+      job,
+      state: job.state,
+      finish: (r) => {
+        result = r;
+      },
+    };
+
+    job.status = "running";
+    save(job);
+
+    for (; index < steps.length && result === null; index++) {
+      job.step = steps[index].name;
+      const checkpoint = structuredClone(job.state);
+
+      try {
+        await steps[index].run(ctx);
+      } catch (err) {
+        job.state = ctx.state = checkpoint;
+        retryOrFail(job, err as Error);
+        return;
+      }
+
+      job.attempts = 0;
+      job.next_attempt_at = null;
+      job.last_error = null;
+      job.step = steps[index + 1]?.name ?? null;
+      save(job);
+    }
+
+    job.status = "succeeded";
+    job.step = null;
+    job.result = result ?? "completed";
+    save(job);
+  }
+
+  function retryOrFail(job: PipelineJob, err: Error): void {
+    job.attempts++;
+    job.last_error = err.message;
+
+    if (err instanceof PermanentJobError || job.attempts >= options.maxAttempts) {
+      fail(job, err.message);
+      return;
+    }
+
+    const delay = Math.min(options.retryBaseMs * 2 ** (job.attempts - 1), RETRY_MAX_MS);
+    job.status = "pending";
+    job.next_attempt_at = new Date(Date.now() + delay).toISOString();
+    save(job);
+    console.error(
+      `[JIT] Job ${job.id} step "${job.step}" failed ` +
+        `(attempt ${job.attempts}/${options.maxAttempts}), retrying in ${Math.round(delay / 1000)}s: ${err.message}`
+    );
+    schedule(job.id, delay);
+  }
+
+  function fail(job: PipelineJob, message: string): void {
+    job.status = "failed";
+    job.next_attempt_at = null;
+    job.last_error = message;
+    save(job);
+    console.error(`[JIT] ✗ Job ${job.id} (${job.kind}) failed at "${job.step}": ${message}`);
+
+    try {
+      options.onFailed?.(job);
+    } catch (err) {
+      console.error(`[JIT] Could not record failed job ${job.id}:`, (err as Error).message);
+    }
+  }
+
+  function save(job: PipelineJob): void {
+    job.updated_at = new Date().toISOString();
+    storage.saveJob(job);
+  }
+
+  return {
+    enqueue(kind, payload, stage, transition) {
+      const now = new Date().toISOString();
+      const job: PipelineJob = {
+        id: generateJobId(),
+        kind,
+        status: "pending",
+        payload,
+        stage,
+        ...(transition && { transition }),
+        step: handlers[kind][0]?.name ?? null,
+        attempts: 0,
+        next_attempt_at: null,
+        last_error: null,
+        result: null,
+        state: {},
+        created_at: now,
+        updated_at: now,
+      };
+      storage.saveJob(job);
+      schedule(job.id, 0);
+      return job;
+    },
+
+    resume() {
+      // "running" means the process died mid-step — run that step again
+      const unfinished = storage.listJobs(["pending", "running"]);
+      for (const job of unfinished) {
+        const due = job.next_attempt_at ? Date.parse(job.next_attempt_at) - Date.now() : 0;
+        schedule(job.id, Math.max(0, due));
+      }
+      return unfinished.length;
+    },
+
+    async idle() {
+      while (active.size > 0) {
+        await Promise.all(active);
+      }
+    },
+  };
+}
+
+function wait(ms: number): Promise<void> {
+  if (ms <= 0) return Promise.resolve();
+  return new Promise((done) => setTimeout(done, ms).unref());
+}
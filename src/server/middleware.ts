@@ -1,8 +1,11 @@
 /**
- * Express middleware — request logging and error handling.
+ * Express middleware — request logging, raw body capture, shared-secret
+ * auth and error handling.
  */
 
-import type { Request, Response, NextFunction } from "express";
+import type { IncomingMessage } from "http";
+import type { Request, Response, NextFunction, RequestHandler } from "express";
+import type { Config } from "../shared/config.js";
 
 /**
  * Request logger — logs method, path, and status code.
@@ -24,6 +27,61 @@ export function requestLogger(
   next();
 }
 
+/**
+ * Body parser `verify` hook — keeps the body as it arrived, for
+ * webhook signatures (which are over the bytes, not the parsed JSON).
+ */
+export function keepRawBody(req: IncomingMessage, _res: unknown, buf: Buffer): void {
+  (req as IncomingMessage & { rawBody?: string }).rawBody = buf.toString("utf8");
+}
+
+/** The body keepRawBody kept — "" for requests without one. */
+export function rawBody(req: Request): string {
+  const kept = (req as Request & { rawBody?: string }).rawBody;
+  if (kept !== undefined) return kept;
+  return typeof req.body === "string" ? req.body : "";
+}
+
+/**
+ * The URL the caller used, scheme and host included. Behind a TLS
+ * proxy (Railway, Render) the scheme comes from X-Forwarded-Proto.
+ */
+export function requestUrl(req: Request): string {
+  const forwarded = req.headers["x-forwarded-proto"];
+  const proto = (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(",")[0].trim() || req.protocol;
+  return `${proto}://${req.headers.host ?? "localhost"}${req.originalUrl}`;
+}
+
+/**
+ * Shared-secret auth for the /api routes the MCP server calls —
+ * `Authorization: Bearer <SYNC_SECRET>`. Answers 503 while the server
+ * has no SYNC_SECRET.
+ */
+export function requireSyncSecret(config: Config): RequestHandler {
+  return (req, res, next) => {
+    if (!config.syncSecret) {
+      res.status(503).json({
+        error: "Sync is not configured — set SYNC_SECRET on the server",
+      });
+      return;
+    }
+
+    const authHeader = req.headers.authorization;
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      res.status(401).json({ error: "Missing Authorization header" });
+      return;
+    }
+
+    const token = authHeader.slice(7); // "Bearer " is 7 chars
+    if (token !== config.syncSecret) {
+      res.status(403).json({ error: "Invalid sync secret" });
+      return;
+    }
+
+    next();
+  };
+}
+
 /**
  * Global error handler — catches unhandled errors in routes.
  */
@@ -3,19 +3,25 @@
  * (Gong, Chorus, manual paste, Zapier integration).
  *
  * The lightest possible feedback channel: POST a JSON body with
- * { deal_name, summary } and it gets logged + PMM notified.
+ * { deal_name, summary } and it gets logged + PMM notified. Add the
+ * CRM's deal_id when the source has it, so the intel lands on the right
+ * deal even if it has been renamed or shares its name.
  */
 
 import { Router } from "express";
 import type { Config } from "../../shared/config.js";
-import { appendFeedback } from "../../shared/data.js";
+import type { Storage } from "../../shared/storage.js";
 import { generateFeedbackId } from "../../shared/id.js";
 import { buildFieldSignalNotification } from "../../feedback/notify.js";
 import { sendSlackText } from "../../pipeline/send-slack.js";
 import { sendTelegramText } from "../../pipeline/send-telegram.js";
 import type { FeedbackEntry } from "../../shared/types.js";
+import { linkFeedback } from "../deal-states.js";
 
-export function createCallIntelRouter(config: Config): Router {
+export function createCallIntelRouter(
+  config: Config,
+  storage: Storage
+): Router {
   const router = Router();
 
   router.post("/", (req, res) => {
@@ -24,6 +30,12 @@ export function createCallIntelRouter(config: Config): Router {
     // ── Input validation ──────────────────────────────────
     const dealName = typeof body.deal_name === "string" ? body.deal_name.trim() : "";
     const summary = typeof body.summary === "string" ? body.summary.trim() : "";
+    const dealId =
+      typeof body.deal_id === "number"
+        ? String(body.deal_id)
+        : typeof body.deal_id === "string"
+          ? body.deal_id.trim()
+          : "";
 
     if (!dealName || !summary) {
       res.status(400).json({
@@ -37,6 +49,11 @@ export function createCallIntelRouter(config: Config): Router {
       return;
     }
 
+    if (dealId.length > 200) {
+      res.status(400).json({ error: "deal_id exceeds 200 character limit" });
+      return;
+    }
+
     if (summary.length > 10_000) {
       res.status(400).json({ error: "summary exceeds 10,000 character limit" });
       return;
@@ -51,11 +68,12 @@ export function createCallIntelRouter(config: Config): Router {
       value: summary,
       raw_text: summary,
       rep_id: typeof body.rep_id === "string" ? body.rep_id.slice(0, 200) : "",
+      ...(dealId && { deal_id: dealId }),
       deal_name: dealName,
       timestamp: new Date().toISOString(),
     };
 
-    processCallIntel(feedback, config).catch((err) =>
+    processCallIntel(feedback, config, storage).catch((err) =>
       console.error("[JIT] Call intel error:", err)
     );
   });
@@ -65,9 +83,11 @@ export function createCallIntelRouter(config: Config): Router {
 
 async function processCallIntel(
   feedback: FeedbackEntry,
-  config: Config
+  config: Config,
+  storage: Storage
 ): Promise<void> {
-  appendFeedback(config.feedbackLogPath, feedback);
+  storage.appendFeedback(feedback);
+  linkFeedback(storage, feedback);
 
   console.log(
     `[JIT] Call intel: ${feedback.deal_name} — ${(feedback.raw_text || "").slice(0, 80)}...`
@@ -77,6 +97,7 @@ async function processCallIntel(
 
   if (config.channel === "telegram" && config.pmmTelegramChatId) {
     await sendTelegramText(
+      config.telegramApiUrl,
       config.pmmTelegramChatId,
       notification.text,
       config.telegramBotToken
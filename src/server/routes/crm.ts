@@ -1,18 +1,63 @@
 /**
- * CRM webhook route — receives deal stage changes and runs
- * the enablement pipeline or outcome tracking.
+ * CRM webhook route — receives deal stage changes and queues
+ * the enablement pipeline or outcome tracking as a job.
  *
- * Responds 200 immediately, processes asynchronously.
+ * Responds 200 once the job is stored, processes asynchronously.
  * CRMs (HubSpot, Salesforce, Attio, Pipedrive, Close) timeout
- * at ~10s but the Claude API call takes 5-15s.
+ * at ~10s but the Claude API call takes 5-15s. Each pipeline step is
+ * retried on failure (see job-queue.ts), so a Claude timeout or a
+ * Slack outage delays the package instead of losing it.
+ *
+ * Retries and repeat sends of a webhook that already started a job are
+ * answered with that job's ID instead of a new one (see idempotency.ts).
+ *
+ * Triggers are judged on the deal's move, not just where it is now:
+ * the previous stage comes from the payload or from the last webhook
+ * for the deal (see deal-states.ts).
+ *
+ * HubSpot v3 subscription batches are expanded into one deal payload
+ * per stage event first, and HubSpot owner IDs resolved to emails
+ * (see hubspot.ts). Those payloads are what the jobs store, so a
+ * replay doesn't look the deal up again.
+ *
+ * Salesforce Outbound Messages arrive as SOAP XML: each notification's
+ * sObject becomes a flat Salesforce payload, and the answer is the SOAP
+ * Ack Salesforce waits for (see salesforce-soap.ts).
+ *
+ * Every webhook is checked for authenticity first — the CRM's own
+ * signature, or the shared secret (see crm-signatures.ts). One that
+ * fails is answered 401, logged and counted by CRM for /health.
  */
 
-import { Router } from "express";
+import express, { Router } from "express";
+import type { IncomingHttpHeaders } from "http";
 import type { Config } from "../../shared/config.js";
-import { readKB, readFeedbackLog, appendFeedback } from "../../shared/data.js";
-import { generateDeliveryId, generateFeedbackId } from "../../shared/id.js";
-import { classifyStage, extractStage } from "../../pipeline/filter.js";
-import { parseCrmPayload } from "../../pipeline/parse.js";
+import type { Storage } from "../../shared/storage.js";
+import type { DealContext, DeliveryEntry, MessageRef, PipelineJob } from "../../shared/types.js";
+import { generateDeliveryId, generateFeedbackId, isSameDeal } from "../../shared/id.js";
+import {
+  classifyTransition,
+  extractPreviousStage,
+  extractStage,
+  stageOutcome,
+} from "../../pipeline/filter.js";
+import { detectCrmType, parseCrmPayload } from "../../pipeline/parse.js";
+import { detectCrmAdapter, getCrmAdapter, verifyUnsignedCrm } from "../../pipeline/crm-adapters.js";
+import type { CrmAdapter } from "../../pipeline/crm-adapters.js";
+import {
+  expandHubSpotEvents,
+  isHubSpotEventBatch,
+  resolveHubSpotOwner,
+  HubSpotApiError,
+} from "../../pipeline/hubspot.js";
+import type { HubSpotEvent } from "../../pipeline/hubspot.js";
+import {
+  isOutboundMessage,
+  parseOutboundMessage,
+  notificationPayload,
+  outboundMessageAck,
+} from "../../pipeline/salesforce-soap.js";
+import type { OutboundNotification } from "../../pipeline/salesforce-soap.js";
 import { enrichDealContext } from "../../pipeline/enrich.js";
 import {
   resolveRepIdentity,
@@ -25,201 +70,502 @@ import { callClaude } from "../../pipeline/claude.js";
 import { buildTemplateEnablement } from "../../pipeline/template.js";
 import { formatSlackMessage } from "../../pipeline/format-slack.js";
 import { formatTelegramMessage } from "../../pipeline/format-telegram.js";
-import { sendSlackDM, sendSlackText } from "../../pipeline/send-slack.js";
-import { sendTelegramMessage, sendTelegramText } from "../../pipeline/send-telegram.js";
-import { logDelivery } from "../../pipeline/log.js";
+import { isPermanentSlackError, sendSlackDM, sendSlackText } from "../../pipeline/send-slack.js";
+import {
+  isPermanentTelegramError,
+  sendTelegramMessage,
+  sendTelegramText,
+} from "../../pipeline/send-telegram.js";
+import {
+  logDelivery,
+  markDeliveryFailed,
+  recordDeliveryAttempt,
+  recordDeliveryError,
+} from "../../pipeline/log.js";
 import { buildOutcomeNotification } from "../../feedback/notify.js";
+import { isDelivered } from "../../shared/delivery-stats.js";
+import { createJobQueue, PermanentJobError } from "../job-queue.js";
+import type { JobQueue, JobStep } from "../job-queue.js";
+import { identifyWebhook, findDuplicateWebhook, rememberWebhook } from "../idempotency.js";
+import { rawBody, requestUrl } from "../middleware.js";
+import { previousStage, recordStage, linkDelivery, recordOutcome } from "../deal-states.js";
+
+/** Webhooks rejected as unauthenticated since the process started, by CRM. */
+const rejections: Record<string, number> = {};
 
-export function createCrmRouter(config: Config): Router {
+/** A copy of the rejection counts, for /health. */
+export function crmWebhookRejections(): Record<string, number> {
+  return { ...rejections };
+}
+
+/** What POST /webhook/crm answers for each deal payload. */
+interface WebhookAck {
+  received: true;
+  duplicate?: true;
+  job_id?: string;
+}
+
+export function createCrmRouter(config: Config, storage: Storage, jobs: JobQueue): Router {
   const router = Router();
+  const hubspotApi = { url: config.hubspotApiUrl, token: config.hubspotAccessToken };
 
-  router.post("/", (req, res) => {
-    // Respond immediately — pipeline runs async
-    res.status(200).json({ received: true });
+  // Outbound Messages batch up to 100 notifications — more than the JSON limit allows for
+  const soapBody = express.text({
+    type: ["text/xml", "application/xml", "application/soap+xml"],
+    limit: "1mb",
+  });
 
-    const raw = req.body as Record<string, unknown>;
-    const stage = extractStage(raw);
-    const stageType = classifyStage(stage);
+  router.post("/", soapBody, (req, res) => {
+    const adapter = webhookAdapter(req.body);
+    const request = { method: req.method, url: requestUrl(req), headers: req.headers, rawBody: rawBody(req) };
+    // Plugin adapters without a check of their own are held to the shared secret
+    const rejected = adapter.verifySignature
+      ? adapter.verifySignature(request, config)
+      : verifyUnsignedCrm(request, config);
+    if (rejected) {
+      const count = (rejections[adapter.name] ?? 0) + 1;
+      rejections[adapter.name] = count;
+      console.warn(`[JIT] ${adapter.name} webhook rejected (${count} since start): ${rejected}`);
+      res.status(401).json({ error: "Invalid webhook signature" });
+      return;
+    }
 
-    if (stageType === "skip") {
-      console.log(`[JIT] Skipped: stage "${stage}" not in target list`);
+    if (typeof req.body === "string") {
+      acceptOutboundMessage(req.body, req.headers, res);
       return;
     }
 
-    if (stageType === "enablement") {
-      processEnablementPipeline(raw, config).catch((err) =>
-        console.error("[JIT] Enablement pipeline error:", err)
-      );
+    if (isHubSpotEventBatch(req.body)) {
+      acceptHubSpotBatch(req.body, req.headers)
+        .then((events) => res.status(200).json({ received: true, events }))
+        .catch((err) => {
+          // 5xx so HubSpot retries the batch once its API is back
+          console.error("[JIT] HubSpot batch failed:", (err as Error).message);
+          res.status(err instanceof HubSpotApiError ? 502 : 500).json({ error: (err as Error).message });
+        });
+      return;
     }
 
-    if (stageType === "outcome") {
-      processOutcome(raw, stage, config).catch((err) =>
-        console.error("[JIT] Outcome tracking error:", err)
-      );
+    const raw = req.body as Record<string, unknown>;
+    const hubspot = detectCrmType(raw) === "hubspot" ? resolveHubSpotOwner(raw, hubspotApi) : null;
+    if (hubspot) {
+      hubspot
+        .then((payload) => res.status(200).json(accept(payload, req.headers)))
+        .catch((err) => {
+          console.error("[JIT] HubSpot webhook failed:", (err as Error).message);
+          res.status(500).json({ error: "Failed to accept webhook" });
+        });
+      return;
     }
+    res.status(200).json(accept(raw, req.headers));
   });
 
-  return router;
-}
+  /**
+   * v3 subscriptions send a batch of events. Each stage event becomes a
+   * deal payload (looked up through the HubSpot API) and is accepted on
+   * its own, in the order the moves happened.
+   */
+  async function acceptHubSpotBatch(
+    events: HubSpotEvent[],
+    headers: IncomingHttpHeaders
+  ): Promise<WebhookAck[]> {
+    const payloads = await expandHubSpotEvents(events, hubspotApi, storage.readFieldMapping());
+    if (payloads.length === 0) console.log(`[JIT] HubSpot: no stage changes in ${events.length} event(s)`);
+    return payloads.map((payload) => accept(payload, headers));
+  }
 
-// ── Enablement Pipeline ─────────────────────────────────────
+  /**
+   * Each notification is accepted on its own. Answered with a SOAP Ack
+   * once every job is stored; anything else makes Salesforce resend.
+   */
+  function acceptOutboundMessage(
+    xml: string,
+    headers: IncomingHttpHeaders,
+    res: express.Response
+  ): void {
+    if (!isOutboundMessage(xml)) {
+      res.status(400).json({ error: "Expected a JSON payload or a Salesforce Outbound Message" });
+      return;
+    }
 
-async function processEnablementPipeline(
-  raw: Record<string, unknown>,
-  config: Config
-): Promise<void> {
-  // 1. Parse CRM payload
-  let deal = parseCrmPayload(raw);
-
-  // 2. Enrich with defaults
-  deal = enrichDealContext(deal);
-
-  // 3. Resolve rep identity — Slack-first resolution chain
-  deal = resolveRepIdentity(deal, config.repDirectoryPath);
-
-  // 3b. For Slack: if only email fallback, try Slack API lookup
-  if (
-    config.channel === "slack" &&
-    deal._resolution_method === "email_fallback" &&
-    config.slackBotToken
-  ) {
-    deal = await resolveRepViaSlackApi(
-      deal,
-      config.slackBotToken,
-      config.repDirectoryPath
-    );
-  }
+    let notifications: OutboundNotification[];
+    try {
+      notifications = parseOutboundMessage(xml).notifications;
+    } catch (err) {
+      console.error("[JIT] Salesforce Outbound Message rejected:", (err as Error).message);
+      res.status(400).json({ error: (err as Error).message });
+      return;
+    }
 
-  // 3c. For Telegram: resolve via rep directory
-  if (config.channel === "telegram") {
-    deal = resolveRepForTelegram(deal, config.repDirectoryPath);
-
-    // Fallback: if no rep-specific Telegram ID, send to PMM
-    if (!deal._identity_resolved && config.pmmTelegramChatId) {
-      deal = {
-        ...deal,
-        rep_slack_id: config.pmmTelegramChatId,
-        _identity_resolved: true,
-        _resolution_method: "pmm_fallback",
-      };
-      console.log(
-        `[JIT] No Telegram ID for rep — falling back to PMM chat`
-      );
+    for (const notification of notifications) {
+      accept(notificationPayload(notification), headers);
     }
+    console.log(`[JIT] Salesforce Outbound Message: ${notifications.length} notification(s)`);
+    res.status(200).type("text/xml").send(outboundMessageAck());
   }
 
-  if (!deal._identity_resolved) {
-    console.log(
-      `[JIT] UNRESOLVED: Cannot reach rep for "${deal.deal_name}" — ` +
-        `no Slack ID, no email, no directory match. Skipping delivery.`
-    );
-    return;
-  }
+  /** Judge one deal payload's stage move and queue its job. */
+  function accept(raw: Record<string, unknown>, headers: IncomingHttpHeaders): WebhookAck {
+    const rules = storage.readStageConfig();
+    const stage = extractStage(raw, rules);
+    const deal = parseCrmPayload(raw, storage.readFieldMapping());
 
-  // 4. Read KB and check gate
-  const kb = readKB(config.kbPath);
-  if (!contextGate(kb)) {
-    console.log(
-      `[JIT] BLOCKED: KB not configured. No content sent for "${deal.deal_name}".`
-    );
-    return;
-  }
+    // A retry is answered before it touches the deal store
+    const identity = identifyWebhook(deal, headers, stage, config.webhookDedupWindowMs);
+    const duplicate = identity && findDuplicateWebhook(storage, identity);
+    if (duplicate) {
+      return { received: true, duplicate: true, job_id: duplicate.job_id };
+    }
 
-  // 5. Generate enablement content (Claude API or template-based)
-  let enablementContent: string;
-  if (config.anthropicApiKey) {
-    const prompt = buildPrompt(deal, kb);
-    enablementContent = await callClaude(prompt, config.anthropicApiKey);
-  } else {
-    enablementContent = buildTemplateEnablement(deal, kb);
-    console.log(`[JIT] Using template-based enablement (no API key set)`);
-  }
+    const previous = previousStage(storage, deal, extractPreviousStage(raw, rules));
+    const decision = classifyTransition(previous.from, stage, rules);
+    recordStage(storage, deal, stage, previous.from, decision);
+
+    if (decision.type === "skip") {
+      console.log(`[JIT] Skipped: ${decision.reason}`);
+      return { received: true };
+    }
 
-  // 6. Generate delivery ID
-  const deliveryId = generateDeliveryId();
-
-  // 7. Format and send based on channel
-  if (config.channel === "telegram" && config.telegramBotToken) {
-    const telegramMsg = formatTelegramMessage(
-      deal,
-      enablementContent,
-      deliveryId,
-      deal.rep_slack_id // Holds Telegram chat ID from rep directory or PMM fallback
-    );
-    await sendTelegramMessage(telegramMsg, config.telegramBotToken);
-  } else {
-    const slackMsg = formatSlackMessage(deal, enablementContent, deliveryId, kb);
-    await sendSlackDM(slackMsg, config.slackBotToken);
+    // Stored before we answer — a restart can't lose an accepted webhook
+    const job = jobs.enqueue(decision.type, raw, stage, { ...previous, skipped: decision.skipped });
+    if (decision.skipped.length > 0) {
+      console.log(`[JIT] Combined package for "${deal.deal_name}": ${decision.reason}`);
+    }
+    if (identity) rememberWebhook(storage, identity, job);
+    return { received: true, job_id: job.id };
   }
 
-  // 8. Log delivery
-  logDelivery(deal, kb, deliveryId, config.channel, config.feedbackLogPath);
+  return router;
+}
+
+/** The adapter a webhook body comes from, before it's split into deals. */
+function webhookAdapter(body: unknown): CrmAdapter {
+  if (typeof body === "string") return getCrmAdapter("salesforce")!;
+  if (isHubSpotEventBatch(body)) return getCrmAdapter("hubspot")!;
+  const raw = (body ?? {}) as Record<string, unknown>;
+  return detectCrmAdapter((raw.body as Record<string, unknown>) || raw);
+}
 
-  console.log(
-    `[JIT] ✓ Delivered: "${deal.deal_name}" via ${config.channel} (${deal._resolution_method})`
+/**
+ * The job queue behind POST /webhook/crm. Created once per server and
+ * resumed at startup. Jobs that fail for good are kept as failed runs
+ * for GET /api/failed-runs and replay.
+ */
+export function createPipelineQueue(config: Config, storage: Storage): JobQueue {
+  return createJobQueue(
+    storage,
+    {
+      enablement: enablementSteps(config, storage),
+      outcome: outcomeSteps(config, storage),
+    },
+    {
+      maxAttempts: config.jobMaxAttempts,
+      retryBaseMs: config.jobRetryBaseMs,
+      onFailed: (job) => {
+        recordFailedRun(job, storage);
+        // A package that was generated but never got through
+        if (job.kind === "enablement" && typeof job.state.delivery_id === "string") {
+          markDeliveryFailed(storage, job.state.delivery_id, job.last_error ?? "unknown error");
+        }
+      },
+    }
   );
 }
 
-// ── Outcome Tracking ────────────────────────────────────────
+// ── Failed Runs ─────────────────────────────────────────────
 
-async function processOutcome(
-  raw: Record<string, unknown>,
-  stage: string,
-  config: Config
-): Promise<void> {
-  const deal = parseCrmPayload(raw);
-  const feedbackLog = readFeedbackLog(config.feedbackLogPath);
-
-  // Find matching deliveries for this deal
-  const matchingDeliveries = feedbackLog.deliveries.filter(
-    (d) => d.deal_name === deal.deal_name
-  );
+function recordFailedRun(job: PipelineJob, storage: Storage): void {
+  storage.saveFailedRun({
+    id: job.id,
+    kind: job.kind,
+    stage: job.stage,
+    ...(job.transition && { transition: job.transition }),
+    payload: job.payload,
+    deal: (job.state.deal as DealContext | undefined) ?? parseForDeadLetter(job, storage),
+    step: job.step ?? "unknown",
+    error: job.last_error ?? "unknown error",
+    attempts: job.attempts,
+    failed_at: job.updated_at,
+    replayed_at: null,
+    replay_job_id: null,
+  });
+}
 
-  if (matchingDeliveries.length === 0) {
-    console.log(
-      `[JIT] Outcome: ${deal.deal_name} → ${stage} (no prior enablement)`
-    );
-    return;
+/**
+ * The job failed before its first step saved a deal — parse the
+ * payload again so the failed run still shows which deal it was.
+ */
+function parseForDeadLetter(job: PipelineJob, storage: Storage): DealContext | null {
+  try {
+    return enrichDealContext(parseCrmPayload(job.payload, storage.readFieldMapping()));
+  } catch {
+    return null;
   }
+}
 
-  // Log outcome feedback entry
-  const outcomeEntry = {
-    id: generateFeedbackId(),
-    delivery_id: matchingDeliveries[0].delivery_id,
-    source: "outcome" as const,
-    value: stage === "Closed Won" ? "closed_won" : "closed_lost",
-    raw_text: null,
-    rep_id: matchingDeliveries[0].rep_id,
-    deal_name: deal.deal_name,
-    timestamp: new Date().toISOString(),
-  };
-  appendFeedback(config.feedbackLogPath, outcomeEntry);
-
-  // Notify PMM
-  const notification = buildOutcomeNotification(
-    deal.deal_name,
-    stage,
-    deal.company_name,
-    deal.industry,
-    deal.deal_size,
-    matchingDeliveries[0]
-  );
+// ── Enablement Pipeline ─────────────────────────────────────
 
-  if (config.channel === "telegram" && config.pmmTelegramChatId) {
-    await sendTelegramText(
-      config.pmmTelegramChatId,
-      notification.text,
-      config.telegramBotToken
-    );
-  } else if (config.pmmSlackId) {
-    await sendSlackText(
-      config.pmmSlackId,
-      notification.text,
-      config.slackBotToken
-    );
-  }
+interface EnablementState {
+  deal?: DealContext;
+  content?: string;
+  delivery_id?: string;
+  message_ref?: MessageRef; // Where the DM landed, for linking replies
+}
 
-  console.log(
-    `[JIT] Outcome: ${deal.deal_name} → ${stage} (enabled at ${matchingDeliveries[0].deal_stage})`
-  );
+function enablementSteps(config: Config, storage: Storage): JobStep[] {
+  return [
+    {
+      // 1–3. Parse, enrich and work out how to reach the rep
+      name: "resolve",
+      async run(ctx) {
+        // 1. Parse CRM payload (with the canonical stage the job was queued
+        //    for, and any stages it jumped over)
+        let deal: DealContext = {
+          ...parseCrmPayload(ctx.job.payload, storage.readFieldMapping()),
+          deal_stage: ctx.job.stage,
+          previous_stage: ctx.job.transition?.from ?? null,
+          skipped_stages: ctx.job.transition?.skipped ?? [],
+        };
+
+        // 2. Enrich with defaults
+        deal = enrichDealContext(deal);
+
+        // 3. Resolve rep identity — Slack-first resolution chain
+        deal = resolveRepIdentity(deal, storage);
+
+        // 3b. For Slack: if only email fallback, try Slack API lookup
+        if (
+          config.channel === "slack" &&
+          deal._resolution_method === "email_fallback" &&
+          config.slackBotToken
+        ) {
+          deal = await resolveRepViaSlackApi(deal, config.slackBotToken, storage);
+        }
+
+        // 3c. For Telegram: resolve via rep directory
+        if (config.channel === "telegram") {
+          deal = resolveRepForTelegram(deal, storage);
+
+          // Fallback: if no rep-specific Telegram ID, send to PMM
+          if (!deal._identity_resolved && config.pmmTelegramChatId) {
+            deal = {
+              ...deal,
+              rep_slack_id: config.pmmTelegramChatId,
+              _identity_resolved: true,
+              _resolution_method: "pmm_fallback",
+            };
+            console.log(
+              `[JIT] No Telegram ID for rep — falling back to PMM chat`
+            );
+          }
+        }
+
+        if (!deal._identity_resolved) {
+          throw new PermanentJobError(
+            `UNRESOLVED: Cannot reach rep for "${deal.deal_name}" — ` +
+              `no Slack ID, no email, no directory match`
+          );
+        }
+
+        (ctx.state as EnablementState).deal = deal;
+      },
+    },
+    {
+      // 4–6. Check the gate and generate the package
+      name: "generate",
+      async run(ctx) {
+        const state = ctx.state as EnablementState;
+        const deal = state.deal!;
+
+        // 4. Read KB and check gate
+        const kb = storage.readKB();
+        if (!contextGate(kb)) {
+          throw new PermanentJobError(
+            `BLOCKED: KB not configured. No content sent for "${deal.deal_name}".`
+          );
+        }
+
+        // 5. Generate enablement content (Claude API or template-based)
+        if (config.anthropicApiKey) {
+          const prompt = buildPrompt(deal, kb);
+          state.content = await callClaude(prompt, config.anthropicApiKey);
+        } else {
+          state.content = buildTemplateEnablement(deal, kb);
+          console.log(`[JIT] Using template-based enablement (no API key set)`);
+        }
+
+        // 6. Generate delivery ID
+        state.delivery_id = generateDeliveryId();
+      },
+    },
+    {
+      // 7. Format and send based on channel
+      name: "deliver",
+      async run(ctx) {
+        const { deal, content, delivery_id } = ctx.state as Required<EnablementState>;
+        const kb = storage.readKB();
+
+        // Logged queued on the first attempt; every attempt is counted
+        recordDeliveryAttempt(deal, kb, delivery_id, config.channel, storage);
+
+        const failed = (code: string, message: string, permanent: boolean): Error => {
+          recordDeliveryError(storage, delivery_id, code, message);
+          return permanent ? new PermanentJobError(message) : new Error(message);
+        };
+
+        if (config.channel === "telegram" && config.telegramBotToken) {
+          const telegramMsg = formatTelegramMessage(
+            deal,
+            content,
+            delivery_id,
+            deal.rep_slack_id // Holds Telegram chat ID from rep directory or PMM fallback
+          );
+          const result = await sendTelegramMessage(config.telegramApiUrl, telegramMsg, config.telegramBotToken).catch(
+            (err: Error) => {
+              throw failed("request_failed", `Telegram API unreachable: ${err.message}`, false);
+            }
+          );
+          if (!result.ok) {
+            throw failed(
+              String(result.error_code ?? "unknown"),
+              `Telegram API error: ${result.description}`,
+              isPermanentTelegramError(result.error_code)
+            );
+          }
+          if (result.result) {
+            (ctx.state as EnablementState).message_ref = {
+              channel: String(result.result.chat.id),
+              id: String(result.result.message_id),
+            };
+          }
+        } else {
+          const slackMsg = formatSlackMessage(deal, content, delivery_id, kb);
+          const result = await sendSlackDM(slackMsg, config.slackBotToken).catch((err: Error) => {
+            throw failed("request_failed", `Slack API unreachable: ${err.message}`, false);
+          });
+          if (!result.ok) {
+            throw failed(
+              result.error ?? "unknown",
+              `Slack API error: ${result.error}`,
+              isPermanentSlackError(result.error)
+            );
+          }
+          if (result.channel && result.ts) {
+            (ctx.state as EnablementState).message_ref = { channel: result.channel, id: result.ts };
+          }
+        }
+      },
+    },
+    {
+      // 8. Log delivery
+      name: "log",
+      async run(ctx) {
+        const { deal, delivery_id } = ctx.state as Required<EnablementState>;
+        const { message_ref } = ctx.state as EnablementState;
+        logDelivery(deal, storage.readKB(), delivery_id, config.channel, storage, message_ref);
+        linkDelivery(storage, deal, delivery_id);
+
+        console.log(
+          `[JIT] ✓ Delivered: "${deal.deal_name}" via ${config.channel} (${deal._resolution_method})`
+        );
+        ctx.finish(`Delivered ${delivery_id} via ${config.channel}`);
+      },
+    },
+  ];
+}
+
+// ── Outcome Tracking ────────────────────────────────────────
+
+interface OutcomeState {
+  deal?: DealContext;
+  delivery?: DeliveryEntry; // The enablement this outcome follows
+  won?: boolean; // Stage is one of the configured won stages
+}
+
+function outcomeSteps(config: Config, storage: Storage): JobStep[] {
+  return [
+    {
+      name: "record",
+      async run(ctx) {
+        const stage = ctx.job.stage;
+        const deal = {
+          ...parseCrmPayload(ctx.job.payload, storage.readFieldMapping()),
+          deal_stage: stage,
+        };
+        const feedbackLog = storage.readFeedbackLog();
+        const won = stageOutcome(stage, storage.readStageConfig()) === "won";
+        const closed = { result: won ? "won" : "lost", stage, at: new Date().toISOString() } as const;
+
+        // Find deliveries that reached the rep for this deal — by CRM deal ID, name without one
+        const matchingDeliveries = feedbackLog.deliveries.filter(
+          (d) => isDelivered(d) && isSameDeal(d, deal)
+        );
+
+        if (matchingDeliveries.length === 0) {
+          recordOutcome(storage, deal, { ...closed, feedback_id: null });
+          console.log(
+            `[JIT] Outcome: ${deal.deal_name} → ${stage} (no prior enablement)`
+          );
+          ctx.finish("No prior enablement");
+          return;
+        }
+
+        // Log outcome feedback entry
+        const outcomeEntry = {
+          id: generateFeedbackId(),
+          delivery_id: matchingDeliveries[0].delivery_id,
+          source: "outcome" as const,
+          value: won ? "closed_won" : "closed_lost",
+          raw_text: null,
+          rep_id: matchingDeliveries[0].rep_id,
+          deal_id: deal.deal_id,
+          deal_name: deal.deal_name,
+          timestamp: new Date().toISOString(),
+        };
+        storage.appendFeedback(outcomeEntry);
+        recordOutcome(storage, deal, { ...closed, feedback_id: outcomeEntry.id });
+
+        Object.assign(ctx.state, { deal, delivery: matchingDeliveries[0], won } satisfies OutcomeState);
+      },
+    },
+    {
+      // Notify PMM
+      name: "notify",
+      async run(ctx) {
+        const stage = ctx.job.stage;
+        const { deal, delivery, won } = ctx.state as Required<OutcomeState>;
+        const notification = buildOutcomeNotification(
+          deal.deal_name,
+          stage,
+          deal.company_name,
+          deal.industry,
+          deal.deal_size,
+          delivery,
+          won
+        );
+
+        if (config.channel === "telegram" && config.pmmTelegramChatId) {
+          const result = await sendTelegramText(
+            config.telegramApiUrl,
+            config.pmmTelegramChatId,
+            notification.text,
+            config.telegramBotToken
+          );
+          if (!result.ok) throw new Error(`Telegram API error: ${result.description}`);
+        } else if (config.pmmSlackId) {
+          const result = await sendSlackText(
+            config.pmmSlackId,
+            notification.text,
+            config.slackBotToken
+          );
+          if (!result.ok) throw new Error(`Slack API error: ${result.error}`);
+        }
+
+        console.log(
+          `[JIT] Outcome: ${deal.deal_name} → ${stage} (enabled at ${delivery.deal_stage})`
+        );
+        ctx.finish(`Outcome recorded against ${delivery.delivery_id}`);
+      },
+    },
+  ];
 }
@@ -0,0 +1,37 @@
+/**
+ * Deals — read access to the deal store for the MCP server, which has
+ * no copy of it (deal states are only written by CRM webhooks here).
+ * Authenticated with the sync secret, like /api/kb.
+ *
+ * Routes:
+ *   GET /api/deals/timeline?deal=<name or CRM deal ID>
+ *     — stage changes, packages, feedback and outcome (no timelines
+ *       for an unknown deal)
+ */
+
+import { Router } from "express";
+import type { Config } from "../../shared/config.js";
+import type { Storage } from "../../shared/storage.js";
+import type { DealTimelineResponse } from "../../shared/sync.js";
+import { readDealTimelines } from "../../shared/deal-timeline.js";
+import { requireSyncSecret } from "../middleware.js";
+
+export function createDealsRouter(config: Config, storage: Storage): Router {
+  const router = Router();
+
+  router.use(requireSyncSecret(config));
+
+  // ── GET /api/deals/timeline ───────────────────────────────
+  router.get("/timeline", (req, res) => {
+    const deal = typeof req.query.deal === "string" ? req.query.deal.trim() : "";
+    if (!deal) {
+      res.status(400).json({ error: "Pass the deal name or CRM deal ID as ?deal=" });
+      return;
+    }
+
+    const timelines = readDealTimelines(storage, deal);
+    res.status(200).json({ timelines } satisfies DealTimelineResponse);
+  });
+
+  return router;
+}
@@ -0,0 +1,83 @@
+/**
+ * Failed runs — the dead-letter store for CRM webhooks whose pipeline
+ * job failed for good, and a way to re-run them.
+ *
+ * Each failed run keeps the raw payload, the parsed DealContext, the
+ * step that failed and the error. Once the PMM has fixed the cause
+ * (configured the KB, registered the rep), a replay queues a fresh job
+ * from the saved payload — no need to ask the CRM admin to re-fire the
+ * webhook. Authenticated with the sync secret, like /api/kb.
+ *
+ * Routes:
+ *   GET  /api/failed-runs             — newest first (?limit=, default 50)
+ *   POST /api/failed-runs/:id/replay  — re-run one from its payload
+ */
+
+import { Router } from "express";
+import type { Config } from "../../shared/config.js";
+import type { Storage } from "../../shared/storage.js";
+import type { FailedRunsResponse, ReplayResponse } from "../../shared/sync.js";
+import { requireSyncSecret } from "../middleware.js";
+import type { JobQueue } from "../job-queue.js";
+
+const FAILED_RUNS_PAGE_SIZE = 50;
+const FAILED_RUNS_PAGE_MAX = 500;
+
+export function createFailedRunsRouter(
+  config: Config,
+  storage: Storage,
+  jobs: JobQueue
+): Router {
+  const router = Router();
+
+  router.use(requireSyncSecret(config));
+
+  // ── GET /api/failed-runs ──────────────────────────────────
+  router.get("/", (req, res) => {
+    const limit = Math.min(
+      parseInt(String(req.query.limit ?? FAILED_RUNS_PAGE_SIZE), 10) || FAILED_RUNS_PAGE_SIZE,
+      FAILED_RUNS_PAGE_MAX
+    );
+    const runs = storage.listFailedRuns().reverse();
+
+    res.status(200).json({
+      failed_runs: runs.slice(0, limit).map((run) => ({
+        ...run,
+        replay_status: run.replay_job_id
+          ? storage.getJob(run.replay_job_id)?.status ?? null
+          : null,
+      })),
+      total: runs.length,
+    } satisfies FailedRunsResponse);
+  });
+
+  // ── POST /api/failed-runs/:id/replay ──────────────────────
+  router.post("/:id/replay", (req, res) => {
+    const run = storage.getFailedRun(req.params.id);
+    if (!run) {
+      res.status(404).json({ error: `No failed run with ID "${req.params.id}"` });
+      return;
+    }
+
+    const previous = run.replay_job_id ? storage.getJob(run.replay_job_id) : null;
+    if (previous && (previous.status === "pending" || previous.status === "running")) {
+      res.status(409).json({
+        error: `Already replaying as ${previous.id} (${previous.status})`,
+        job_id: previous.id,
+      });
+      return;
+    }
+
+    const job = jobs.enqueue(run.kind, run.payload, run.stage, run.transition);
+    storage.saveFailedRun({
+      ...run,
+      replayed_at: new Date().toISOString(),
+      replay_job_id: job.id,
+    });
+    console.log(`[JIT] Replaying failed run ${run.id} as ${job.id}`);
+
+    res.status(202).json({ id: run.id, job_id: job.id } satisfies ReplayResponse);
+  });
+
+  return router;
+}
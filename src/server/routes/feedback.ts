@@ -1,21 +1,33 @@
 /**
  * Feedback webhook route — receives Slack interactive payloads
  * (button clicks) and Events API events (thread replies).
+ *
+ * A thread reply is linked to the delivery whose DM it's under, so the
+ * field signal carries the deal. Bot messages and edits are ignored.
+ *
+ * Every request must carry Slack's signature once SLACK_SIGNING_SECRET
+ * is set (see slack-signature.ts).
  */
 
 import { Router } from "express";
 import type { Config } from "../../shared/config.js";
-import { appendFeedback, readFeedbackLog } from "../../shared/data.js";
-import { parseFeedback } from "../../feedback/parse.js";
+import type { Storage } from "../../shared/storage.js";
+import { parseFeedback, repliedMessage } from "../../feedback/parse.js";
+import { attachDelivery } from "../../feedback/deliveries.js";
 import { buildFieldSignalNotification } from "../../feedback/notify.js";
 import { sendSlackText } from "../../pipeline/send-slack.js";
 import { sendTelegramText } from "../../pipeline/send-telegram.js";
 import type { FeedbackEntry } from "../../shared/types.js";
+import { linkFeedback } from "../deal-states.js";
+import { requireSlackSignature } from "../slack-signature.js";
 
-export function createFeedbackRouter(config: Config): Router {
+export function createFeedbackRouter(
+  config: Config,
+  storage: Storage
+): Router {
   const router = Router();
 
-  router.post("/", (req, res) => {
+  router.post("/", requireSlackSignature(config), (req, res) => {
     const body = req.body as Record<string, unknown>;
     const result = parseFeedback(body);
 
@@ -33,8 +45,13 @@ export function createFeedbackRouter(config: Config): Router {
       return;
     }
 
+    // Thread reply → the delivery it answers
+    const ref = repliedMessage(body);
+    const delivery = ref ? storage.findDeliveryByMessageRef(ref) : null;
+    const feedback = delivery ? attachDelivery(result, delivery) : result;
+
     // Process async
-    processFeedback(result, config).catch((err) =>
+    processFeedback(feedback, config, storage).catch((err) =>
       console.error("[JIT] Feedback processing error:", err)
     );
   });
@@ -44,10 +61,12 @@ export function createFeedbackRouter(config: Config): Router {
 
 async function processFeedback(
   feedback: FeedbackEntry,
-  config: Config
+  config: Config,
+  storage: Storage
 ): Promise<void> {
   // Append to local feedback log
-  appendFeedback(config.feedbackLogPath, feedback);
+  storage.appendFeedback(feedback);
+  linkFeedback(storage, feedback);
 
   console.log(
     `[JIT] Feedback: ${feedback.source} → ${feedback.value} [${feedback.delivery_id}]`
@@ -56,15 +75,13 @@ async function processFeedback(
   // If it's a field signal (reply or call_intel), notify PMM
   if (feedback.source === "reply" || feedback.source === "call_intel") {
     // Look up the delivery to get deal context
-    const log = readFeedbackLog(config.feedbackLogPath);
-    const delivery = log.deliveries.find(
-      (d) => d.delivery_id === feedback.delivery_id
-    );
+    const delivery = storage.getDelivery(feedback.delivery_id) ?? undefined;
 
     const notification = buildFieldSignalNotification(feedback, delivery);
 
     if (config.channel === "telegram" && config.pmmTelegramChatId) {
       await sendTelegramText(
+        config.telegramApiUrl,
         config.pmmTelegramChatId,
         notification.text,
         config.telegramBotToken
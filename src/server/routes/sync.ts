@@ -1,71 +1,113 @@
 /**
- * Sync routes — receive KB and rep directory updates from the MCP server.
+ * Sync routes — receive KB, rep directory, stage rule and field mapping
+ * updates from the MCP server.
  *
  * When a PMM manages their KB locally via Claude Code, the MCP server's
  * data layer pushes updates here so the Railway-deployed webhook server
  * stays in sync. Authenticated with a shared secret (SYNC_SECRET).
  *
  * Routes:
+ *   GET /api/kb             — current knowledge base (pull_sync)
  *   PUT /api/kb             — overwrite the knowledge base
+ *   GET /api/rep-directory   — current rep directory (pull_sync)
  *   PUT /api/rep-directory   — overwrite the rep directory
+ *   GET /api/stage-config    — current stage rules (pull_sync)
+ *   PUT /api/stage-config    — overwrite the stage rules
+ *   GET /api/field-mapping   — current field mapping (pull_sync)
+ *   PUT /api/field-mapping   — overwrite the field mapping
+ *   GET /api/feedback-log    — deliveries + feedback, paged (analytics tools)
+ *
+ * Every response carries an ETag for the stored document. A PUT with an
+ * If-Match that no longer matches (another PMM pushed first, or a rep
+ * registered via Telegram) gets a 409 with a diff of what it would
+ * overwrite. A PUT without If-Match is accepted as-is (older clients).
+ *
+ * Payloads are migrated and schema-checked before they're stored, so a
+ * malformed file on a laptop gets a 400 naming the bad field instead of
+ * breaking the production pipeline.
  */
 
 import { Router } from "express";
+import type { Response } from "express";
 import type { Config } from "../../shared/config.js";
-import { writeFileSync } from "fs";
-import { ensureDirForPath } from "../../shared/data.js";
+import type {
+  KnowledgeBase,
+  RepDirectory,
+  StageConfig,
+  FieldMapping,
+} from "../../shared/types.js";
+import { documentEtag } from "../../shared/sync.js";
+import type { FeedbackLogPage } from "../../shared/sync.js";
+import {
+  diffKB,
+  diffRepDirectory,
+  diffStageConfig,
+  diffFieldMapping,
+} from "../../shared/kb-diff.js";
+import type { Storage } from "../../shared/storage.js";
+import { requireSyncSecret } from "../middleware.js";
+import {
+  parseKnowledgeBase,
+  parseRepDirectory,
+  parseStageConfig,
+  parseFieldMapping,
+  DataValidationError,
+} from "../../shared/validate.js";
 
-export function createSyncRouter(config: Config): Router {
+export function createSyncRouter(config: Config, storage: Storage): Router {
   const router = Router();
 
   // ── Auth middleware ────────────────────────────────────────
-  router.use((req, res, next) => {
-    if (!config.syncSecret) {
-      res.status(503).json({
-        error: "Sync is not configured — set SYNC_SECRET on the server",
-      });
-      return;
-    }
-
-    const authHeader = req.headers.authorization;
-    if (!authHeader || !authHeader.startsWith("Bearer ")) {
-      res.status(401).json({ error: "Missing Authorization header" });
-      return;
-    }
-
-    const token = authHeader.slice(7); // "Bearer " is 7 chars
-    if (token !== config.syncSecret) {
-      res.status(403).json({ error: "Invalid sync secret" });
-      return;
-    }
+  router.use(requireSyncSecret(config));
 
-    next();
+  // ── GET /api/kb ───────────────────────────────────────────
+  router.get("/kb", (_req, res) => {
+    const kb = storage.readKB();
+    res.setHeader("ETag", documentEtag(kb));
+    res.status(200).json(kb);
   });
 
   // ── PUT /api/kb ───────────────────────────────────────────
   router.put("/kb", (req, res) => {
-    const body = req.body;
+    let body: KnowledgeBase;
+    try {
+      body = parseKnowledgeBase(req.body, "sync payload");
+    } catch (err) {
+      rejectInvalid(res, err);
+      return;
+    }
 
-    // Basic shape validation — must look like a KB
-    if (!body || !Array.isArray(body.case_studies) || !body._meta) {
-      res.status(400).json({
-        error: "Invalid knowledge base format — expected case_studies array and _meta object",
+    const current = storage.readKB();
+    const etag = documentEtag(current);
+    if (!matchesEtag(req.get("If-Match"), etag)) {
+      console.log("[JIT] Sync: KB push rejected — server copy changed since client's last sync");
+      res.status(409).json({
+        error: "Knowledge base changed on the server since your last sync — run pull_sync",
+        etag,
+        diff: diffKB(current, body),
       });
       return;
     }
 
     try {
-      ensureDirForPath(config.kbPath);
-      writeFileSync(config.kbPath, JSON.stringify(body, null, 2));
+      // Revisions are numbered per store — the server keeps its own sequence
+      delete body._meta.revision;
+      storage.replaceKB(body, {
+        author: body._meta.updated_by || "unknown",
+        source: "sync",
+      });
 
+      const stored = storage.readKB();
       console.log(
-        `[JIT] Sync: KB updated (${body._meta.entry_count || 0} entries)`
+        `[JIT] Sync: KB updated (${body._meta.entry_count || 0} entries, r${stored._meta.revision})`
       );
 
+      res.setHeader("ETag", documentEtag(stored));
       res.status(200).json({
         synced: true,
         file: "knowledge-base.json",
         entries: body._meta.entry_count || 0,
+        revision: stored._meta.revision,
       });
     } catch (err) {
       console.error("[JIT] Sync: KB write failed:", (err as Error).message);
@@ -73,29 +115,43 @@ export function createSyncRouter(config: Config): Router {
     }
   });
 
+  // ── GET /api/rep-directory ────────────────────────────────
+  router.get("/rep-directory", (_req, res) => {
+    const dir = storage.readRepDirectory();
+    res.setHeader("ETag", documentEtag(dir));
+    res.status(200).json(dir);
+  });
+
   // ── PUT /api/rep-directory ────────────────────────────────
   router.put("/rep-directory", (req, res) => {
-    const body = req.body;
+    let body: RepDirectory;
+    try {
+      body = parseRepDirectory(req.body, "sync payload");
+    } catch (err) {
+      rejectInvalid(res, err);
+      return;
+    }
 
-    // Basic shape validation — must look like a rep directory
-    if (!body || !Array.isArray(body.reps) || !body._meta) {
-      res.status(400).json({
-        error: "Invalid rep directory format — expected reps array and _meta object",
+    const current = storage.readRepDirectory();
+    const etag = documentEtag(current);
+    if (!matchesEtag(req.get("If-Match"), etag)) {
+      console.log("[JIT] Sync: Rep directory push rejected — server copy changed since client's last sync");
+      res.status(409).json({
+        error: "Rep directory changed on the server since your last sync — run pull_sync",
+        etag,
+        diff: diffRepDirectory(current, body),
       });
       return;
     }
 
     try {
-      ensureDirForPath(config.repDirectoryPath);
-      writeFileSync(
-        config.repDirectoryPath,
-        JSON.stringify(body, null, 2)
-      );
+      storage.replaceRepDirectory(body);
 
       console.log(
         `[JIT] Sync: Rep directory updated (${body._meta.total_reps || 0} reps)`
       );
 
+      res.setHeader("ETag", documentEtag(storage.readRepDirectory()));
       res.status(200).json({
         synced: true,
         file: "rep-directory.json",
@@ -110,5 +166,183 @@ export function createSyncRouter(config: Config): Router {
     }
   });
 
+  // ── GET /api/stage-config ─────────────────────────────────
+  router.get("/stage-config", (_req, res) => {
+    const stages = storage.readStageConfig();
+    res.setHeader("ETag", documentEtag(stages));
+    res.status(200).json(stages);
+  });
+
+  // ── PUT /api/stage-config ─────────────────────────────────
+  router.put("/stage-config", (req, res) => {
+    let body: StageConfig;
+    try {
+      body = parseStageConfig(req.body, "sync payload");
+    } catch (err) {
+      rejectInvalid(res, err);
+      return;
+    }
+
+    const current = storage.readStageConfig();
+    const etag = documentEtag(current);
+    if (!matchesEtag(req.get("If-Match"), etag)) {
+      console.log("[JIT] Sync: Stage config push rejected — server copy changed since client's last sync");
+      res.status(409).json({
+        error: "Stage rules changed on the server since your last sync — run pull_sync",
+        etag,
+        diff: diffStageConfig(current, body),
+      });
+      return;
+    }
+
+    try {
+      storage.replaceStageConfig(body);
+
+      const mappings = Object.values(body.stage_maps).reduce(
+        (n, map) => n + Object.keys(map).length,
+        0
+      );
+      console.log(`[JIT] Sync: Stage config updated (${mappings} CRM stage mappings)`);
+
+      res.setHeader("ETag", documentEtag(storage.readStageConfig()));
+      res.status(200).json({
+        synced: true,
+        file: "stage-config.json",
+        mappings,
+      });
+    } catch (err) {
+      console.error("[JIT] Sync: Stage config write failed:", (err as Error).message);
+      res.status(500).json({ error: "Failed to write stage config" });
+    }
+  });
+
+  // ── GET /api/field-mapping ────────────────────────────────
+  router.get("/field-mapping", (_req, res) => {
+    const mapping = storage.readFieldMapping();
+    res.setHeader("ETag", documentEtag(mapping));
+    res.status(200).json(mapping);
+  });
+
+  // ── PUT /api/field-mapping ────────────────────────────────
+  router.put("/field-mapping", (req, res) => {
+    let body: FieldMapping;
+    try {
+      body = parseFieldMapping(req.body, "sync payload");
+    } catch (err) {
+      rejectInvalid(res, err);
+      return;
+    }
+
+    const current = storage.readFieldMapping();
+    const etag = documentEtag(current);
+    if (!matchesEtag(req.get("If-Match"), etag)) {
+      console.log("[JIT] Sync: Field mapping push rejected — server copy changed since client's last sync");
+      res.status(409).json({
+        error: "Field mapping changed on the server since your last sync — run pull_sync",
+        etag,
+        diff: diffFieldMapping(current, body),
+      });
+      return;
+    }
+
+    try {
+      storage.replaceFieldMapping(body);
+
+      const fields = Object.values(body.crms).reduce(
+        (n, crmFields) => n + Object.keys(crmFields).length,
+        0
+      );
+      console.log(`[JIT] Sync: Field mapping updated (${fields} custom fields)`);
+
+      res.setHeader("ETag", documentEtag(storage.readFieldMapping()));
+      res.status(200).json({
+        synced: true,
+        file: "field-mapping.json",
+        fields,
+      });
+    } catch (err) {
+      console.error("[JIT] Sync: Field mapping write failed:", (err as Error).message);
+      res.status(500).json({ error: "Failed to write field mapping" });
+    }
+  });
+
+  // ── GET /api/feedback-log ─────────────────────────────────
+  // Incremental: pass the previous page's next_since as ?since= to get
+  // only entries recorded after it. Both lists are append-only, so the
+  // cursor is just "<deliveries seen>:<feedback seen>", plus the log's
+  // generation once it has been replaced — a cursor into an older
+  // generation gets 410. A queued delivery is updated in place when it's
+  // sent or fails, so clients pull again from their first queued one.
+  router.get("/feedback-log", (req, res) => {
+    const cursor = parseFeedbackCursor(req.query.since);
+    if (!cursor) {
+      res.status(400).json({ error: "Invalid since cursor — pass next_since from a previous page" });
+      return;
+    }
+
+    const requested = parseInt(String(req.query.limit ?? ""), 10);
+    const limit = Math.min(
+      Number.isNaN(requested) || requested < 1 ? FEEDBACK_PAGE_SIZE : requested,
+      FEEDBACK_PAGE_MAX
+    );
+
+    const { deliveries, feedback, _meta } = storage.readFeedbackPage(cursor.deliveries, cursor.feedback, limit);
+    const generation = _meta.generation ?? "";
+    if (
+      (cursor.generation !== null && cursor.generation !== generation) ||
+      cursor.deliveries > _meta.total_deliveries ||
+      cursor.feedback > _meta.total_feedback
+    ) {
+      // The log was replaced since this cursor was issued
+      res.status(410).json({ error: "The feedback log was replaced since this cursor — pull again from the start" });
+      return;
+    }
+
+    const seenDeliveries = cursor.deliveries + deliveries.length;
+    const seenFeedback = cursor.feedback + feedback.length;
+
+    res.status(200).json({
+      deliveries,
+      feedback,
+      _meta,
+      next_since: `${seenDeliveries}:${seenFeedback}${generation && `:${generation}`}`,
+      has_more: seenDeliveries < _meta.total_deliveries || seenFeedback < _meta.total_feedback,
+    } satisfies FeedbackLogPage);
+  });
+
   return router;
 }
+
+const FEEDBACK_PAGE_SIZE = 500;
+const FEEDBACK_PAGE_MAX = 2000;
+
+/** A cursor's generation is null for a pull from the start, "" before any replace. */
+function parseFeedbackCursor(
+  since: unknown
+): { deliveries: number; feedback: number; generation: string | null } | null {
+  if (since === undefined || since === "") return { deliveries: 0, feedback: 0, generation: null };
+  const match = typeof since === "string" ? /^(\d+):(\d+)(?::([\w-]+))?$/.exec(since) : null;
+  if (!match) return null;
+  return {
+    deliveries: parseInt(match[1], 10),
+    feedback: parseInt(match[2], 10),
+    generation: match[3] ?? "",
+  };
+}
+
+/**
+ * If-Match check — a missing header or "*" always matches.
+ */
+function matchesEtag(ifMatch: string | undefined, etag: string): boolean {
+  if (!ifMatch || ifMatch.trim() === "*") return true;
+  return ifMatch
+    .split(",")
+    .map((tag) => tag.trim().replace(/^W\//, ""))
+    .includes(etag);
+}
+
+function rejectInvalid(res: Response, err: unknown): void {
+  if (!(err instanceof DataValidationError)) throw err;
+  console.error(`[JIT] Sync: rejected payload — ${err.message}`);
+  res.status(400).json({ error: err.message, issues: err.issues });
+}
@@ -1,12 +1,24 @@
 /**
  * Telegram webhook route — receives bot updates (callback queries
  * from inline buttons and text replies from reps).
+ *
+ * Both are linked to the delivery sent as the message they answer, so
+ * PMM notifications and analytics carry the deal.
+ *
+ * With TELEGRAM_WEBHOOK_SECRET set, an update without that secret in
+ * X-Telegram-Bot-Api-Secret-Token is refused — Telegram sends it once
+ * the webhook is registered with it (see telegram-webhook.ts).
+ *
+ * Also: GET/POST /api/telegram-webhook to see or re-register the
+ * bot's webhook, authenticated with the sync secret.
  */
 
 import { Router } from "express";
+import type { RequestHandler } from "express";
 import type { Config } from "../../shared/config.js";
-import { appendFeedback, readFeedbackLog } from "../../shared/data.js";
-import { parseFeedback } from "../../feedback/parse.js";
+import type { Storage } from "../../shared/storage.js";
+import { parseFeedback, repliedMessage } from "../../feedback/parse.js";
+import { attachDelivery } from "../../feedback/deliveries.js";
 import { buildFieldSignalNotification } from "../../feedback/notify.js";
 import {
   sendTelegramText,
@@ -15,11 +27,18 @@ import {
 } from "../../pipeline/send-telegram.js";
 import { sendSlackText } from "../../pipeline/send-slack.js";
 import type { FeedbackEntry } from "../../shared/types.js";
-
-export function createTelegramRouter(config: Config): Router {
+import { linkFeedback } from "../deal-states.js";
+import { requireSyncSecret } from "../middleware.js";
+import { safeEqual } from "../../pipeline/crm-signatures.js";
+import { registerTelegramWebhook, telegramWebhookStatus } from "../telegram-webhook.js";
+
+export function createTelegramRouter(
+  config: Config,
+  storage: Storage
+): Router {
   const router = Router();
 
-  router.post("/", (req, res) => {
+  router.post("/", requireTelegramSecret(config), (req, res) => {
     res.status(200).json({ ok: true });
 
     const body = req.body as Record<string, unknown>;
@@ -38,7 +57,12 @@ export function createTelegramRouter(config: Config): Router {
       return;
     }
 
-    processTelegramFeedback(result, config).catch((err) =>
+    // Reply or button press → the delivery it answers
+    const ref = repliedMessage(body);
+    const delivery = ref ? storage.findDeliveryByMessageRef(ref) : null;
+    const feedback = delivery ? attachDelivery(result, delivery) : result;
+
+    processTelegramFeedback(feedback, config, storage).catch((err) =>
       console.error("[JIT] Telegram feedback error:", err)
     );
   });
@@ -46,6 +70,50 @@ export function createTelegramRouter(config: Config): Router {
   return router;
 }
 
+/**
+ * The bot's webhook — GET shows what Telegram reports, POST registers
+ * it again (after changing the secret or the domain).
+ */
+export function createTelegramWebhookRouter(config: Config): Router {
+  const router = Router();
+
+  router.use(requireSyncSecret(config));
+
+  router.get("/", (_req, res) => {
+    telegramWebhookStatus(config)
+      .then((status) => res.status(200).json(status))
+      .catch((err) => res.status(502).json({ error: (err as Error).message }));
+  });
+
+  router.post("/", (_req, res) => {
+    registerTelegramWebhook(config)
+      .then(async (url) => {
+        console.log(`[JIT] Telegram webhook registered: ${url}`);
+        res.status(200).json({ registered: url, ...(await telegramWebhookStatus(config)) });
+      })
+      .catch((err) => res.status(502).json({ error: (err as Error).message }));
+  });
+
+  return router;
+}
+
+function requireTelegramSecret(config: Config): RequestHandler {
+  return (req, res, next) => {
+    if (!config.telegramWebhookSecret) {
+      next();
+      return;
+    }
+
+    const given = req.headers["x-telegram-bot-api-secret-token"];
+    if (typeof given !== "string" || !safeEqual(given, config.telegramWebhookSecret)) {
+      console.warn("[JIT] Telegram update rejected: missing or wrong secret token");
+      res.status(401).json({ error: "Invalid Telegram secret token" });
+      return;
+    }
+    next();
+  };
+}
+
 /**
  * Acknowledge a Telegram callback query — shows toast and replaces
  * buttons with a "✓ Clicked" confirmation so the rep sees feedback.
@@ -62,7 +130,7 @@ async function acknowledgeCallback(
   const toastText = isHelpful
     ? "✓ Marked as helpful"
     : "✓ Marked as not helpful";
-  await answerCallbackQuery(callbackId, toastText, config.telegramBotToken);
+  await answerCallbackQuery(config.telegramApiUrl, callbackId, toastText, config.telegramBotToken);
 
   // 2. Replace buttons with a single "clicked" label
   const message = cb.message as Record<string, unknown> | undefined;
@@ -73,6 +141,7 @@ async function acknowledgeCallback(
 
     const clickedLabel = isHelpful ? "✅ Helpful" : "❌ Not helpful";
     await editMessageReplyMarkup(
+      config.telegramApiUrl,
       chatId,
       messageId,
       {
@@ -85,9 +154,11 @@ async function acknowledgeCallback(
 
 async function processTelegramFeedback(
   feedback: FeedbackEntry,
-  config: Config
+  config: Config,
+  storage: Storage
 ): Promise<void> {
-  appendFeedback(config.feedbackLogPath, feedback);
+  storage.appendFeedback(feedback);
+  linkFeedback(storage, feedback);
 
   console.log(
     `[JIT] Telegram feedback: ${feedback.source} → ${feedback.value}`
@@ -95,15 +166,13 @@ async function processTelegramFeedback(
 
   // Notify PMM of field signals
   if (feedback.source === "reply" || feedback.source === "call_intel") {
-    const log = readFeedbackLog(config.feedbackLogPath);
-    const delivery = log.deliveries.find(
-      (d) => d.delivery_id === feedback.delivery_id
-    );
+    const delivery = storage.getDelivery(feedback.delivery_id) ?? undefined;
 
     const notification = buildFieldSignalNotification(feedback, delivery);
 
     if (config.pmmTelegramChatId) {
       await sendTelegramText(
+        config.telegramApiUrl,
         config.pmmTelegramChatId,
         notification.text,
         config.telegramBotToken
@@ -0,0 +1,98 @@
+/**
+ * Slack request signing — proves a POST to /webhook/feedback came from
+ * Slack, so nobody can forge button clicks or thread replies into the
+ * feedback log.
+ *
+ * Slack signs every request it sends (interactivity, Events API, URL
+ * verification) with the app's signing secret:
+ *
+ *   X-Slack-Request-Timestamp: 1767225600
+ *   X-Slack-Signature: v0=<hex HMAC-SHA256 of "v0:<timestamp>:<raw body>">
+ *
+ * The HMAC is over the body exactly as sent, so the body parsers keep
+ * it (see keepRawBody). A request is refused when its timestamp is
+ * outside the tolerance, or when its signature was already accepted
+ * within it — a captured request can't be replayed, late or early.
+ */
+
+import { createHmac } from "crypto";
+import type { IncomingHttpHeaders } from "http";
+import type { RequestHandler } from "express";
+import type { Config } from "../shared/config.js";
+import { safeEqual } from "../pipeline/crm-signatures.js";
+import { rawBody } from "./middleware.js";
+
+/**
+ * Why a request isn't signed by Slack, or null if it is. `now` is in
+ * milliseconds; Slack's timestamp is in seconds.
+ */
+export function verifySlackSignature(
+  headers: IncomingHttpHeaders,
+  body: string,
+  signingSecret: string,
+  toleranceMs: number,
+  now: number = Date.now()
+): string | null {
+  const signature = first(headers["x-slack-signature"]);
+  const timestamp = first(headers["x-slack-request-timestamp"]);
+  if (!signature || !timestamp) return "missing X-Slack-Signature or X-Slack-Request-Timestamp";
+
+  const sentAt = Number(timestamp) * 1000;
+  if (!Number.isFinite(sentAt)) return "invalid X-Slack-Request-Timestamp";
+  if (Math.abs(now - sentAt) > toleranceMs) return "request timestamp outside tolerance";
+
+  const expected = `v0=${createHmac("sha256", signingSecret).update(`v0:${timestamp}:${body}`).digest("hex")}`;
+  return safeEqual(signature, expected) ? null : "signature mismatch";
+}
+
+/**
+ * Middleware for Slack's routes — 401 for a request Slack didn't sign
+ * or one already seen. Lets everything through while SLACK_SIGNING_SECRET
+ * isn't set.
+ */
+export function requireSlackSignature(config: Config): RequestHandler {
+  // Signatures accepted within the tolerance window → when they expire
+  const seen = new Map<string, number>();
+
+  return (req, res, next) => {
+    if (!config.slackSigningSecret) {
+      next();
+      return;
+    }
+
+    const now = Date.now();
+    const rejected = verifySlackSignature(
+      req.headers,
+      rawBody(req),
+      config.slackSigningSecret,
+      config.webhookSignatureToleranceMs,
+      now
+    );
+    if (rejected) {
+      console.warn(`[JIT] Slack request rejected: ${rejected}`);
+      res.status(401).json({ error: "Invalid Slack signature" });
+      return;
+    }
+
+    for (const [signature, expires] of seen) {
+      if (expires <= now) seen.delete(signature);
+    }
+    const signature = first(req.headers["x-slack-signature"])!;
+    if (seen.has(signature)) {
+      console.warn("[JIT] Slack request rejected: replayed signature");
+      res.status(401).json({ error: "Invalid Slack signature" });
+      return;
+    }
+    // Long enough to outlive the timestamp check on either side
+    seen.set(signature, now + 2 * config.webhookSignatureToleranceMs);
+
+    next();
+  };
+}
+
+// ── Helpers ────────────────────────────────────────────────
+
+function first(value: string | string[] | undefined): string | null {
+  const v = Array.isArray(value) ? value[0] : value;
+  return v ? v : null;
+}
@@ -0,0 +1,90 @@
+/**
+ * Telegram webhook registration — points the bot at /webhook/telegram
+ * with the secret Telegram sends back on every update, so the route
+ * can refuse updates that didn't come from Telegram.
+ *
+ * Runs at startup when the server knows its public URL (PUBLIC_URL,
+ * or Railway's RAILWAY_PUBLIC_DOMAIN), and again on
+ * POST /api/telegram-webhook. The Bot API base URL is TELEGRAM_API_URL.
+ *
+ * /health reports the webhook from a short-lived cache, so frequent
+ * health probes don't each wait on the Bot API.
+ */
+
+import type { Config } from "../shared/config.js";
+import { getTelegramWebhookInfo, setTelegramWebhook } from "../pipeline/send-telegram.js";
+
+/** How long /health reuses what Telegram last reported. */
+const WEBHOOK_STATUS_TTL_MS = 30_000;
+
+/** What /health and GET /api/telegram-webhook report. */
+export interface TelegramWebhookStatus {
+  url: string; // Where Telegram sends updates, "" if nowhere
+  expected_url: string | null; // Where it should, if the public URL is known
+  secret_configured: boolean;
+  pending_update_count: number;
+  last_error: { message: string; at: string } | null;
+}
+
+/** The URL Telegram should POST updates to, or null without a public URL. */
+export function telegramWebhookUrl(config: Config): string | null {
+  if (!config.publicUrl) return null;
+  return `${config.publicUrl.replace(/\/+$/, "")}/webhook/telegram`;
+}
+
+/**
+ * Call setWebhook with the public URL and the secret. Throws if the
+ * URL isn't known or Telegram refuses.
+ */
+export async function registerTelegramWebhook(config: Config): Promise<string> {
+  const url = telegramWebhookUrl(config);
+  if (!url) throw new Error("PUBLIC_URL is not set — can't tell Telegram where to send updates");
+  if (!config.telegramBotToken) throw new Error("TELEGRAM_BOT_TOKEN is not set");
+
+  const result = await setTelegramWebhook(
+    config.telegramApiUrl,
+    config.telegramBotToken,
+    url,
+    config.telegramWebhookSecret
+  );
+  if (!result.ok) throw new Error(`Telegram setWebhook failed: ${result.description ?? "unknown error"}`);
+  return url;
+}
+
+/** The bot's webhook as Telegram sees it. Throws if Telegram can't be asked. */
+export async function telegramWebhookStatus(config: Config): Promise<TelegramWebhookStatus> {
+  const info = await getTelegramWebhookInfo(config.telegramApiUrl, config.telegramBotToken);
+  if (!info.ok || !info.result) {
+    throw new Error(`Telegram getWebhookInfo failed: ${info.description ?? "unknown error"}`);
+  }
+
+  const { url, pending_update_count, last_error_date, last_error_message } = info.result;
+  return {
+    url,
+    expected_url: telegramWebhookUrl(config),
+    secret_configured: Boolean(config.telegramWebhookSecret),
+    pending_update_count,
+    last_error:
+      last_error_message && last_error_date
+        ? { message: last_error_message, at: new Date(last_error_date * 1000).toISOString() }
+        : null,
+  };
+}
+
+/**
+ * telegramWebhookStatus, reused for `ttlMs` — a failed lookup too, so
+ * a Telegram outage costs /health one slow answer, not every answer.
+ */
+export function cachedTelegramWebhookStatus(
+  config: Config,
+  ttlMs = WEBHOOK_STATUS_TTL_MS
+): () => Promise<TelegramWebhookStatus> {
+  let cached: { at: number; status: Promise<TelegramWebhookStatus> } | null = null;
+
+  return () => {
+    if (!cached || Date.now() - cached.at >= ttlMs) {
+      cached = { at: Date.now(), status: telegramWebhookStatus(config) };
+    }
+    return cached.status;
+  };
+}
@@ -8,6 +8,9 @@
  */
 
 import { resolve } from "path";
+import { userInfo } from "os";
+import { STORAGE_BACKENDS } from "./storage.js";
+import type { StorageBackend } from "./storage.js";
 
 export interface Config {
   // Data paths
@@ -16,16 +19,26 @@ export interface Config {
   feedbackLogPath: string;
   repDirectoryPath: string;
 
+  // Storage — "json" (default) or "sqlite"
+  storageBackend: StorageBackend;
+  sqlitePath: string;
+
   // Claude API (optional — omit for template-based enablement)
   anthropicApiKey: string;
 
   // Slack (primary)
   slackBotToken: string;
   pmmSlackId: string;
+  slackSigningSecret: string; // Checks requests to /webhook/feedback came from Slack
 
   // Telegram (secondary)
   telegramBotToken: string;
   pmmTelegramChatId: string;
+  telegramWebhookSecret: string; // Sent by Telegram as X-Telegram-Bot-Api-Secret-Token
+  telegramApiUrl: string; // Bot API base, e.g. https://api.telegram.org
+
+  // Public base URL of this server (for registering the Telegram webhook)
+  publicUrl: string;
 
   // Server
   webhookPort: number;
@@ -33,6 +46,30 @@ export interface Config {
 
   // Sync — shared secret for authenticating KB sync requests
   syncSecret: string;
+
+  // CRM job queue — attempts per pipeline step, first retry delay (doubles)
+  jobMaxAttempts: number;
+  jobRetryBaseMs: number;
+
+  // CRM webhook dedup — how long a deal + stage fingerprint suppresses repeats (0 = off)
+  webhookDedupWindowMs: number;
+
+  // HubSpot API — deal and owner lookups for v3 webhook subscriptions
+  hubspotApiUrl: string;
+  hubspotAccessToken: string;
+
+  // CRM webhook authenticity — each CRM's own signature when its secret
+  // is set, else the shared secret (see pipeline/crm-signatures.ts)
+  hubspotClientSecret: string;
+  pipedriveWebhookUser: string;
+  pipedriveWebhookPassword: string;
+  attioWebhookSecret: string;
+  closeWebhookSignatureKey: string;
+  crmWebhookSecret: string;
+  webhookSignatureToleranceMs: number;
+
+  // CRM adapter plugins — .js/.mjs modules loaded at startup (see server/crm-plugins.ts)
+  crmPluginDir: string;
 }
 
 /**
@@ -42,6 +79,7 @@ export interface Config {
 export function loadServerConfig(): Config {
   const dataDir = process.env.DATA_DIR || resolve(process.cwd(), "data");
   const channel = (process.env.CHANNEL || "slack") as "slack" | "telegram";
+  const storageBackend = loadStorageBackend();
 
   const anthropicApiKey = process.env.ANTHROPIC_API_KEY || "";
   if (!anthropicApiKey) {
@@ -59,26 +97,59 @@ export function loadServerConfig(): Config {
       "SLACK_BOT_TOKEN is required when CHANNEL=slack. Set it in your .env file."
     );
   }
+  if (channel === "slack" && !process.env.SLACK_SIGNING_SECRET) {
+    console.log(
+      "[JIT] No SLACK_SIGNING_SECRET set — /webhook/feedback can't tell Slack's requests " +
+        "from forged ones. Add your Slack app's signing secret to .env."
+    );
+  }
   if (channel === "telegram" && !telegramBotToken) {
     throw new Error(
       "TELEGRAM_BOT_TOKEN is required when CHANNEL=telegram. Set it in your .env file."
     );
   }
 
+  // Telegram only accepts 1-256 of A-Z, a-z, 0-9, _ and -
+  const telegramWebhookSecret = process.env.TELEGRAM_WEBHOOK_SECRET || "";
+  if (telegramWebhookSecret && !/^[A-Za-z0-9_-]{1,256}$/.test(telegramWebhookSecret)) {
+    throw new Error(
+      "TELEGRAM_WEBHOOK_SECRET may only contain letters, digits, _ and - (up to 256 characters)."
+    );
+  }
+
   return {
     dataDir,
     kbPath: resolve(dataDir, "knowledge-base.json"),
     feedbackLogPath: resolve(dataDir, "feedback-log.json"),
     repDirectoryPath: resolve(dataDir, "rep-directory.json"),
+    storageBackend,
+    sqlitePath: process.env.SQLITE_PATH || resolve(dataDir, "jit-enablement.db"),
     anthropicApiKey,
     slackBotToken,
     pmmSlackId: process.env.PMM_SLACK_ID || "",
+    slackSigningSecret: process.env.SLACK_SIGNING_SECRET || "",
     telegramBotToken,
     pmmTelegramChatId: process.env.PMM_TELEGRAM_CHAT_ID || "",
+    telegramWebhookSecret,
+    telegramApiUrl: process.env.TELEGRAM_API_URL || "https://api.telegram.org",
+    publicUrl: loadPublicUrl(),
     // PORT is set automatically by Railway/Render; WEBHOOK_PORT is the local override
     webhookPort: parseInt(process.env.PORT || process.env.WEBHOOK_PORT || "3456", 10),
     channel,
     syncSecret: process.env.SYNC_SECRET || "",
+    jobMaxAttempts: parseInt(process.env.JOB_MAX_ATTEMPTS || "5", 10),
+    jobRetryBaseMs: parseInt(process.env.JOB_RETRY_BASE_MS || "5000", 10),
+    webhookDedupWindowMs: parseInt(process.env.WEBHOOK_DEDUP_WINDOW_MS || "600000", 10),
+    hubspotApiUrl: process.env.HUBSPOT_API_URL || "https://api.hubapi.com",
+    hubspotAccessToken: process.env.HUBSPOT_ACCESS_TOKEN || "",
+    hubspotClientSecret: process.env.HUBSPOT_CLIENT_SECRET || "",
+    pipedriveWebhookUser: process.env.PIPEDRIVE_WEBHOOK_USER || "",
+    pipedriveWebhookPassword: process.env.PIPEDRIVE_WEBHOOK_PASSWORD || "",
+    attioWebhookSecret: process.env.ATTIO_WEBHOOK_SECRET || "",
+    closeWebhookSignatureKey: process.env.CLOSE_WEBHOOK_SIGNATURE_KEY || "",
+    crmWebhookSecret: process.env.CRM_WEBHOOK_SECRET || "",
+    webhookSignatureToleranceMs: parseInt(process.env.WEBHOOK_SIGNATURE_TOLERANCE_MS || "300000", 10),
+    crmPluginDir: process.env.CRM_PLUGIN_DIR || resolve(dataDir, "crm-plugins"),
   };
 }
 
@@ -90,8 +161,14 @@ export interface McpConfig {
   kbPath: string;
   feedbackLogPath: string;
   repDirectoryPath: string;
+  storageBackend: StorageBackend;
+  sqlitePath: string;
   syncUrl: string;   // Remote server URL (e.g., https://my-app.up.railway.app)
   syncSecret: string; // Shared secret for authenticating sync pushes
+  syncStatePath: string; // Last-synced server ETags + unresolved conflicts
+  syncOutboxPath: string; // Pushes waiting to be retried
+  feedbackMirrorPath: string; // Local copy of the server's feedback log (analytics tools)
+  author: string;     // Recorded on KB version history entries
 }
 
 /**
@@ -108,7 +185,46 @@ export function loadMcpConfig(): McpConfig {
     kbPath: resolve(dataDir, "knowledge-base.json"),
     feedbackLogPath: resolve(dataDir, "feedback-log.json"),
     repDirectoryPath: resolve(dataDir, "rep-directory.json"),
+    storageBackend: loadStorageBackend(),
+    sqlitePath: process.env.SQLITE_PATH || resolve(dataDir, "jit-enablement.db"),
     syncUrl: process.env.SYNC_URL || "",
     syncSecret: process.env.SYNC_SECRET || "",
+    syncStatePath: resolve(dataDir, "sync-state.json"),
+    syncOutboxPath: resolve(dataDir, "sync-outbox.json"),
+    feedbackMirrorPath: resolve(dataDir, "feedback-log.production.json"),
+    author: process.env.KB_AUTHOR || currentUsername(),
   };
 }
+
+/**
+ * PUBLIC_URL, else the domain Railway gives the service. "" when
+ * neither is set.
+ */
+function loadPublicUrl(): string {
+  if (process.env.PUBLIC_URL) return process.env.PUBLIC_URL.replace(/\/+$/, "");
+  if (process.env.RAILWAY_PUBLIC_DOMAIN) return `https://${process.env.RAILWAY_PUBLIC_DOMAIN}`;
+  return "";
+}
+
+function currentUsername(): string {
+  try {
+    return userInfo().username || "unknown";
+  } catch {
+    // No passwd entry (some containers)
+    return "unknown";
+  }
+}
+
+/**
+ * Read STORAGE_BACKEND — "json" unless set. Throws on unknown values
+ * so a typo doesn't silently fall back to a different data store.
+ */
+function loadStorageBackend(): StorageBackend {
+  const value = (process.env.STORAGE_BACKEND || "json").toLowerCase();
+  if (!STORAGE_BACKENDS.includes(value as StorageBackend)) {
+    throw new Error(
+      `STORAGE_BACKEND must be one of: ${STORAGE_BACKENDS.join(", ")} (got "${value}").`
+    );
+  }
+  return value as StorageBackend;
+}
@@ -1,19 +1,55 @@
 /**
  * Data access layer — read/write knowledge base and feedback log.
  *
- * Both the MCP server and webhook server import from here.
- * Files are local JSON — no GitHub, no databases.
+ * These are the JSON-file primitives behind the "json" storage backend
+ * (see storage.ts). The MCP server and webhook server go through the
+ * Storage interface; the helpers here that aren't tied to a file
+ * (finalizeKBMeta, mergeRep, the empty* defaults) are shared with the
+ * SQLite backend.
+ *
+ * Reads migrate and validate the file (see validate.ts) — a malformed
+ * file throws a DataValidationError naming the bad field.
+ *
+ * Every write goes through writeJsonAtomic (temp file + rename) and every
+ * read-modify-write holds the file's lock, so a crash can't truncate a
+ * file and concurrent appends from two processes can't drop entries.
  */
 
-import { readFileSync, writeFileSync, existsSync, mkdirSync } from "fs";
-import { dirname } from "path";
+import { readFileSync, existsSync, mkdirSync, readdirSync, unlinkSync } from "fs";
+import { dirname, join } from "path";
+import { randomUUID } from "crypto";
+import { writeJsonAtomic, withFileLock } from "./file-io.js";
+import {
+  parseKnowledgeBase,
+  parseFeedbackLog,
+  parseRepDirectory,
+  parseStageConfig,
+  parseFieldMapping,
+  DataValidationError,
+  KB_SCHEMA_VERSION,
+  FEEDBACK_LOG_SCHEMA_VERSION,
+  REP_DIRECTORY_SCHEMA_VERSION,
+  STAGE_CONFIG_SCHEMA_VERSION,
+  FIELD_MAPPING_SCHEMA_VERSION,
+} from "./validate.js";
 import type {
   KnowledgeBase,
   FeedbackLog,
   DeliveryEntry,
   FeedbackEntry,
+  MessageRef,
   RepDirectory,
   RepEntry,
+  KBChange,
+  KBVersion,
+  KBVersionSummary,
+  PipelineJob,
+  JobStatus,
+  FailedRun,
+  WebhookKey,
+  StageConfig,
+  FieldMapping,
+  DealState,
 } from "./types.js";
 
 // ============================================================
@@ -27,7 +63,7 @@ const EMPTY_KB: KnowledgeBase = {
   methodology: null,
   _meta: {
     last_updated: null,
-    version: "1.0",
+    version: KB_SCHEMA_VERSION,
     entry_count: 0,
     configured: false,
   },
@@ -35,25 +71,29 @@ const EMPTY_KB: KnowledgeBase = {
 
 export function readKB(path: string): KnowledgeBase {
   if (!existsSync(path)) {
-    ensureDir(path);
-    writeFileSync(path, JSON.stringify(EMPTY_KB, null, 2));
+    writeJsonAtomic(path, EMPTY_KB);
     return structuredClone(EMPTY_KB);
   }
-  const kb = JSON.parse(readFileSync(path, "utf-8")) as KnowledgeBase;
+  return parseKnowledgeBase(readJsonFile(path), path);
+}
 
-  // Backwards compatibility: add fields that older KB files may not have
-  if (!kb.objection_library) kb.objection_library = [];
-  for (const cs of kb.case_studies) {
-    if (!cs.resources) cs.resources = [];
-  }
-  for (const cp of kb.competitor_positioning) {
-    if (!cp.resources) cp.resources = [];
-  }
+export function writeKB(path: string, kb: KnowledgeBase): void {
+  finalizeKBMeta(kb);
+  withFileLock(path, () => writeJsonAtomic(path, kb));
+}
 
-  return kb;
+/**
+ * Store a KB exactly as given — no _meta recalculation.
+ * Used when the KB arrives from elsewhere (sync push, migration).
+ */
+export function replaceKB(path: string, kb: KnowledgeBase): void {
+  withFileLock(path, () => writeJsonAtomic(path, kb));
 }
 
-export function writeKB(path: string, kb: KnowledgeBase): void {
+/**
+ * Recalculate entry_count / configured and stamp last_updated.
+ */
+export function finalizeKBMeta(kb: KnowledgeBase): KnowledgeBase {
   // Ensure objection_library exists for backwards compatibility
   if (!kb.objection_library) kb.objection_library = [];
 
@@ -66,12 +106,106 @@ export function writeKB(path: string, kb: KnowledgeBase): void {
   kb._meta.entry_count = totalEntries;
   kb._meta.configured = totalEntries > 0;
   kb._meta.last_updated = new Date().toISOString();
+  return kb;
+}
+
+export function emptyKB(): KnowledgeBase {
+  return structuredClone(EMPTY_KB);
+}
+
+// ============================================================
+// KNOWLEDGE BASE — Version history
+// ============================================================
+
+/** Oldest snapshots beyond this count are pruned. */
+export const KB_HISTORY_LIMIT = 200;
+
+/** Used when a KB write doesn't say who made it. */
+export const UNKNOWN_CHANGE: KBChange = { author: "unknown", source: "unknown" };
+
+/**
+ * Snapshots live next to the KB: data/kb-versions/v000001.json, ...
+ */
+export function kbVersionsDir(kbPath: string): string {
+  return join(dirname(kbPath), "kb-versions");
+}
+
+/**
+ * Record revision + author + tool on the KB's _meta.
+ */
+export function stampKBRevision(
+  kb: KnowledgeBase,
+  revision: number,
+  change: KBChange
+): KnowledgeBase {
+  kb._meta.revision = revision;
+  kb._meta.updated_by = change.author;
+  kb._meta.updated_via = change.source;
+  return kb;
+}
+
+/**
+ * Build the snapshot record for a KB that has already been stamped.
+ */
+export function toKBVersion(kb: KnowledgeBase, change: KBChange): KBVersion {
+  return {
+    version: kb._meta.revision ?? 0,
+    timestamp: kb._meta.last_updated || new Date().toISOString(),
+    author: change.author,
+    source: change.source,
+    entry_count: kb._meta.entry_count,
+    kb: structuredClone(kb),
+  };
+}
+
+export function saveKBVersion(dir: string, entry: KBVersion): void {
+  writeJsonAtomic(versionFile(dir, entry.version), entry);
+  pruneKBVersions(dir);
+}
+
+export function readKBVersion(dir: string, version: number): KBVersion | null {
+  const path = versionFile(dir, version);
+  if (!existsSync(path)) return null;
+  return JSON.parse(readFileSync(path, "utf-8")) as KBVersion;
+}
+
+/**
+ * List snapshots, newest first, without their KB bodies.
+ */
+export function listKBVersions(dir: string, limit?: number): KBVersionSummary[] {
+  const versions = versionNumbers(dir).reverse().slice(0, limit);
+  return versions.flatMap((v) => {
+    const entry = readKBVersion(dir, v);
+    if (!entry) return [];
+    const { kb: _kb, ...summary } = entry;
+    return [summary];
+  });
+}
+
+export function latestKBVersion(dir: string): number {
+  const versions = versionNumbers(dir);
+  return versions.length > 0 ? versions[versions.length - 1] : 0;
+}
 
-  ensureDir(path);
-  writeFileSync(path, JSON.stringify(kb, null, 2));
+function versionFile(dir: string, version: number): string {
+  return join(dir, `v${String(version).padStart(6, "0")}.json`);
+}
+
+/** Snapshot numbers on disk, oldest first. */
+function versionNumbers(dir: string): number[] {
+  if (!existsSync(dir)) return [];
+  return readdirSync(dir)
+    .map((f) => /^v(\d+)\.json$/.exec(f))
+    .filter((m): m is RegExpExecArray => m !== null)
+    .map((m) => parseInt(m[1], 10))
+    .sort((a, b) => a - b);
+}
 
-  // Push to remote if sync is enabled (fire-and-forget)
-  pushSync("/api/kb", kb).catch(() => {});
+function pruneKBVersions(dir: string): void {
+  const versions = versionNumbers(dir);
+  for (const v of versions.slice(0, Math.max(0, versions.length - KB_HISTORY_LIMIT))) {
+    unlinkSync(versionFile(dir, v));
+  }
 }
 
 // ============================================================
@@ -83,7 +217,7 @@ const EMPTY_LOG: FeedbackLog = {
   feedback: [],
   _meta: {
     last_updated: null,
-    version: "1.0",
+    version: FEEDBACK_LOG_SCHEMA_VERSION,
     total_deliveries: 0,
     total_feedback: 0,
   },
@@ -91,38 +225,97 @@ const EMPTY_LOG: FeedbackLog = {
 
 export function readFeedbackLog(path: string): FeedbackLog {
   if (!existsSync(path)) {
-    ensureDir(path);
-    writeFileSync(path, JSON.stringify(EMPTY_LOG, null, 2));
+    writeJsonAtomic(path, EMPTY_LOG);
     return structuredClone(EMPTY_LOG);
   }
-  return JSON.parse(readFileSync(path, "utf-8"));
+  return parseFeedbackLog(readJsonFile(path), path);
+}
+
+export function emptyFeedbackLog(): FeedbackLog {
+  return structuredClone(EMPTY_LOG);
 }
 
 export function writeFeedbackLog(path: string, log: FeedbackLog): void {
   log._meta.total_deliveries = log.deliveries.length;
   log._meta.total_feedback = log.feedback.length;
   log._meta.last_updated = new Date().toISOString();
+  withFileLock(path, () => writeJsonAtomic(path, log));
+}
+
+/**
+ * Store a feedback log exactly as given — no _meta recalculation.
+ */
+export function replaceFeedbackLog(path: string, log: FeedbackLog): void {
+  withFileLock(path, () => writeJsonAtomic(path, log));
+}
+
+/**
+ * A slice of the log for paging — the JSON file is read whole anyway.
+ */
+export function readFeedbackPage(
+  path: string,
+  afterDeliveries: number,
+  afterFeedback: number,
+  limit: number
+): FeedbackLog {
+  const log = readFeedbackLog(path);
+  return {
+    deliveries: log.deliveries.slice(afterDeliveries, afterDeliveries + limit),
+    feedback: log.feedback.slice(afterFeedback, afterFeedback + limit),
+    _meta: { ...log._meta, total_deliveries: log.deliveries.length, total_feedback: log.feedback.length },
+  };
+}
 
-  ensureDir(path);
-  writeFileSync(path, JSON.stringify(log, null, 2));
+/** A fresh _meta.generation for a replaced feedback log. */
+export function newFeedbackLogGeneration(): string {
+  return randomUUID().slice(0, 8);
+}
+
+export function readDelivery(path: string, deliveryId: string): DeliveryEntry | null {
+  return readFeedbackLog(path).deliveries.find((d) => d.delivery_id === deliveryId) ?? null;
+}
+
+export function findDeliveryByMessageRef(path: string, ref: MessageRef): DeliveryEntry | null {
+  return (
+    readFeedbackLog(path).deliveries.find(
+      (d) => d.message_ref?.channel === ref.channel && d.message_ref.id === ref.id
+    ) ?? null
+  );
 }
 
 export function appendDelivery(
   path: string,
   entry: DeliveryEntry
 ): void {
-  const log = readFeedbackLog(path);
-  log.deliveries.push(entry);
-  writeFeedbackLog(path, log);
+  withFileLock(path, () => {
+    const log = readFeedbackLog(path);
+    log.deliveries.push(entry);
+    writeFeedbackLog(path, log);
+  });
+}
+
+export function saveDelivery(
+  path: string,
+  entry: DeliveryEntry
+): void {
+  withFileLock(path, () => {
+    const log = readFeedbackLog(path);
+    const index = log.deliveries.findIndex((d) => d.delivery_id === entry.delivery_id);
+    if (index >= 0) log.deliveries[index] = entry;
+    else log.deliveries.push(entry);
+    writeFeedbackLog(path, log);
+  });
 }
 
 export function appendFeedback(
   path: string,
   entry: FeedbackEntry
 ): void {
-  const log = readFeedbackLog(path);
-  log.feedback.push(entry);
-  writeFeedbackLog(path, log);
+  withFileLock(path, () => {
+    const log = readFeedbackLog(path);
+    log.feedback.push(entry);
+    writeFeedbackLog(path, log);
+  });
 }
 
 // ============================================================
@@ -133,29 +326,34 @@ const EMPTY_REP_DIR: RepDirectory = {
   reps: [],
   _meta: {
     last_updated: null,
-    version: "1.0",
+    version: REP_DIRECTORY_SCHEMA_VERSION,
     total_reps: 0,
   },
 };
 
 export function readRepDirectory(path: string): RepDirectory {
   if (!existsSync(path)) {
-    ensureDir(path);
-    writeFileSync(path, JSON.stringify(EMPTY_REP_DIR, null, 2));
+    writeJsonAtomic(path, EMPTY_REP_DIR);
     return structuredClone(EMPTY_REP_DIR);
   }
-  return JSON.parse(readFileSync(path, "utf-8"));
+  return parseRepDirectory(readJsonFile(path), path);
 }
 
 export function writeRepDirectory(path: string, dir: RepDirectory): void {
   dir._meta.total_reps = dir.reps.length;
   dir._meta.last_updated = new Date().toISOString();
+  withFileLock(path, () => writeJsonAtomic(path, dir));
+}
 
-  ensureDir(path);
-  writeFileSync(path, JSON.stringify(dir, null, 2));
+/**
+ * Store a rep directory exactly as given — no _meta recalculation.
+ */
+export function replaceRepDirectory(path: string, dir: RepDirectory): void {
+  withFileLock(path, () => writeJsonAtomic(path, dir));
+}
 
-  // Push to remote if sync is enabled (fire-and-forget)
-  pushSync("/api/rep-directory", dir).catch(() => {});
+export function emptyRepDirectory(): RepDirectory {
+  return structuredClone(EMPTY_REP_DIR);
 }
 
 /**
@@ -186,106 +384,362 @@ export function findRepByTelegramChatId(
  * If the email already exists, updates the existing entry.
  */
 export function upsertRep(path: string, rep: RepEntry): void {
-  const dir = readRepDirectory(path);
-  const idx = dir.reps.findIndex(
-    (r) => r.email.toLowerCase() === rep.email.toLowerCase()
-  );
+  withFileLock(path, () => {
+    const dir = readRepDirectory(path);
+    const idx = dir.reps.findIndex(
+      (r) => r.email.toLowerCase() === rep.email.toLowerCase()
+    );
 
-  if (idx >= 0) {
-    // Merge — preserve fields the new entry doesn't have
-    dir.reps[idx] = {
-      ...dir.reps[idx],
-      ...rep,
-      // Keep non-empty values from existing entry if new entry is blank
-      slack_id: rep.slack_id || dir.reps[idx].slack_id,
-      telegram_chat_id:
-        rep.telegram_chat_id || dir.reps[idx].telegram_chat_id,
-    };
-  } else {
-    dir.reps.push(rep);
-  }
+    if (idx >= 0) {
+      dir.reps[idx] = mergeRep(dir.reps[idx], rep);
+    } else {
+      dir.reps.push(rep);
+    }
 
-  writeRepDirectory(path, dir);
+    writeRepDirectory(path, dir);
+  });
+}
+
+/**
+ * Merge an updated rep into an existing entry — preserve fields the
+ * new entry doesn't have.
+ */
+export function mergeRep(existing: RepEntry, rep: RepEntry): RepEntry {
+  return {
+    ...existing,
+    ...rep,
+    // Keep non-empty values from existing entry if new entry is blank
+    slack_id: rep.slack_id || existing.slack_id,
+    telegram_chat_id: rep.telegram_chat_id || existing.telegram_chat_id,
+  };
 }
 
 /**
  * Remove a rep by email.
  */
 export function removeRep(path: string, email: string): boolean {
-  const dir = readRepDirectory(path);
-  const before = dir.reps.length;
-  dir.reps = dir.reps.filter(
-    (r) => r.email.toLowerCase() !== email.toLowerCase()
-  );
-  if (dir.reps.length < before) {
-    writeRepDirectory(path, dir);
-    return true;
+  return withFileLock(path, () => {
+    const dir = readRepDirectory(path);
+    const before = dir.reps.length;
+    dir.reps = dir.reps.filter(
+      (r) => r.email.toLowerCase() !== email.toLowerCase()
+    );
+    if (dir.reps.length < before) {
+      writeRepDirectory(path, dir);
+      return true;
+    }
+    return false;
+  });
+}
+
+// ============================================================
+// STAGE CONFIG
+// ============================================================
+
+/**
+ * The rules the pipeline shipped with: the four stage names the
+ * generic payload uses, plus the won/lost IDs and labels HubSpot,
+ * Pipedrive, Close, Zoho, Dynamics 365, Freshsales and Copper send for
+ * their built-in closed stages. Backwards moves through the usual
+ * pipeline are ignored.
+ */
+const DEFAULT_STAGE_CONFIG: StageConfig = {
+  stage_maps: {
+    hubspot: { closedwon: "Closed Won", closedlost: "Closed Lost" },
+    pipedrive: { won: "Closed Won", lost: "Closed Lost" },
+    close: { won: "Closed Won", lost: "Closed Lost" },
+    zoho: { "Closed-Lost to Competition": "Closed Lost" },
+    dynamics: { Won: "Closed Won", Lost: "Closed Lost" },
+    freshsales: { Won: "Closed Won", Lost: "Closed Lost" },
+    copper: { Won: "Closed Won", Lost: "Closed Lost", Abandoned: "Closed Lost" },
+  },
+  enablement_stages: ["Proposal Sent", "Negotiation"],
+  won_stages: ["Closed Won"],
+  lost_stages: ["Closed Lost"],
+  stage_order: ["Discovery", "Demo", "Proposal Sent", "Negotiation"],
+  suppress_backwards: true,
+  transition_rules: [],
+  _meta: {
+    last_updated: null,
+    version: STAGE_CONFIG_SCHEMA_VERSION,
+  },
+};
+
+/**
+ * Stage rules live next to the KB: data/stage-config.json
+ */
+export function stageConfigPath(kbPath: string): string {
+  return join(dirname(kbPath), "stage-config.json");
+}
+
+export function readStageConfig(path: string): StageConfig {
+  if (!existsSync(path)) {
+    writeJsonAtomic(path, DEFAULT_STAGE_CONFIG);
+    return defaultStageConfig();
   }
-  return false;
+  return parseStageConfig(readJsonFile(path), path);
+}
+
+export function writeStageConfig(path: string, config: StageConfig): void {
+  config._meta.last_updated = new Date().toISOString();
+  withFileLock(path, () => writeJsonAtomic(path, config));
+}
+
+/**
+ * Store stage rules exactly as given — no _meta recalculation.
+ */
+export function replaceStageConfig(path: string, config: StageConfig): void {
+  withFileLock(path, () => writeJsonAtomic(path, config));
+}
+
+export function defaultStageConfig(): StageConfig {
+  return structuredClone(DEFAULT_STAGE_CONFIG);
 }
 
 // ============================================================
-// REMOTE SYNC — push local changes to Railway webhook server
+// FIELD MAPPING
 // ============================================================
 
 /**
- * Configuration for remote sync. Set via environment variables.
- * When SYNC_URL is set, every writeKB / writeRepDirectory call
- * also pushes the update to the remote server.
+ * No overrides — every CRM uses the built-in field paths (see
+ * BUILT_IN_FIELD_MAPS in pipeline/field-map.ts).
  */
-let syncConfig: { url: string; secret: string } | null = null;
+const DEFAULT_FIELD_MAPPING: FieldMapping = {
+  crms: {},
+  _meta: {
+    last_updated: null,
+    version: FIELD_MAPPING_SCHEMA_VERSION,
+  },
+};
 
 /**
- * Enable remote sync. Called once during MCP server startup.
- * Subsequent writeKB / writeRepDirectory calls will push to the remote.
+ * The field mapping lives next to the KB: data/field-mapping.json
  */
-export function enableSync(url: string, secret: string): void {
-  syncConfig = { url: url.replace(/\/+$/, ""), secret };
-  console.log(`[JIT] Sync enabled → ${syncConfig.url}`);
+export function fieldMappingPath(kbPath: string): string {
+  return join(dirname(kbPath), "field-mapping.json");
+}
+
+export function readFieldMapping(path: string): FieldMapping {
+  if (!existsSync(path)) {
+    writeJsonAtomic(path, DEFAULT_FIELD_MAPPING);
+    return defaultFieldMapping();
+  }
+  return parseFieldMapping(readJsonFile(path), path);
+}
+
+export function writeFieldMapping(path: string, mapping: FieldMapping): void {
+  mapping._meta.last_updated = new Date().toISOString();
+  withFileLock(path, () => writeJsonAtomic(path, mapping));
 }
 
 /**
- * Push data to the remote sync endpoint.
- * Fire-and-forget — logs errors but never blocks the caller.
+ * Store a field mapping exactly as given — no _meta recalculation.
  */
-async function pushSync(
-  endpoint: string,
-  data: unknown
-): Promise<void> {
-  if (!syncConfig) return;
+export function replaceFieldMapping(path: string, mapping: FieldMapping): void {
+  withFileLock(path, () => writeJsonAtomic(path, mapping));
+}
+
+export function defaultFieldMapping(): FieldMapping {
+  return structuredClone(DEFAULT_FIELD_MAPPING);
+}
 
-  const url = `${syncConfig.url}${endpoint}`;
+// ============================================================
+// PIPELINE JOBS
+// ============================================================
 
-  try {
-    const response = await fetch(url, {
-      method: "PUT",
-      headers: {
-        "Content-Type": "application/json",
-        "Authorization": `Bearer ${syncConfig.secret}`,
-      },
-      body: JSON.stringify(data),
-    });
-
-    if (response.ok) {
-      const result = await response.json() as Record<string, unknown>;
-      console.log(`[JIT] Sync push OK: ${endpoint} → ${JSON.stringify(result)}`);
-    } else {
-      const text = await response.text();
-      console.error(`[JIT] Sync push failed: ${endpoint} → ${response.status} ${text}`);
-    }
-  } catch (err) {
-    // Network error — don't crash the MCP server
-    console.error(
-      `[JIT] Sync push error: ${endpoint} →`,
-      (err as Error).message
+/** Succeeded jobs beyond this count are pruned, oldest first. */
+export const JOB_HISTORY_LIMIT = 500;
+
+/**
+ * The job queue lives next to the feedback log: data/pipeline-jobs.json
+ */
+export function pipelineJobsPath(feedbackLogPath: string): string {
+  return join(dirname(feedbackLogPath), "pipeline-jobs.json");
+}
+
+/**
+ * Jobs oldest first, optionally only those in `statuses`.
+ */
+export function readPipelineJobs(path: string, statuses?: JobStatus[]): PipelineJob[] {
+  if (!existsSync(path)) return [];
+  const { jobs } = readJsonFile(path) as { jobs: PipelineJob[] };
+  return statuses ? jobs.filter((j) => statuses.includes(j.status)) : jobs;
+}
+
+export function readPipelineJob(path: string, id: string): PipelineJob | null {
+  return readPipelineJobs(path).find((j) => j.id === id) ?? null;
+}
+
+/**
+ * Insert or update a job by id.
+ */
+export function savePipelineJob(path: string, job: PipelineJob): void {
+  withFileLock(path, () => {
+    const jobs = upsertById(readPipelineJobs(path), job);
+    writeJsonAtomic(path, { jobs: prunePipelineJobs(jobs) });
+  });
+}
+
+function prunePipelineJobs(jobs: PipelineJob[]): PipelineJob[] {
+  const succeeded = jobs.filter((j) => j.status === "succeeded");
+  const excess = new Set(
+    succeeded.slice(0, Math.max(0, succeeded.length - JOB_HISTORY_LIMIT))
+  );
+  return jobs.filter((j) => !excess.has(j));
+}
+
+// ============================================================
+// FAILED RUNS (dead letters)
+// ============================================================
+
+/** Failed runs beyond this count are pruned, oldest first. */
+export const FAILED_RUN_HISTORY_LIMIT = 500;
+
+/**
+ * Dead letters live next to the feedback log: data/failed-runs.json
+ */
+export function failedRunsPath(feedbackLogPath: string): string {
+  return join(dirname(feedbackLogPath), "failed-runs.json");
+}
+
+/** Oldest first. */
+export function readFailedRuns(path: string): FailedRun[] {
+  if (!existsSync(path)) return [];
+  return (readJsonFile(path) as { runs: FailedRun[] }).runs;
+}
+
+export function readFailedRun(path: string, id: string): FailedRun | null {
+  return readFailedRuns(path).find((r) => r.id === id) ?? null;
+}
+
+/**
+ * Insert or update a failed run by id.
+ */
+export function saveFailedRun(path: string, run: FailedRun): void {
+  withFileLock(path, () => {
+    const runs = upsertById(readFailedRuns(path), run);
+    writeJsonAtomic(path, { runs: runs.slice(-FAILED_RUN_HISTORY_LIMIT) });
+  });
+}
+
+// ============================================================
+// WEBHOOK KEYS (idempotency)
+// ============================================================
+
+/**
+ * Recent webhook keys live next to the feedback log: data/webhook-keys.json
+ */
+export function webhookKeysPath(feedbackLogPath: string): string {
+  return join(dirname(feedbackLogPath), "webhook-keys.json");
+}
+
+export function readWebhookKeys(path: string): WebhookKey[] {
+  if (!existsSync(path)) return [];
+  return (readJsonFile(path) as { keys: WebhookKey[] }).keys;
+}
+
+export function readWebhookKey(path: string, id: string): WebhookKey | null {
+  return readWebhookKeys(path).find((k) => k.id === id) ?? null;
+}
+
+/**
+ * Insert or update a key by id. Expired keys are dropped on the way.
+ */
+export function saveWebhookKey(path: string, key: WebhookKey): void {
+  withFileLock(path, () => {
+    const now = new Date().toISOString();
+    const keys = upsertById(readWebhookKeys(path), key).filter(
+      (k) => k.id === key.id || k.expires_at > now
     );
-  }
+    writeJsonAtomic(path, { keys });
+  });
+}
+
+// ============================================================
+// DEAL STATES (the deal store)
+// ============================================================
+
+const DAY_MS = 24 * 60 * 60_000;
+
+/** Closed deals are pruned this long after their last update. */
+export const CLOSED_DEAL_RETENTION_MS = 180 * DAY_MS;
+
+/** Open deals no webhook has touched for this long are pruned too. */
+export const STALE_DEAL_RETENTION_MS = 365 * DAY_MS;
+
+/**
+ * The updated_at before which closed and open deals are pruned.
+ */
+export function dealRetentionCutoffs(now = Date.now()): { closed: string; stale: string } {
+  return {
+    closed: new Date(now - CLOSED_DEAL_RETENTION_MS).toISOString(),
+    stale: new Date(now - STALE_DEAL_RETENTION_MS).toISOString(),
+  };
+}
+
+/**
+ * Deal states live next to the feedback log: data/deal-states.json
+ */
+export function dealStatesPath(feedbackLogPath: string): string {
+  return join(dirname(feedbackLogPath), "deal-states.json");
+}
+
+export function readDealStates(path: string): DealState[] {
+  if (!existsSync(path)) return [];
+  return (readJsonFile(path) as { deals: DealState[] }).deals;
+}
+
+export function readDealState(path: string, id: string): DealState | null {
+  return readDealStates(path).find((d) => d.id === id) ?? null;
+}
+
+/**
+ * Every deal with this CRM deal ID, or with this name (case-insensitive)
+ * — several if the name is reused.
+ */
+export function findDealStates(path: string, dealIdOrName: string): DealState[] {
+  const target = dealIdOrName.trim().toLowerCase();
+  return readDealStates(path).filter(
+    (d) => d.deal_id === dealIdOrName.trim() || d.deal_name.trim().toLowerCase() === target
+  );
+}
+
+/**
+ * Insert or update a deal state by id. Closed and stale deals are
+ * dropped on the way.
+ */
+export function saveDealState(path: string, deal: DealState): void {
+  withFileLock(path, () => {
+    const cutoff = dealRetentionCutoffs();
+    const deals = upsertById(readDealStates(path), deal).filter(
+      (d) =>
+        d.id === deal.id ||
+        (d.updated_at > cutoff.stale && (d.outcome === null || d.updated_at > cutoff.closed))
+    );
+    writeJsonAtomic(path, { deals });
+  });
 }
 
 // ============================================================
 // HELPERS
 // ============================================================
 
+function upsertById<T extends { id: string }>(items: T[], item: T): T[] {
+  const index = items.findIndex((i) => i.id === item.id);
+  if (index >= 0) items[index] = item;
+  else items.push(item);
+  return items;
+}
+
+function readJsonFile(path: string): unknown {
+  const raw = readFileSync(path, "utf-8");
+  try {
+    return JSON.parse(raw);
+  } catch (err) {
+    throw new DataValidationError(path, [`not valid JSON — ${(err as Error).message}`]);
+  }
+}
+
 function ensureDir(filePath: string): void {
   const dir = dirname(filePath);
   if (!existsSync(dir)) {
@@ -294,7 +748,7 @@ function ensureDir(filePath: string): void {
 }
 
 /**
- * Exported version of ensureDir for use by sync routes.
+ * Exported version of ensureDir for use by the SQLite backend.
  */
 export function ensureDirForPath(filePath: string): void {
   ensureDir(filePath);
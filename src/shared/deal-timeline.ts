@@ -0,0 +1,135 @@
+/**
+ * Deal timeline — one deal's story from the deal store and the feedback
+ * log: stage changes, packages sent, reactions, replies, call intel and
+ * the close, in order.
+ *
+ * Served by GET /api/deals/timeline and read locally by the
+ * get_deal_timeline MCP tool when sync isn't configured.
+ */
+
+import type { Storage } from "./storage.js";
+import type { DealState, DealTimeline, FeedbackLog } from "./types.js";
+import { isSameDeal } from "./id.js";
+
+export interface TimelineEvent {
+  at: string;
+  kind: "stage" | "delivery" | "reaction" | "reply" | "call_intel" | "outcome";
+  text: string;
+}
+
+/**
+ * Timelines for the deal with this CRM deal ID, or every deal with this
+ * name (case-insensitive) — usually one, more if the name is reused.
+ * Empty if neither is known.
+ */
+export function readDealTimelines(storage: Storage, dealIdOrName: string): DealTimeline[] {
+  const key = dealIdOrName.trim();
+  const deals = storage.findDealStates(key);
+  const log = storage.readFeedbackLog();
+
+  if (deals.length === 0) {
+    const timeline = assemble(
+      { deal_id: key, deal_name: key },
+      null,
+      log,
+      (entry) => entry.deal_id === key || isSameDeal({ deal_name: entry.deal_name }, { deal_name: key })
+    );
+    return timeline.deliveries.length > 0 || timeline.feedback.length > 0 ? [timeline] : [];
+  }
+
+  return deals.map((deal) => {
+    // Entries with no deal ID can't be told apart between deals sharing a name
+    const nameIsShared = storage.findDealStates(deal.deal_name).length > 1;
+    return assemble(deal, deal, log, (entry) =>
+      entry.deal_id && deal.deal_id
+        ? entry.deal_id === deal.deal_id
+        : !nameIsShared && isSameDeal({ deal_name: entry.deal_name }, deal)
+    );
+  });
+}
+
+/**
+ * Everything on the timeline, oldest first.
+ */
+export function timelineEvents(timeline: DealTimeline): TimelineEvent[] {
+  const events: TimelineEvent[] = [];
+
+  for (const change of timeline.deal?.stage_history ?? []) {
+    const from = change.from ? ` (from ${change.from})` : "";
+    const effect =
+      change.action === "enablement"
+        ? "enablement queued"
+        : change.action === "outcome"
+          ? "outcome"
+          : `ignored — ${change.reason}`;
+    events.push({ at: change.at, kind: "stage", text: `Stage → ${change.stage}${from}: ${effect}` });
+  }
+
+  for (const delivery of timeline.deliveries) {
+    const outcome =
+      delivery.status === "failed"
+        ? `failed (${delivery.error_code}) after ${delivery.attempts ?? 0} attempt(s)`
+        : delivery.status === "queued"
+          ? `queued, ${delivery.attempts ?? 0} attempt(s) so far`
+          : "sent";
+    events.push({
+      at: delivery.timestamp,
+      kind: "delivery",
+      text: `Package ${outcome} at ${delivery.deal_stage} via ${delivery.channel} to ${delivery.rep_id} [${delivery.delivery_id}]`,
+    });
+  }
+
+  for (const entry of timeline.feedback) {
+    const text =
+      entry.source === "reaction"
+        ? `Rep reacted: ${entry.value}`
+        : entry.source === "reply"
+          ? `Rep replied: "${truncate(entry.raw_text ?? entry.value, 120)}"`
+          : entry.source === "call_intel"
+            ? `Call intel: "${truncate(entry.raw_text ?? entry.value, 120)}"`
+            : `Closed ${entry.value === "closed_won" ? "won" : "lost"}`;
+    events.push({ at: entry.timestamp, kind: entry.source, text });
+  }
+
+  // A close with no package before it has no outcome entry in the log
+  const outcome = timeline.deal?.outcome;
+  if (outcome && !outcome.feedback_id) {
+    events.push({
+      at: outcome.at,
+      kind: "outcome",
+      text: `Closed ${outcome.result} at ${outcome.stage} (no package was sent)`,
+    });
+  }
+
+  return events.sort((a, b) => a.at.localeCompare(b.at));
+}
+
+// ── Helpers ─────────────────────────────────────────────────
+
+/**
+ * The deal's linked deliveries and feedback, plus log entries `belongs`
+ * claims for it (linking only started with the deal store).
+ */
+function assemble(
+  target: { deal_id: string; deal_name: string },
+  deal: DealState | null,
+  log: FeedbackLog,
+  belongs: (entry: { deal_id?: string; deal_name: string }) => boolean
+): DealTimeline {
+  const named = (entry: { deal_name: string }) => entry.deal_name !== "" && belongs(entry);
+
+  const deliveryIds = new Set(deal?.delivery_ids ?? []);
+  const deliveries = log.deliveries.filter((d) => deliveryIds.has(d.delivery_id) || named(d));
+  for (const d of deliveries) deliveryIds.add(d.delivery_id);
+
+  const feedbackIds = new Set(deal?.feedback_ids ?? []);
+  const feedback = log.feedback.filter(
+    (f) => feedbackIds.has(f.id) || deliveryIds.has(f.delivery_id) || named(f)
+  );
+
+  return { deal_name: target.deal_name, deal, deliveries, feedback };
+}
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max)}...` : text;
+}
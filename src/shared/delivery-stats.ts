@@ -0,0 +1,54 @@
+/**
+ * Delivery stats — how many enablement packages reached reps, how many
+ * are still being retried, and how many failed and why.
+ *
+ * Read by get_feedback_summary. Deliveries logged before statuses were
+ * recorded count as sent.
+ */
+
+import type { DeliveryEntry } from "./types.js";
+
+export interface DeliveryFailureCause {
+  error_code: string; // "channel_not_found", "403", "request_failed"...
+  count: number;
+  example: string; // The latest error message with this code
+}
+
+export interface DeliveryStats {
+  total: number;
+  sent: number;
+  queued: number;
+  failed: number;
+  failure_rate: number; // Percent of finished deliveries (sent + failed) that failed
+  top_causes: DeliveryFailureCause[]; // Most common first
+}
+
+/** Whether a delivery reached the rep. */
+export function isDelivered(entry: DeliveryEntry): boolean {
+  return entry.status === undefined || entry.status === "sent";
+}
+
+export function deliveryStats(deliveries: DeliveryEntry[], topCauses = 5): DeliveryStats {
+  const sent = deliveries.filter(isDelivered).length;
+  const queued = deliveries.filter((d) => d.status === "queued").length;
+  const failures = deliveries.filter((d) => d.status === "failed");
+
+  const causes = new Map<string, DeliveryFailureCause>();
+  for (const entry of failures) {
+    const code = entry.error_code ?? "unknown";
+    const cause = causes.get(code) ?? { error_code: code, count: 0, example: "" };
+    cause.count++;
+    cause.example = entry.error_message ?? cause.example;
+    causes.set(code, cause);
+  }
+
+  const finished = sent + failures.length;
+  return {
+    total: deliveries.length,
+    sent,
+    queued,
+    failed: failures.length,
+    failure_rate: finished > 0 ? Math.round((failures.length / finished) * 100) : 0,
+    top_causes: [...causes.values()].sort((a, b) => b.count - a.count).slice(0, topCauses),
+  };
+}
@@ -0,0 +1,157 @@
+/**
+ * Crash-safe and concurrency-safe file writes for the JSON data files.
+ *
+ * - writeJsonAtomic: writes to a temp file in the same directory, fsyncs,
+ *   then renames over the target. A crash mid-write leaves the old file
+ *   intact instead of a truncated one.
+ * - withFileLock: an exclusive lock file (<path>.lock) held for the whole
+ *   read-modify-write cycle, so the MCP server and webhook server can
+ *   append to the same feedback log without losing entries.
+ *
+ * Everything here is synchronous — the data layer is synchronous, and a
+ * lock that spans an await would let other callbacks in this process
+ * slip in between the read and the write.
+ */
+
+import {
+  openSync,
+  writeSync,
+  fsyncSync,
+  closeSync,
+  renameSync,
+  unlinkSync,
+  statSync,
+  existsSync,
+  mkdirSync,
+} from "fs";
+import { dirname, basename, join } from "path";
+
+/** A lock older than this is assumed to belong to a crashed process. */
+const LOCK_STALE_MS = 10_000;
+
+/** Give up waiting for a lock after this long. */
+const LOCK_TIMEOUT_MS = 5_000;
+
+const LOCK_RETRY_MS = 5;
+
+// Locks this process currently holds. Nested calls for the same path
+// (e.g. appendDelivery → writeFeedbackLog) run without re-acquiring.
+const heldLocks = new Set<string>();
+
+let tmpCounter = 0;
+
+/**
+ * Write JSON to `path` atomically (temp file + fsync + rename).
+ */
+export function writeJsonAtomic(path: string, data: unknown): void {
+  const dir = dirname(path);
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true });
+  }
+
+  const tmpPath = join(
+    dir,
+    `.${basename(path)}.${process.pid}.${tmpCounter++}.tmp`
+  );
+
+  try {
+    const fd = openSync(tmpPath, "w");
+    try {
+      writeSync(fd, JSON.stringify(data, null, 2));
+      fsyncSync(fd);
+    } finally {
+      closeSync(fd);
+    }
+    renameSync(tmpPath, path);
+  } catch (err) {
+    // Failed writes (unserializable data, full disk) mustn't leave the temp file behind
+    try {
+      unlinkSync(tmpPath);
+    } catch {
+      // Temp file already gone — nothing to clean up
+    }
+    throw err;
+  }
+}
+
+/**
+ * Run `fn` while holding an exclusive lock on `path`.
+ *
+ * The lock is a sibling file created with O_EXCL. Stale locks (older
+ * than LOCK_STALE_MS) are broken so a crashed process can't wedge the
+ * data directory. Throws if the lock can't be acquired in LOCK_TIMEOUT_MS.
+ */
+export function withFileLock<T>(path: string, fn: () => T): T {
+  if (heldLocks.has(path)) {
+    return fn();
+  }
+
+  const lockPath = `${path}.lock`;
+  acquireLock(lockPath);
+  heldLocks.add(path);
+
+  try {
+    return fn();
+  } finally {
+    heldLocks.delete(path);
+    try {
+      unlinkSync(lockPath);
+    } catch {
+      // Lock was broken as stale by another process — nothing to release
+    }
+  }
+}
+
+function acquireLock(lockPath: string): void {
+  const dir = dirname(lockPath);
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true });
+  }
+
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+
+  for (;;) {
+    try {
+      const fd = openSync(lockPath, "wx");
+      writeSync(fd, String(process.pid));
+      closeSync(fd);
+      return;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "EEXIST") throw err;
+    }
+
+    if (isStale(lockPath)) {
+      try {
+        unlinkSync(lockPath);
+        console.error(`[JIT] Broke stale lock: ${lockPath}`);
+      } catch {
+        // Another process broke it first
+      }
+      continue;
+    }
+
+    if (Date.now() > deadline) {
+      throw new Error(
+        `Timed out waiting for lock on ${lockPath}. ` +
+          "If no other JIT process is running, delete the .lock file."
+      );
+    }
+
+    sleepSync(LOCK_RETRY_MS);
+  }
+}
+
+function isStale(lockPath: string): boolean {
+  try {
+    return Date.now() - statSync(lockPath).mtimeMs > LOCK_STALE_MS;
+  } catch {
+    // Lock disappeared between open and stat — retry immediately
+    return false;
+  }
+}
+
+const sleepBuffer = new Int32Array(new SharedArrayBuffer(4));
+
+function sleepSync(ms: number): void {
+  Atomics.wait(sleepBuffer, 0, 0, ms);
+}
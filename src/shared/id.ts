@@ -2,7 +2,8 @@
  * ID generation utilities.
  *
  * Generates sequential IDs for KB entries (cs-001, cp-002)
- * and timestamp-based IDs for deliveries (del-lx3k9f).
+ * and timestamp-based IDs for deliveries, feedback and jobs (del-lx3k9f),
+ * and matching records to a deal by its CRM ID.
  */
 
 /**
@@ -45,3 +46,25 @@ export function generateDeliveryId(): string {
 export function generateFeedbackId(): string {
   return `fb-${Date.now().toString(36)}-${(_counter++).toString(36)}`;
 }
+
+/**
+ * Generate a pipeline job ID using timestamp base-36 encoding + counter.
+ *
+ * @example generateJobId() → "job-lx3k9f7-2"
+ */
+export function generateJobId(): string {
+  return `job-${Date.now().toString(36)}-${(_counter++).toString(36)}`;
+}
+
+/**
+ * Whether two records are about the same deal: by CRM deal ID when both
+ * have one, else by name (case-insensitive). Two "Acme Renewal" deals
+ * with different IDs are different deals.
+ */
+export function isSameDeal(
+  a: { deal_id?: string; deal_name: string },
+  b: { deal_id?: string; deal_name: string }
+): boolean {
+  if (a.deal_id && b.deal_id) return a.deal_id === b.deal_id;
+  return a.deal_name.trim().toLowerCase() === b.deal_name.trim().toLowerCase();
+}
@@ -0,0 +1,228 @@
+/**
+ * KB diff — compares two knowledge base states entry by entry.
+ *
+ * Entries are matched by ID. An entry present in both states whose
+ * content differs is reported as changed. Used by the diff_kb_versions,
+ * rollback_kb and pull_sync MCP tools, and by the sync routes' 409
+ * conflict responses (which also diff the rep directory, by email, the
+ * stage rules, mapping by mapping, and the field mapping, field by
+ * field).
+ */
+
+import type {
+  KnowledgeBase,
+  CaseStudy,
+  CompetitorPositioning,
+  ObjectionEntry,
+  RepDirectory,
+  StageConfig,
+  FieldMapping,
+} from "./types.js";
+
+export interface KBSectionDiff {
+  added: string[];
+  removed: string[];
+  changed: string[];
+}
+
+export interface KBDiff {
+  case_studies: KBSectionDiff;
+  competitor_positioning: KBSectionDiff;
+  objection_library: KBSectionDiff;
+  methodology_changed: boolean;
+}
+
+/**
+ * Diff two KB states. Entries are labelled "id (name)" so the PMM can
+ * recognise them without looking up IDs.
+ */
+export function diffKB(from: KnowledgeBase, to: KnowledgeBase): KBDiff {
+  return {
+    case_studies: diffSection<CaseStudy>(
+      from.case_studies || [],
+      to.case_studies || [],
+      (cs) => cs.company
+    ),
+    competitor_positioning: diffSection<CompetitorPositioning>(
+      from.competitor_positioning || [],
+      to.competitor_positioning || [],
+      (cp) => `vs. ${cp.competitor}`
+    ),
+    objection_library: diffSection<ObjectionEntry>(
+      from.objection_library || [],
+      to.objection_library || [],
+      (ob) => truncate(ob.objection, 40)
+    ),
+    methodology_changed:
+      JSON.stringify(from.methodology ?? null) !==
+      JSON.stringify(to.methodology ?? null),
+  };
+}
+
+export function isEmptyDiff(diff: KBDiff): boolean {
+  const sections = [
+    diff.case_studies,
+    diff.competitor_positioning,
+    diff.objection_library,
+  ];
+  return (
+    !diff.methodology_changed &&
+    sections.every(
+      (s) => s.added.length === 0 && s.removed.length === 0 && s.changed.length === 0
+    )
+  );
+}
+
+/**
+ * Render a diff as markdown lines for an MCP tool response.
+ */
+export function formatKBDiff(diff: KBDiff): string {
+  if (isEmptyDiff(diff)) return "No differences.";
+
+  const lines: string[] = [];
+  const sections: Array<[string, KBSectionDiff]> = [
+    ["Case Studies", diff.case_studies],
+    ["Competitor Positioning", diff.competitor_positioning],
+    ["Objection Library", diff.objection_library],
+  ];
+
+  for (const [label, section] of sections) {
+    if (
+      section.added.length === 0 &&
+      section.removed.length === 0 &&
+      section.changed.length === 0
+    ) {
+      continue;
+    }
+    lines.push(`**${label}:**`);
+    for (const entry of section.added) lines.push(`  + ${entry}`);
+    for (const entry of section.removed) lines.push(`  - ${entry}`);
+    for (const entry of section.changed) lines.push(`  ~ ${entry}`);
+  }
+
+  if (diff.methodology_changed) {
+    lines.push("**Methodology:** changed");
+  }
+
+  return lines.join("\n");
+}
+
+// ── Rep directory ──────────────────────────────────────────
+
+/**
+ * Diff two rep directories. Reps are matched by email (case-insensitive).
+ */
+export function diffRepDirectory(from: RepDirectory, to: RepDirectory): KBSectionDiff {
+  const byEmail = (dir: RepDirectory) =>
+    (dir.reps || []).map((rep) => ({ ...rep, id: rep.email.toLowerCase() }));
+  return diffSection(byEmail(from), byEmail(to), (rep) => rep.name);
+}
+
+export function formatRepDirectoryDiff(diff: KBSectionDiff): string {
+  if (diff.added.length === 0 && diff.removed.length === 0 && diff.changed.length === 0) {
+    return "No differences.";
+  }
+  return [
+    "**Reps:**",
+    ...diff.added.map((rep) => `  + ${rep}`),
+    ...diff.removed.map((rep) => `  - ${rep}`),
+    ...diff.changed.map((rep) => `  ~ ${rep}`),
+  ].join("\n");
+}
+
+// ── Stage rules ────────────────────────────────────────────
+
+/**
+ * Diff two stage configs. Mappings are labelled "crm: stage (canonical)",
+ * transition rules "from → to (action)", and each trigger list, the
+ * stage order and the backwards setting count as one entry.
+ */
+export function diffStageConfig(from: StageConfig, to: StageConfig): KBSectionDiff {
+  const entries = (config: StageConfig) => [
+    ...Object.entries(config.stage_maps || {}).flatMap(([crm, map]) =>
+      Object.entries(map).map(([stage, canonical]) => ({ id: `${crm}: ${stage}`, canonical }))
+    ),
+    { id: "enablement_stages", canonical: (config.enablement_stages || []).join(", ") },
+    { id: "won_stages", canonical: (config.won_stages || []).join(", ") },
+    { id: "lost_stages", canonical: (config.lost_stages || []).join(", ") },
+    { id: "stage_order", canonical: (config.stage_order || []).join(" → ") },
+    { id: "suppress_backwards", canonical: String(config.suppress_backwards ?? true) },
+    ...(config.transition_rules || []).map((rule) => ({
+      id: `${rule.from} → ${rule.to}`,
+      canonical: rule.action,
+    })),
+  ];
+  return diffSection(entries(from), entries(to), (e) => e.canonical || "none");
+}
+
+export function formatStageConfigDiff(diff: KBSectionDiff): string {
+  if (diff.added.length === 0 && diff.removed.length === 0 && diff.changed.length === 0) {
+    return "No differences.";
+  }
+  return [
+    "**Stage rules:**",
+    ...diff.added.map((rule) => `  + ${rule}`),
+    ...diff.removed.map((rule) => `  - ${rule}`),
+    ...diff.changed.map((rule) => `  ~ ${rule}`),
+  ].join("\n");
+}
+
+// ── Field mapping ──────────────────────────────────────────
+
+/**
+ * Diff two field mappings. Each CRM field is one entry, labelled
+ * "crm: field (paths | transforms)".
+ */
+export function diffFieldMapping(from: FieldMapping, to: FieldMapping): KBSectionDiff {
+  const entries = (mapping: FieldMapping) =>
+    Object.entries(mapping.crms || {}).flatMap(([crm, fields]) =>
+      Object.entries(fields).map(([field, rule]) => ({
+        id: `${crm}: ${field}`,
+        rule: [rule.paths.join(", "), rule.transforms.join(", ")].filter(Boolean).join(" | "),
+      }))
+    );
+  return diffSection(entries(from), entries(to), (e) => e.rule);
+}
+
+export function formatFieldMappingDiff(diff: KBSectionDiff): string {
+  if (diff.added.length === 0 && diff.removed.length === 0 && diff.changed.length === 0) {
+    return "No differences.";
+  }
+  return [
+    "**Field mapping:**",
+    ...diff.added.map((rule) => `  + ${rule}`),
+    ...diff.removed.map((rule) => `  - ${rule}`),
+    ...diff.changed.map((rule) => `  ~ ${rule}`),
+  ].join("\n");
+}
+
+// ── Helpers ────────────────────────────────────────────────
+
+function diffSection<T extends { id: string }>(
+  from: T[],
+  to: T[],
+  label: (entry: T) => string
+): KBSectionDiff {
+  const fromById = new Map(from.map((e) => [e.id, e]));
+  const toById = new Map(to.map((e) => [e.id, e]));
+  const describe = (e: T) => `${e.id} (${label(e)})`;
+
+  const diff: KBSectionDiff = { added: [], removed: [], changed: [] };
+
+  for (const entry of to) {
+    const before = fromById.get(entry.id);
+    if (!before) diff.added.push(describe(entry));
+    else if (JSON.stringify(before) !== JSON.stringify(entry)) {
+      diff.changed.push(describe(entry));
+    }
+  }
+  for (const entry of from) {
+    if (!toById.has(entry.id)) diff.removed.push(describe(entry));
+  }
+
+  return diff;
+}
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max)}...` : text;
+}
@@ -0,0 +1,194 @@
+#!/usr/bin/env node
+
+/**
+ * One-shot migration — copy the JSON data files into SQLite.
+ *
+ * Reads knowledge-base.json, feedback-log.json, rep-directory.json,
+ * stage-config.json, field-mapping.json, pipeline-jobs.json,
+ * failed-runs.json and deal-states.json from DATA_DIR and writes them into the SQLite
+ * database at SQLITE_PATH. The JSON files are left untouched so you can
+ * roll back by switching STORAGE_BACKEND back to "json".
+ *
+ * Entry point: npm run migrate:sqlite [-- --force]
+ */
+
+import { existsSync } from "fs";
+import { loadMcpConfig } from "./config.js";
+import {
+  readKB,
+  readFeedbackLog,
+  readRepDirectory,
+  stageConfigPath,
+  readStageConfig,
+  fieldMappingPath,
+  readFieldMapping,
+  kbVersionsDir,
+  listKBVersions,
+  readKBVersion,
+  pipelineJobsPath,
+  readPipelineJobs,
+  failedRunsPath,
+  readFailedRuns,
+  dealStatesPath,
+  readDealStates,
+} from "./data.js";
+import { createSqliteStorage } from "./storage-sqlite.js";
+import type { JsonStoragePaths } from "./storage-json.js";
+
+export interface MigrationResult {
+  kb_entries: number;
+  kb_versions: number;
+  deliveries: number;
+  feedback: number;
+  reps: number;
+  stage_mappings: number;
+  mapped_fields: number;
+  jobs: number;
+  failed_runs: number;
+  deal_states: number;
+}
+
+/**
+ * Copy every JSON data file that exists into the SQLite database.
+ *
+ * Refuses to overwrite a database that already holds data unless
+ * `force` is set — running the migration twice should never clobber
+ * deliveries recorded since the first run.
+ */
+export function migrateJsonToSqlite(
+  source: JsonStoragePaths,
+  sqlitePath: string,
+  options: { force?: boolean } = {}
+): MigrationResult {
+  const target = createSqliteStorage(sqlitePath);
+
+  try {
+    if (!options.force) {
+      const hasData =
+        target.readKB()._meta.entry_count > 0 ||
+        target.readFeedbackLog()._meta.total_deliveries > 0 ||
+        target.readRepDirectory().reps.length > 0;
+      if (hasData) {
+        throw new Error(
+          `SQLite database at ${sqlitePath} already contains data. ` +
+            "Re-run with --force to overwrite it."
+        );
+      }
+    }
+
+    const result: MigrationResult = {
+      kb_entries: 0,
+      kb_versions: 0,
+      deliveries: 0,
+      feedback: 0,
+      reps: 0,
+      stage_mappings: 0,
+      mapped_fields: 0,
+      jobs: 0,
+      failed_runs: 0,
+      deal_states: 0,
+    };
+
+    // Version history first (oldest → newest), then the current KB on top
+    const versionsDir = kbVersionsDir(source.kbPath);
+    for (const summary of listKBVersions(versionsDir).reverse()) {
+      const entry = readKBVersion(versionsDir, summary.version);
+      if (!entry) continue;
+      target.replaceKB(entry.kb, { author: entry.author, source: entry.source });
+      result.kb_versions++;
+    }
+
+    if (existsSync(source.kbPath)) {
+      const kb = readKB(source.kbPath);
+      target.replaceKB(kb);
+      result.kb_entries = kb._meta.entry_count;
+    }
+
+    if (existsSync(source.feedbackLogPath)) {
+      const log = readFeedbackLog(source.feedbackLogPath);
+      target.replaceFeedbackLog(log);
+      result.deliveries = log.deliveries.length;
+      result.feedback = log.feedback.length;
+    }
+
+    if (existsSync(source.repDirectoryPath)) {
+      const dir = readRepDirectory(source.repDirectoryPath);
+      target.replaceRepDirectory(dir);
+      result.reps = dir.reps.length;
+    }
+
+    const stagesPath = stageConfigPath(source.kbPath);
+    if (existsSync(stagesPath)) {
+      const stages = readStageConfig(stagesPath);
+      target.replaceStageConfig(stages);
+      result.stage_mappings = Object.values(stages.stage_maps).reduce(
+        (n, map) => n + Object.keys(map).length,
+        0
+      );
+    }
+
+    const mappingPath = fieldMappingPath(source.kbPath);
+    if (existsSync(mappingPath)) {
+      const mapping = readFieldMapping(mappingPath);
+      target.replaceFieldMapping(mapping);
+      result.mapped_fields = Object.values(mapping.crms).reduce(
+        (n, fields) => n + Object.keys(fields).length,
+        0
+      );
+    }
+
+    // Pending jobs carry on under SQLite; finished ones keep their history
+    for (const job of readPipelineJobs(pipelineJobsPath(source.feedbackLogPath))) {
+      target.saveJob(job);
+      result.jobs++;
+    }
+    for (const run of readFailedRuns(failedRunsPath(source.feedbackLogPath))) {
+      target.saveFailedRun(run);
+      result.failed_runs++;
+    }
+    for (const deal of readDealStates(dealStatesPath(source.feedbackLogPath))) {
+      target.saveDealState(deal);
+      result.deal_states++;
+    }
+
+    return result;
+  } finally {
+    target.close();
+  }
+}
+
+// ── Run if invoked directly ──────────────────────────────
+
+const isMainModule =
+  import.meta.url === `file://${process.argv[1]}` ||
+  process.argv[1]?.endsWith("shared/migrate.js");
+
+if (isMainModule) {
+  try {
+    const config = loadMcpConfig();
+    const result = migrateJsonToSqlite(config, config.sqlitePath, {
+      force: process.argv.includes("--force"),
+    });
+
+    console.log("");
+    console.log("JSON → SQLite migration complete");
+    console.log("─────────────────────────────────────────");
+    console.log(`  Database:    ${config.sqlitePath}`);
+    console.log(`  KB entries:  ${result.kb_entries}`);
+    console.log(`  KB versions: ${result.kb_versions}`);
+    console.log(`  Deliveries:  ${result.deliveries}`);
+    console.log(`  Feedback:    ${result.feedback}`);
+    console.log(`  Reps:        ${result.reps}`);
+    console.log(`  Stage maps:  ${result.stage_mappings}`);
+    console.log(`  Field maps:  ${result.mapped_fields}`);
+    console.log(`  Jobs:        ${result.jobs}`);
+    console.log(`  Failed runs: ${result.failed_runs}`);
+    console.log(`  Deal states: ${result.deal_states}`);
+    console.log("");
+    console.log("  Set STORAGE_BACKEND=sqlite to start using it.");
+    console.log("");
+  } catch (err) {
+    console.error("Migration failed:", (err as Error).message);
+    process.exit(1);
+  }
+}
@@ -0,0 +1,184 @@
+/**
+ * JSON storage backend — wraps the file primitives in data.ts.
+ *
+ * knowledge-base.json, feedback-log.json, rep-directory.json,
+ * stage-config.json, field-mapping.json, pipeline-jobs.json,
+ * failed-runs.json, webhook-keys.json and deal-states.json live in
+ * DATA_DIR. Every append rewrites the whole file, which is fine for
+ * small teams; switch to the SQLite backend once the log grows.
+ */
+
+import {
+  readKB,
+  writeKB,
+  replaceKB,
+  readFeedbackLog,
+  readFeedbackPage,
+  newFeedbackLogGeneration,
+  replaceFeedbackLog,
+  readDelivery,
+  findDeliveryByMessageRef,
+  appendDelivery,
+  saveDelivery,
+  appendFeedback,
+  readRepDirectory,
+  writeRepDirectory,
+  replaceRepDirectory,
+  findRepByEmail,
+  findRepByTelegramChatId,
+  upsertRep,
+  removeRep,
+  stageConfigPath,
+  readStageConfig,
+  writeStageConfig,
+  replaceStageConfig,
+  fieldMappingPath,
+  readFieldMapping,
+  writeFieldMapping,
+  replaceFieldMapping,
+  kbVersionsDir,
+  stampKBRevision,
+  toKBVersion,
+  saveKBVersion,
+  readKBVersion,
+  listKBVersions,
+  latestKBVersion,
+  pipelineJobsPath,
+  readPipelineJobs,
+  readPipelineJob,
+  savePipelineJob,
+  failedRunsPath,
+  readFailedRuns,
+  readFailedRun,
+  saveFailedRun,
+  webhookKeysPath,
+  readWebhookKey,
+  saveWebhookKey,
+  dealStatesPath,
+  readDealState,
+  findDealStates,
+  saveDealState,
+  UNKNOWN_CHANGE,
+} from "./data.js";
+import { withFileLock } from "./file-io.js";
+import { pushSync } from "./sync.js";
+import type { Storage } from "./storage.js";
+
+export interface JsonStoragePaths {
+  kbPath: string;
+  feedbackLogPath: string;
+  repDirectoryPath: string;
+}
+
+export function createJsonStorage(paths: JsonStoragePaths): Storage {
+  const { kbPath, feedbackLogPath, repDirectoryPath } = paths;
+  const versionsDir = kbVersionsDir(kbPath);
+  const stagesPath = stageConfigPath(kbPath);
+  const fieldsPath = fieldMappingPath(kbPath);
+  const jobsPath = pipelineJobsPath(feedbackLogPath);
+  const deadLetterPath = failedRunsPath(feedbackLogPath);
+  const keysPath = webhookKeysPath(feedbackLogPath);
+  const dealsPath = dealStatesPath(feedbackLogPath);
+
+  const nextRevision = () =>
+    Math.max(latestKBVersion(versionsDir), readKB(kbPath)._meta.revision ?? 0) + 1;
+
+  const pushRepDirectory = () => {
+    pushSync("/api/rep-directory", readRepDirectory(repDirectoryPath)).catch(
+      () => {}
+    );
+  };
+
+  return {
+    backend: "json",
+
+    readKB: () => readKB(kbPath),
+    writeKB(kb, change = UNKNOWN_CHANGE) {
+      withFileLock(kbPath, () => {
+        stampKBRevision(kb, nextRevision(), change);
+        writeKB(kbPath, kb);
+        saveKBVersion(versionsDir, toKBVersion(kb, change));
+      });
+      // Push to remote if sync is enabled (fire-and-forget)
+      pushSync("/api/kb", kb).catch(() => {});
+    },
+    replaceKB(kb, change) {
+      withFileLock(kbPath, () => {
+        if (change) {
+          kb._meta.revision ??= nextRevision();
+          saveKBVersion(versionsDir, toKBVersion(kb, change));
+        }
+        replaceKB(kbPath, kb);
+      });
+    },
+
+    listKBVersions: (limit) => listKBVersions(versionsDir, limit),
+    readKBVersion: (version) => readKBVersion(versionsDir, version),
+
+    readFeedbackLog: () => readFeedbackLog(feedbackLogPath),
+    getDelivery: (deliveryId) => readDelivery(feedbackLogPath, deliveryId),
+    findDeliveryByMessageRef: (ref) => findDeliveryByMessageRef(feedbackLogPath, ref),
+    appendDelivery: (entry) => appendDelivery(feedbackLogPath, entry),
+    saveDelivery: (entry) => saveDelivery(feedbackLogPath, entry),
+    appendFeedback: (entry) => appendFeedback(feedbackLogPath, entry),
+    readFeedbackPage: (afterDeliveries, afterFeedback, limit) =>
+      readFeedbackPage(feedbackLogPath, afterDeliveries, afterFeedback, limit),
+    replaceFeedbackLog: (log) =>
+      replaceFeedbackLog(feedbackLogPath, {
+        ...log,
+        _meta: { ...log._meta, generation: newFeedbackLogGeneration() },
+      }),
+
+    readRepDirectory: () => readRepDirectory(repDirectoryPath),
+    writeRepDirectory(dir) {
+      writeRepDirectory(repDirectoryPath, dir);
+      pushSync("/api/rep-directory", dir).catch(() => {});
+    },
+    replaceRepDirectory: (dir) => replaceRepDirectory(repDirectoryPath, dir),
+    findRepByEmail: (email) => findRepByEmail(repDirectoryPath, email),
+    findRepByTelegramChatId: (chatId) =>
+      findRepByTelegramChatId(repDirectoryPath, chatId),
+    upsertRep(rep) {
+      upsertRep(repDirectoryPath, rep);
+      pushRepDirectory();
+    },
+    removeRep(email) {
+      const removed = removeRep(repDirectoryPath, email);
+      if (removed) pushRepDirectory();
+      return removed;
+    },
+
+    readStageConfig: () => readStageConfig(stagesPath),
+    writeStageConfig(config) {
+      writeStageConfig(stagesPath, config);
+      pushSync("/api/stage-config", config).catch(() => {});
+    },
+    replaceStageConfig: (config) => replaceStageConfig(stagesPath, config),
+
+    readFieldMapping: () => readFieldMapping(fieldsPath),
+    writeFieldMapping(mapping) {
+      writeFieldMapping(fieldsPath, mapping);
+      pushSync("/api/field-mapping", mapping).catch(() => {});
+    },
+    replaceFieldMapping: (mapping) => replaceFieldMapping(fieldsPath, mapping),
+
+    listJobs: (statuses) => readPipelineJobs(jobsPath, statuses),
+    getJob: (id) => readPipelineJob(jobsPath, id),
+    saveJob: (job) => savePipelineJob(jobsPath, job),
+
+    listFailedRuns: () => readFailedRuns(deadLetterPath),
+    getFailedRun: (id) => readFailedRun(deadLetterPath, id),
+    saveFailedRun: (run) => saveFailedRun(deadLetterPath, run),
+
+    getWebhookKey: (id) => readWebhookKey(keysPath, id),
+    saveWebhookKey: (key) => saveWebhookKey(keysPath, key),
+
+    getDealState: (id) => readDealState(dealsPath, id),
+    findDealStates: (dealIdOrName) => findDealStates(dealsPath, dealIdOrName),
+    saveDealState: (deal) => saveDealState(dealsPath, deal),
+
+    close() {
+      // Nothing to release — every call opens and closes its own file
+    },
+  };
+}
@@ -0,0 +1,638 @@
+/**
+ * SQLite storage backend — one embedded database file in DATA_DIR.
+ *
+ * Small, whole-document data (the knowledge base, stage rules, _meta
+ * blocks) lives in a key/value `documents` table. High-volume collections
+ * (deliveries, feedback, reps, pipeline jobs, failed runs, webhook
+ * keys, deal states) get their own tables with the entry stored as JSON plus indexed
+ * lookup columns, so an append is a single INSERT no matter how large
+ * the log grows.
+ *
+ * WAL mode lets the MCP server and webhook server share one database
+ * when they run on the same machine.
+ *
+ * Reads are migrated and validated the same way as the JSON files
+ * (see validate.ts).
+ */
+
+import Database from "better-sqlite3";
+import type {
+  KnowledgeBase,
+  FeedbackLog,
+  FeedbackLogMeta,
+  DeliveryEntry,
+  FeedbackEntry,
+  RepDirectory,
+  RepEntry,
+  KBChange,
+  KBVersion,
+  KBVersionSummary,
+  PipelineJob,
+  JobStatus,
+  FailedRun,
+  WebhookKey,
+  DealState,
+  StageConfig,
+  FieldMapping,
+} from "./types.js";
+import {
+  ensureDirForPath,
+  finalizeKBMeta,
+  mergeRep,
+  emptyKB,
+  emptyFeedbackLog,
+  emptyRepDirectory,
+  defaultStageConfig,
+  defaultFieldMapping,
+  stampKBRevision,
+  toKBVersion,
+  KB_HISTORY_LIMIT,
+  JOB_HISTORY_LIMIT,
+  FAILED_RUN_HISTORY_LIMIT,
+  dealRetentionCutoffs,
+  newFeedbackLogGeneration,
+  UNKNOWN_CHANGE,
+} from "./data.js";
+import {
+  parseKnowledgeBase,
+  parseFeedbackLog,
+  parseRepDirectory,
+  parseStageConfig,
+  parseFieldMapping,
+} from "./validate.js";
+import { pushSync } from "./sync.js";
+import type { Storage } from "./storage.js";
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS documents (
+    name       TEXT PRIMARY KEY,
+    data       TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS deliveries (
+    seq         INTEGER PRIMARY KEY AUTOINCREMENT,
+    delivery_id TEXT NOT NULL UNIQUE,
+    deal_name   TEXT NOT NULL,
+    timestamp   TEXT NOT NULL,
+    data        TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_deliveries_deal_name ON deliveries (deal_name);
+  CREATE INDEX IF NOT EXISTS idx_deliveries_message_ref ON deliveries (
+    json_extract(data, '$.message_ref.channel'), json_extract(data, '$.message_ref.id')
+  );
+
+  CREATE TABLE IF NOT EXISTS feedback (
+    seq         INTEGER PRIMARY KEY AUTOINCREMENT,
+    id          TEXT NOT NULL UNIQUE,
+    delivery_id TEXT NOT NULL,
+    source      TEXT NOT NULL,
+    timestamp   TEXT NOT NULL,
+    data        TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_feedback_delivery_id ON feedback (delivery_id);
+
+  CREATE TABLE IF NOT EXISTS reps (
+    email            TEXT PRIMARY KEY COLLATE NOCASE,
+    telegram_chat_id TEXT NOT NULL DEFAULT '',
+    data             TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_reps_telegram_chat_id ON reps (telegram_chat_id);
+
+  CREATE TABLE IF NOT EXISTS kb_versions (
+    version     INTEGER PRIMARY KEY,
+    timestamp   TEXT NOT NULL,
+    author      TEXT NOT NULL,
+    source      TEXT NOT NULL,
+    entry_count INTEGER NOT NULL,
+    data        TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS pipeline_jobs (
+    seq        INTEGER PRIMARY KEY AUTOINCREMENT,
+    id         TEXT NOT NULL UNIQUE,
+    status     TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    data       TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_pipeline_jobs_status ON pipeline_jobs (status);
+
+  CREATE TABLE IF NOT EXISTS failed_runs (
+    seq       INTEGER PRIMARY KEY AUTOINCREMENT,
+    id        TEXT NOT NULL UNIQUE,
+    failed_at TEXT NOT NULL,
+    data      TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS webhook_keys (
+    id         TEXT PRIMARY KEY,
+    expires_at TEXT NOT NULL,
+    data       TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_webhook_keys_expires_at ON webhook_keys (expires_at);
+
+  CREATE TABLE IF NOT EXISTS deal_states (
+    id         TEXT PRIMARY KEY,
+    updated_at TEXT NOT NULL,
+    data       TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_deal_states_updated_at ON deal_states (updated_at);
+`;
+
+const DOC_KB = "knowledge_base";
+const DOC_FEEDBACK_META = "feedback_log_meta";
+const DOC_REP_META = "rep_directory_meta";
+const DOC_STAGE_CONFIG = "stage_config";
+const DOC_FIELD_MAPPING = "field_mapping";
+
+export function createSqliteStorage(dbPath: string): Storage {
+  ensureDirForPath(dbPath);
+  const db = new Database(dbPath);
+  db.pragma("journal_mode = WAL");
+  db.pragma("busy_timeout = 5000");
+  db.exec(SCHEMA);
+
+  const stmt = {
+    getDoc: db.prepare<[string], { data: string }>(
+      "SELECT data FROM documents WHERE name = ?"
+    ),
+    putDoc: db.prepare<[string, string, string]>(
+      `INSERT INTO documents (name, data, updated_at) VALUES (?, ?, ?)
+       ON CONFLICT (name) DO UPDATE SET data = excluded.data, updated_at = excluded.updated_at`
+    ),
+    allDeliveries: db.prepare<[], { data: string }>(
+      "SELECT data FROM deliveries ORDER BY seq"
+    ),
+    getDelivery: db.prepare<[string], { data: string }>(
+      "SELECT data FROM deliveries WHERE delivery_id = ?"
+    ),
+    findDeliveryByMessageRef: db.prepare<[string, string], { data: string }>(
+      `SELECT data FROM deliveries
+       WHERE json_extract(data, '$.message_ref.channel') = ? AND json_extract(data, '$.message_ref.id') = ?
+       LIMIT 1`
+    ),
+    putDelivery: db.prepare<[string, string, string, string]>(
+      `INSERT INTO deliveries (delivery_id, deal_name, timestamp, data) VALUES (?, ?, ?, ?)
+       ON CONFLICT (delivery_id) DO UPDATE SET
+         deal_name = excluded.deal_name, timestamp = excluded.timestamp, data = excluded.data`
+    ),
+    pageDeliveries: db.prepare<[number, number], { data: string }>(
+      "SELECT data FROM deliveries ORDER BY seq LIMIT ? OFFSET ?"
+    ),
+    countDeliveries: db.prepare<[], { n: number }>(
+      "SELECT COUNT(*) AS n FROM deliveries"
+    ),
+    allFeedback: db.prepare<[], { data: string }>(
+      "SELECT data FROM feedback ORDER BY seq"
+    ),
+    putFeedback: db.prepare<[string, string, string, string, string]>(
+      `INSERT INTO feedback (id, delivery_id, source, timestamp, data) VALUES (?, ?, ?, ?, ?)
+       ON CONFLICT (id) DO UPDATE SET
+         delivery_id = excluded.delivery_id, source = excluded.source,
+         timestamp = excluded.timestamp, data = excluded.data`
+    ),
+    pageFeedback: db.prepare<[number, number], { data: string }>(
+      "SELECT data FROM feedback ORDER BY seq LIMIT ? OFFSET ?"
+    ),
+    countFeedback: db.prepare<[], { n: number }>(
+      "SELECT COUNT(*) AS n FROM feedback"
+    ),
+    allReps: db.prepare<[], { data: string }>(
+      "SELECT data FROM reps ORDER BY rowid"
+    ),
+    getRepByEmail: db.prepare<[string], { data: string }>(
+      "SELECT data FROM reps WHERE email = ?"
+    ),
+    getRepByTelegram: db.prepare<[string], { data: string }>(
+      "SELECT data FROM reps WHERE telegram_chat_id = ? LIMIT 1"
+    ),
+    putRep: db.prepare<[string, string, string]>(
+      `INSERT INTO reps (email, telegram_chat_id, data) VALUES (?, ?, ?)
+       ON CONFLICT (email) DO UPDATE SET
+         telegram_chat_id = excluded.telegram_chat_id, data = excluded.data`
+    ),
+    deleteRep: db.prepare<[string]>("DELETE FROM reps WHERE email = ?"),
+    clearReps: db.prepare("DELETE FROM reps"),
+    clearDeliveries: db.prepare("DELETE FROM deliveries"),
+    clearFeedback: db.prepare("DELETE FROM feedback"),
+    putVersion: db.prepare<[number, string, string, string, number, string]>(
+      `INSERT INTO kb_versions (version, timestamp, author, source, entry_count, data)
+       VALUES (?, ?, ?, ?, ?, ?)
+       ON CONFLICT (version) DO UPDATE SET
+         timestamp = excluded.timestamp, author = excluded.author, source = excluded.source,
+         entry_count = excluded.entry_count, data = excluded.data`
+    ),
+    getVersion: db.prepare<[number], { data: string } & KBVersionSummary>(
+      "SELECT version, timestamp, author, source, entry_count, data FROM kb_versions WHERE version = ?"
+    ),
+    listVersions: db.prepare<[number], KBVersionSummary>(
+      `SELECT version, timestamp, author, source, entry_count FROM kb_versions
+       ORDER BY version DESC LIMIT ?`
+    ),
+    latestVersion: db.prepare<[], { v: number | null }>(
+      "SELECT MAX(version) AS v FROM kb_versions"
+    ),
+    allJobs: db.prepare<[], { status: JobStatus; data: string }>(
+      "SELECT status, data FROM pipeline_jobs ORDER BY seq"
+    ),
+    getJob: db.prepare<[string], { data: string }>(
+      "SELECT data FROM pipeline_jobs WHERE id = ?"
+    ),
+    putJob: db.prepare<[string, string, string, string]>(
+      `INSERT INTO pipeline_jobs (id, status, updated_at, data) VALUES (?, ?, ?, ?)
+       ON CONFLICT (id) DO UPDATE SET
+         status = excluded.status, updated_at = excluded.updated_at, data = excluded.data`
+    ),
+    pruneJobs: db.prepare<[number]>(
+      `DELETE FROM pipeline_jobs WHERE status = 'succeeded' AND seq NOT IN
+         (SELECT seq FROM pipeline_jobs WHERE status = 'succeeded' ORDER BY seq DESC LIMIT ?)`
+    ),
+    allFailedRuns: db.prepare<[], { data: string }>(
+      "SELECT data FROM failed_runs ORDER BY seq"
+    ),
+    getFailedRun: db.prepare<[string], { data: string }>(
+      "SELECT data FROM failed_runs WHERE id = ?"
+    ),
+    putFailedRun: db.prepare<[string, string, string]>(
+      `INSERT INTO failed_runs (id, failed_at, data) VALUES (?, ?, ?)
+       ON CONFLICT (id) DO UPDATE SET failed_at = excluded.failed_at, data = excluded.data`
+    ),
+    pruneFailedRuns: db.prepare<[number]>(
+      `DELETE FROM failed_runs WHERE seq NOT IN
+         (SELECT seq FROM failed_runs ORDER BY seq DESC LIMIT ?)`
+    ),
+    getWebhookKey: db.prepare<[string], { data: string }>(
+      "SELECT data FROM webhook_keys WHERE id = ?"
+    ),
+    putWebhookKey: db.prepare<[string, string, string]>(
+      `INSERT INTO webhook_keys (id, expires_at, data) VALUES (?, ?, ?)
+       ON CONFLICT (id) DO UPDATE SET expires_at = excluded.expires_at, data = excluded.data`
+    ),
+    pruneWebhookKeys: db.prepare<[string]>(
+      "DELETE FROM webhook_keys WHERE expires_at <= ?"
+    ),
+    getDealState: db.prepare<[string], { data: string }>(
+      "SELECT data FROM deal_states WHERE id = ?"
+    ),
+    findDealStates: db.prepare<[string, string], { data: string }>(
+      `SELECT data FROM deal_states
+       WHERE json_extract(data, '$.deal_id') = ? OR lower(trim(json_extract(data, '$.deal_name'))) = ?`
+    ),
+    putDealState: db.prepare<[string, string, string]>(
+      `INSERT INTO deal_states (id, updated_at, data) VALUES (?, ?, ?)
+       ON CONFLICT (id) DO UPDATE SET updated_at = excluded.updated_at, data = excluded.data`
+    ),
+    pruneDealStates: db.prepare<[string, string, string]>(
+      `DELETE FROM deal_states WHERE id != ? AND
+         (updated_at <= ? OR (updated_at <= ? AND json_extract(data, '$.outcome') IS NOT NULL))`
+    ),
+    pruneVersions: db.prepare<[number]>(
+      `DELETE FROM kb_versions WHERE version NOT IN
+         (SELECT version FROM kb_versions ORDER BY version DESC LIMIT ?)`
+    ),
+  };
+
+  // ── Documents ──────────────────────────────────────────────
+
+  function getDoc<T>(name: string): T | null {
+    const row = stmt.getDoc.get(name);
+    return row ? (JSON.parse(row.data) as T) : null;
+  }
+
+  function putDoc(name: string, data: unknown): void {
+    stmt.putDoc.run(name, JSON.stringify(data), new Date().toISOString());
+  }
+
+  // ── Knowledge base ─────────────────────────────────────────
+
+  function readKB(): KnowledgeBase {
+    const kb = getDoc<KnowledgeBase>(DOC_KB);
+    if (!kb) {
+      const fresh = emptyKB();
+      putDoc(DOC_KB, fresh);
+      return fresh;
+    }
+    return parseKnowledgeBase(kb, `${dbPath} → ${DOC_KB}`);
+  }
+
+  function nextRevision(): number {
+    const latest = stmt.latestVersion.get()?.v ?? 0;
+    return Math.max(latest, getDoc<KnowledgeBase>(DOC_KB)?._meta.revision ?? 0) + 1;
+  }
+
+  function saveVersion(entry: KBVersion): void {
+    stmt.putVersion.run(
+      entry.version,
+      entry.timestamp,
+      entry.author,
+      entry.source,
+      entry.entry_count,
+      JSON.stringify(entry.kb)
+    );
+    stmt.pruneVersions.run(KB_HISTORY_LIMIT);
+  }
+
+  const writeKBTx = db.transaction((kb: KnowledgeBase, change: KBChange) => {
+    stampKBRevision(kb, nextRevision(), change);
+    finalizeKBMeta(kb);
+    putDoc(DOC_KB, kb);
+    saveVersion(toKBVersion(kb, change));
+  });
+
+  const replaceKBTx = db.transaction((kb: KnowledgeBase, change?: KBChange) => {
+    if (change) {
+      kb._meta.revision ??= nextRevision();
+      saveVersion(toKBVersion(kb, change));
+    }
+    putDoc(DOC_KB, kb);
+  });
+
+  // ── Feedback log ───────────────────────────────────────────
+
+  function touchFeedbackMeta(): void {
+    const meta = getDoc<FeedbackLogMeta>(DOC_FEEDBACK_META) ?? emptyFeedbackLog()._meta;
+    putDoc(DOC_FEEDBACK_META, { ...meta, last_updated: new Date().toISOString() });
+  }
+
+  const insertDelivery = db.transaction((entry: DeliveryEntry) => {
+    stmt.putDelivery.run(
+      entry.delivery_id,
+      entry.deal_name,
+      entry.timestamp,
+      JSON.stringify(entry)
+    );
+    touchFeedbackMeta();
+  });
+
+  const insertFeedback = db.transaction((entry: FeedbackEntry) => {
+    stmt.putFeedback.run(
+      entry.id,
+      entry.delivery_id,
+      entry.source,
+      entry.timestamp,
+      JSON.stringify(entry)
+    );
+    touchFeedbackMeta();
+  });
+
+  const replaceLog = db.transaction((log: FeedbackLog) => {
+    stmt.clearDeliveries.run();
+    stmt.clearFeedback.run();
+    for (const entry of log.deliveries) {
+      stmt.putDelivery.run(entry.delivery_id, entry.deal_name, entry.timestamp, JSON.stringify(entry));
+    }
+    for (const entry of log.feedback) {
+      stmt.putFeedback.run(entry.id, entry.delivery_id, entry.source, entry.timestamp, JSON.stringify(entry));
+    }
+    putDoc(DOC_FEEDBACK_META, { ...log._meta, generation: newFeedbackLogGeneration() });
+  });
+
+  function feedbackMeta(): FeedbackLogMeta {
+    const meta = getDoc<FeedbackLogMeta>(DOC_FEEDBACK_META) ?? emptyFeedbackLog()._meta;
+    return {
+      ...meta,
+      total_deliveries: stmt.countDeliveries.get()?.n ?? 0,
+      total_feedback: stmt.countFeedback.get()?.n ?? 0,
+    };
+  }
+
+  // ── Rep directory ──────────────────────────────────────────
+
+  function putRep(rep: RepEntry): void {
+    stmt.putRep.run(rep.email, rep.telegram_chat_id || "", JSON.stringify(rep));
+  }
+
+  function touchRepMeta(): void {
+    const meta = getDoc<RepDirectory["_meta"]>(DOC_REP_META) ?? emptyRepDirectory()._meta;
+    putDoc(DOC_REP_META, { ...meta, last_updated: new Date().toISOString() });
+  }
+
+  function readRepDirectory(): RepDirectory {
+    const reps = stmt.allReps.all().map((r) => JSON.parse(r.data) as RepEntry);
+    const meta = getDoc<RepDirectory["_meta"]>(DOC_REP_META) ?? emptyRepDirectory()._meta;
+    return parseRepDirectory({ reps, _meta: { ...meta, total_reps: reps.length } }, dbPath);
+  }
+
+  const replaceReps = db.transaction((dir: RepDirectory, touch: boolean) => {
+    stmt.clearReps.run();
+    for (const rep of dir.reps) putRep(rep);
+    if (touch) touchRepMeta();
+    else putDoc(DOC_REP_META, dir._meta);
+  });
+
+  const upsertRepTx = db.transaction((rep: RepEntry) => {
+    const existing = stmt.getRepByEmail.get(rep.email);
+    if (existing) {
+      const merged = mergeRep(JSON.parse(existing.data) as RepEntry, rep);
+      // Email is the primary key — drop the old row in case the case changed
+      stmt.deleteRep.run(rep.email);
+      putRep(merged);
+    } else {
+      putRep(rep);
+    }
+    touchRepMeta();
+  });
+
+  const removeRepTx = db.transaction((email: string) => {
+    const { changes } = stmt.deleteRep.run(email);
+    if (changes > 0) touchRepMeta();
+    return changes > 0;
+  });
+
+  const pushRepDirectory = () => {
+    pushSync("/api/rep-directory", readRepDirectory()).catch(() => {});
+  };
+
+  // ── Stage rules ────────────────────────────────────────────
+
+  function readStageConfig(): StageConfig {
+    const config = getDoc<StageConfig>(DOC_STAGE_CONFIG);
+    if (!config) {
+      const fresh = defaultStageConfig();
+      putDoc(DOC_STAGE_CONFIG, fresh);
+      return fresh;
+    }
+    return parseStageConfig(config, `${dbPath} → ${DOC_STAGE_CONFIG}`);
+  }
+
+  // ── Field mapping ──────────────────────────────────────────
+
+  function readFieldMapping(): FieldMapping {
+    const mapping = getDoc<FieldMapping>(DOC_FIELD_MAPPING);
+    if (!mapping) {
+      const fresh = defaultFieldMapping();
+      putDoc(DOC_FIELD_MAPPING, fresh);
+      return fresh;
+    }
+    return parseFieldMapping(mapping, `${dbPath} → ${DOC_FIELD_MAPPING}`);
+  }
+
+  // ── Pipeline jobs ──────────────────────────────────────────
+
+  const saveJobTx = db.transaction((job: PipelineJob) => {
+    stmt.putJob.run(job.id, job.status, job.updated_at, JSON.stringify(job));
+    if (job.status === "succeeded") stmt.pruneJobs.run(JOB_HISTORY_LIMIT);
+  });
+
+  // ── Failed runs ────────────────────────────────────────────
+
+  const saveFailedRunTx = db.transaction((run: FailedRun) => {
+    stmt.putFailedRun.run(run.id, run.failed_at, JSON.stringify(run));
+    stmt.pruneFailedRuns.run(FAILED_RUN_HISTORY_LIMIT);
+  });
+
+  // ── Webhook keys ───────────────────────────────────────────
+
+  const saveWebhookKeyTx = db.transaction((key: WebhookKey) => {
+    stmt.pruneWebhookKeys.run(new Date().toISOString());
+    stmt.putWebhookKey.run(key.id, key.expires_at, JSON.stringify(key));
+  });
+
+  // ── Deal states ────────────────────────────────────────────
+
+  const saveDealStateTx = db.transaction((deal: DealState) => {
+    const cutoff = dealRetentionCutoffs();
+    stmt.pruneDealStates.run(deal.id, cutoff.stale, cutoff.closed);
+    stmt.putDealState.run(deal.id, deal.updated_at, JSON.stringify(deal));
+  });
+
+  return {
+    backend: "sqlite",
+
+    readKB,
+    writeKB(kb, change = UNKNOWN_CHANGE) {
+      writeKBTx(kb, change);
+      // Push to remote if sync is enabled (fire-and-forget)
+      pushSync("/api/kb", kb).catch(() => {});
+    },
+    replaceKB: (kb, change) => replaceKBTx(kb, change),
+
+    listKBVersions(limit) {
+      return stmt.listVersions.all(limit ?? -1);
+    },
+    readKBVersion(version) {
+      const row = stmt.getVersion.get(version);
+      if (!row) return null;
+      const { data, ...summary } = row;
+      return { ...summary, kb: JSON.parse(data) as KnowledgeBase };
+    },
+
+    readFeedbackLog() {
+      const deliveries = stmt.allDeliveries
+        .all()
+        .map((r) => JSON.parse(r.data) as DeliveryEntry);
+      const feedback = stmt.allFeedback
+        .all()
+        .map((r) => JSON.parse(r.data) as FeedbackEntry);
+      return parseFeedbackLog({ deliveries, feedback, _meta: feedbackMeta() }, dbPath);
+    },
+    readFeedbackPage(afterDeliveries, afterFeedback, limit) {
+      return {
+        deliveries: stmt.pageDeliveries
+          .all(limit, afterDeliveries)
+          .map((r) => JSON.parse(r.data) as DeliveryEntry),
+        feedback: stmt.pageFeedback
+          .all(limit, afterFeedback)
+          .map((r) => JSON.parse(r.data) as FeedbackEntry),
+        _meta: feedbackMeta(),
+      };
+    },
+    getDelivery(deliveryId) {
+      const row = stmt.getDelivery.get(deliveryId);
+      return row ? (JSON.parse(row.data) as DeliveryEntry) : null;
+    },
+    findDeliveryByMessageRef(ref) {
+      const row = stmt.findDeliveryByMessageRef.get(ref.channel, ref.id);
+      return row ? (JSON.parse(row.data) as DeliveryEntry) : null;
+    },
+    appendDelivery: (entry) => insertDelivery(entry),
+    // putDelivery upserts, keeping the row's place in the log
+    saveDelivery: (entry) => insertDelivery(entry),
+    appendFeedback: (entry) => insertFeedback(entry),
+    replaceFeedbackLog: (log) => replaceLog(log),
+
+    readRepDirectory,
+    writeRepDirectory(dir) {
+      replaceReps(dir, true);
+      pushSync("/api/rep-directory", readRepDirectory()).catch(() => {});
+    },
+    replaceRepDirectory: (dir) => replaceReps(dir, false),
+    findRepByEmail(email) {
+      const row = stmt.getRepByEmail.get(email);
+      return row ? (JSON.parse(row.data) as RepEntry) : null;
+    },
+    findRepByTelegramChatId(chatId) {
+      if (!chatId) return null;
+      const row = stmt.getRepByTelegram.get(chatId);
+      return row ? (JSON.parse(row.data) as RepEntry) : null;
+    },
+    upsertRep(rep) {
+      upsertRepTx(rep);
+      pushRepDirectory();
+    },
+    removeRep(email) {
+      const removed = removeRepTx(email);
+      if (removed) pushRepDirectory();
+      return removed;
+    },
+
+    readStageConfig,
+    writeStageConfig(config) {
+      config._meta.last_updated = new Date().toISOString();
+      putDoc(DOC_STAGE_CONFIG, config);
+      pushSync("/api/stage-config", config).catch(() => {});
+    },
+    replaceStageConfig: (config) => putDoc(DOC_STAGE_CONFIG, config),
+
+    readFieldMapping,
+    writeFieldMapping(mapping) {
+      mapping._meta.last_updated = new Date().toISOString();
+      putDoc(DOC_FIELD_MAPPING, mapping);
+      pushSync("/api/field-mapping", mapping).catch(() => {});
+    },
+    replaceFieldMapping: (mapping) => putDoc(DOC_FIELD_MAPPING, mapping),
+
+    listJobs(statuses) {
+      return stmt.allJobs
+        .all()
+        .filter((r) => !statuses || statuses.includes(r.status))
+        .map((r) => JSON.parse(r.data) as PipelineJob);
+    },
+    getJob(id) {
+      const row = stmt.getJob.get(id);
+      return row ? (JSON.parse(row.data) as PipelineJob) : null;
+    },
+    saveJob: (job) => saveJobTx(job),
+
+    listFailedRuns() {
+      return stmt.allFailedRuns.all().map((r) => JSON.parse(r.data) as FailedRun);
+    },
+    getFailedRun(id) {
+      const row = stmt.getFailedRun.get(id);
+      return row ? (JSON.parse(row.data) as FailedRun) : null;
+    },
+    saveFailedRun: (run) => saveFailedRunTx(run),
+
+    getWebhookKey(id) {
+      const row = stmt.getWebhookKey.get(id);
+      return row ? (JSON.parse(row.data) as WebhookKey) : null;
+    },
+    saveWebhookKey: (key) => saveWebhookKeyTx(key),
+
+    getDealState(id) {
+      const row = stmt.getDealState.get(id);
+      return row ? (JSON.parse(row.data) as DealState) : null;
+    },
+    findDealStates(dealIdOrName) {
+      const target = dealIdOrName.trim();
+      return stmt.findDealStates
+        .all(target, target.toLowerCase())
+        .map((r) => JSON.parse(r.data) as DealState);
+    },
+    saveDealState: (deal) => saveDealStateTx(deal),
+
+    close() {
+      if (db.open) db.close();
+    },
+  };
+}
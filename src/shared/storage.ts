@@ -0,0 +1,171 @@
+/**
+ * Storage — the persistence interface shared by the MCP server,
+ * the webhook server, and the sync routes.
+ *
+ * Two backends:
+ * - "json"   — one JSON file per collection in DATA_DIR (the original
+ *              layout, easy to inspect and hand-edit)
+ * - "sqlite" — a single embedded SQLite database; appends are O(1)
+ *              instead of rewriting the whole feedback log
+ *
+ * The backend is chosen by STORAGE_BACKEND in loadServerConfig /
+ * loadMcpConfig. Move existing JSON data into SQLite with the one-shot
+ * migration in migrate.ts.
+ */
+
+import type {
+  KnowledgeBase,
+  FeedbackLog,
+  DeliveryEntry,
+  FeedbackEntry,
+  MessageRef,
+  RepDirectory,
+  RepEntry,
+  KBChange,
+  KBVersion,
+  KBVersionSummary,
+  PipelineJob,
+  JobStatus,
+  FailedRun,
+  WebhookKey,
+  StageConfig,
+  FieldMapping,
+  DealState,
+} from "./types.js";
+import { createJsonStorage } from "./storage-json.js";
+import { createSqliteStorage } from "./storage-sqlite.js";
+
+export type StorageBackend = "json" | "sqlite";
+
+export const STORAGE_BACKENDS: StorageBackend[] = ["json", "sqlite"];
+
+export interface Storage {
+  readonly backend: StorageBackend;
+
+  // Knowledge base
+  readKB(): KnowledgeBase;
+  /**
+   * Recalculates _meta, records a numbered snapshot in the version
+   * history, and pushes to the remote server if sync is enabled.
+   */
+  writeKB(kb: KnowledgeBase, change?: KBChange): void;
+  /**
+   * Stores the KB as-is (no _meta recalculation, no sync push).
+   * Pass `change` to also record it in the version history.
+   */
+  replaceKB(kb: KnowledgeBase, change?: KBChange): void;
+
+  // Knowledge base version history
+  /** Newest first. */
+  listKBVersions(limit?: number): KBVersionSummary[];
+  readKBVersion(version: number): KBVersion | null;
+
+  // Feedback log
+  readFeedbackLog(): FeedbackLog;
+  /**
+   * Up to `limit` deliveries and feedback entries after the first
+   * `afterDeliveries` / `afterFeedback`. _meta describes the whole log.
+   */
+  readFeedbackPage(afterDeliveries: number, afterFeedback: number, limit: number): FeedbackLog;
+  getDelivery(deliveryId: string): DeliveryEntry | null;
+  /** The delivery sent as this Slack / Telegram message, if any. */
+  findDeliveryByMessageRef(ref: MessageRef): DeliveryEntry | null;
+  appendDelivery(entry: DeliveryEntry): void;
+  /** Replaces the delivery with the same delivery_id in place, or appends it. */
+  saveDelivery(entry: DeliveryEntry): void;
+  appendFeedback(entry: FeedbackEntry): void;
+  /**
+   * Stores the whole log as-is under a new _meta.generation, so sync
+   * cursors into the old log are refused — used by the JSON → SQLite
+   * migration.
+   */
+  replaceFeedbackLog(log: FeedbackLog): void;
+
+  // Rep directory
+  readRepDirectory(): RepDirectory;
+  /** Recalculates _meta and pushes to the remote server if sync is enabled. */
+  writeRepDirectory(dir: RepDirectory): void;
+  /** Stores the directory as-is (no _meta recalculation, no sync push). */
+  replaceRepDirectory(dir: RepDirectory): void;
+  findRepByEmail(email: string): RepEntry | null;
+  findRepByTelegramChatId(chatId: string): RepEntry | null;
+  upsertRep(rep: RepEntry): void;
+  removeRep(email: string): boolean;
+
+  // Stage rules (which CRM stages trigger enablement and outcomes)
+  readStageConfig(): StageConfig;
+  /** Stamps _meta.last_updated and pushes to the remote server if sync is enabled. */
+  writeStageConfig(config: StageConfig): void;
+  /** Stores the rules as-is (no _meta update, no sync push). */
+  replaceStageConfig(config: StageConfig): void;
+
+  // Field mapping (where each CRM keeps the deal fields)
+  readFieldMapping(): FieldMapping;
+  /** Stamps _meta.last_updated and pushes to the remote server if sync is enabled. */
+  writeFieldMapping(mapping: FieldMapping): void;
+  /** Stores the mapping as-is (no _meta update, no sync push). */
+  replaceFieldMapping(mapping: FieldMapping): void;
+
+  // Pipeline jobs (webhook server's CRM job queue)
+  /** Oldest first, optionally only jobs in the given states. */
+  listJobs(statuses?: JobStatus[]): PipelineJob[];
+  getJob(id: string): PipelineJob | null;
+  /** Insert or update by id. Old succeeded jobs are pruned. */
+  saveJob(job: PipelineJob): void;
+
+  // Failed runs (dead letters for jobs that couldn't finish)
+  /** Oldest first. */
+  listFailedRuns(): FailedRun[];
+  getFailedRun(id: string): FailedRun | null;
+  /** Insert or update by id. The oldest runs beyond the cap are pruned. */
+  saveFailedRun(run: FailedRun): void;
+
+  // Webhook keys (CRM webhook idempotency)
+  /** The stored key, expired or not. */
+  getWebhookKey(id: string): WebhookKey | null;
+  /** Insert or update by id. Expired keys are pruned. */
+  saveWebhookKey(key: WebhookKey): void;
+
+  // Deal states (stage history, fields and links for each deal)
+  getDealState(id: string): DealState | null;
+  /** Deals with this CRM deal ID, or this name (case-insensitive). */
+  findDealStates(dealIdOrName: string): DealState[];
+  /** Insert or update by id. Closed and long-untouched deals are pruned. */
+  saveDealState(deal: DealState): void;
+
+  /** Release any open handles (SQLite connection). */
+  close(): void;
+}
+
+/**
+ * The config fields a storage backend needs. Both Config and McpConfig
+ * satisfy this.
+ */
+export interface StorageConfig {
+  storageBackend: StorageBackend;
+  kbPath: string;
+  feedbackLogPath: string;
+  repDirectoryPath: string;
+  sqlitePath: string;
+}
+
+/**
+ * Create the storage backend selected in config.
+ */
+export function createStorage(config: StorageConfig): Storage {
+  switch (config.storageBackend) {
+    case "sqlite":
+      return createSqliteStorage(config.sqlitePath);
+    case "json":
+      return createJsonStorage({
+        kbPath: config.kbPath,
+        feedbackLogPath: config.feedbackLogPath,
+        repDirectoryPath: config.repDirectoryPath,
+      });
+    default:
+      throw new Error(
+        `Unknown storage backend "${config.storageBackend as string}". ` +
+          `Expected one of: ${STORAGE_BACKENDS.join(", ")}.`
+      );
+  }
+}
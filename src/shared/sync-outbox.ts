@@ -0,0 +1,103 @@
+/**
+ * Sync outbox — pushes waiting to reach the webhook server.
+ *
+ * pushSync() records every KB / rep directory push here before trying
+ * it, so a push that fails while the server is down (or a Railway
+ * instance is asleep) is retried later instead of lost, even across
+ * MCP server restarts. Only the latest document per endpoint is kept:
+ * a newer KB supersedes an older one that's still waiting.
+ */
+
+import { existsSync, readFileSync } from "fs";
+import { randomUUID } from "crypto";
+import { writeJsonAtomic, withFileLock } from "./file-io.js";
+
+export interface OutboxItem {
+  id: string;
+  endpoint: string;
+  data: unknown;
+  queued_at: string;
+  attempts: number;
+  next_attempt_at: string;
+  last_error: string | null;
+}
+
+export interface Outbox {
+  items: OutboxItem[];
+}
+
+/** First retry after 5s, doubling up to 15 minutes between attempts. */
+export const RETRY_BASE_MS = 5_000;
+export const RETRY_MAX_MS = 15 * 60_000;
+
+export function retryDelay(attempts: number): number {
+  return Math.min(RETRY_BASE_MS * 2 ** Math.max(0, attempts - 1), RETRY_MAX_MS);
+}
+
+export function readOutbox(path: string): Outbox {
+  if (!existsSync(path)) return { items: [] };
+  return JSON.parse(readFileSync(path, "utf-8")) as Outbox;
+}
+
+/**
+ * Queue `data` for `endpoint`, replacing anything already waiting for it.
+ */
+export function enqueueOutbox(path: string, endpoint: string, data: unknown): OutboxItem {
+  const now = new Date().toISOString();
+  const item: OutboxItem = {
+    id: randomUUID(),
+    endpoint,
+    data,
+    queued_at: now,
+    attempts: 0,
+    next_attempt_at: now,
+    last_error: null,
+  };
+
+  updateOutbox(path, (outbox) => {
+    outbox.items = outbox.items.filter((i) => i.endpoint !== endpoint);
+    outbox.items.push(item);
+  });
+  return item;
+}
+
+/**
+ * Drop an item once it's been delivered (or can never be). A no-op if a
+ * newer push for the same endpoint has replaced it in the meantime.
+ */
+export function removeOutboxItem(path: string, id: string): void {
+  updateOutbox(path, (outbox) => {
+    outbox.items = outbox.items.filter((i) => i.id !== id);
+  });
+}
+
+/**
+ * Drop whatever is waiting for `endpoint` — used once pull_sync has
+ * replaced the local copy, so a stale push can't overwrite the pull.
+ */
+export function discardOutboxEndpoint(path: string, endpoint: string): void {
+  updateOutbox(path, (outbox) => {
+    outbox.items = outbox.items.filter((i) => i.endpoint !== endpoint);
+  });
+}
+
+/**
+ * Record a failed attempt and push the next one back exponentially.
+ */
+export function deferOutboxItem(path: string, id: string, error: string): void {
+  updateOutbox(path, (outbox) => {
+    const item = outbox.items.find((i) => i.id === id);
+    if (!item) return;
+    item.attempts++;
+    item.last_error = error;
+    item.next_attempt_at = new Date(Date.now() + retryDelay(item.attempts)).toISOString();
+  });
+}
+
+function updateOutbox(path: string, fn: (outbox: Outbox) => void): void {
+  withFileLock(path, () => {
+    const outbox = readOutbox(path);
+    fn(outbox);
+    writeJsonAtomic(path, outbox);
+  });
+}
@@ -0,0 +1,626 @@
+/**
+ * Remote sync — keep the MCP server's KB, rep directory and stage rules
+ * in step with the Railway webhook server.
+ *
+ * Sync is versioned. Every GET/PUT response from the server carries an
+ * ETag for the document it now holds; we remember the ETag we last
+ * synced from (sync-state.json in DATA_DIR) and send it as If-Match on
+ * the next push. If another PMM pushed in between, the server answers
+ * 409 with a diff instead of overwriting their work. The conflict is
+ * recorded here until pull_sync fetches the server's copy.
+ *
+ * The storage backends call pushSync() after every KB, rep directory or
+ * stage config write. Sync is a no-op until enableSync() is called (MCP
+ * server only), so the webhook server never echoes writes back to
+ * itself.
+ *
+ * Pushes go through a durable outbox (sync-outbox.ts). A push that
+ * can't reach the server stays queued and is retried with exponential
+ * backoff — on a timer, on the next MCP tool call (retrySyncOutbox), or
+ * at the next startup.
+ *
+ * The feedback log flows the other way: deliveries and feedback are
+ * recorded on the server, and pullFeedbackLog() tops up a local mirror
+ * of it page by page for the MCP analytics tools. Webhook runs that
+ * failed on the server are listed and replayed the same way
+ * (fetchFailedRuns / replayFailedRun), and deal timelines are read from
+ * the server's deal store (fetchDealTimelines).
+ */
+
+import { createHash } from "crypto";
+import { existsSync, readFileSync } from "fs";
+import { writeJsonAtomic } from "./file-io.js";
+import {
+  readOutbox,
+  enqueueOutbox,
+  removeOutboxItem,
+  discardOutboxEndpoint,
+  deferOutboxItem,
+} from "./sync-outbox.js";
+import type { Outbox, OutboxItem } from "./sync-outbox.js";
+import { readFeedbackLog, replaceFeedbackLog, emptyFeedbackLog } from "./data.js";
+import { parseFeedbackLog } from "./validate.js";
+import {
+  formatKBDiff,
+  formatRepDirectoryDiff,
+  formatStageConfigDiff,
+  formatFieldMappingDiff,
+} from "./kb-diff.js";
+import type { KBDiff, KBSectionDiff } from "./kb-diff.js";
+import type {
+  FeedbackLog,
+  DeliveryEntry,
+  FeedbackEntry,
+  FeedbackLogMeta,
+  FailedRun,
+  JobStatus,
+  DealTimeline,
+} from "./types.js";
+
+export const SYNC_ENDPOINTS = [
+  "/api/kb",
+  "/api/rep-directory",
+  "/api/stage-config",
+  "/api/field-mapping",
+] as const;
+
+export type SyncEndpoint = (typeof SYNC_ENDPOINTS)[number];
+
+/** A push the server refused because its copy had moved on. */
+export interface SyncConflict {
+  endpoint: string;
+  detected_at: string;
+  server_etag: string | null;
+  summary: string; // What our push would have changed on the server
+  data?: unknown; // The document the push carried, so the edit can be re-applied
+}
+
+/** One page of GET /api/feedback-log. */
+export interface FeedbackLogPage {
+  deliveries: DeliveryEntry[];
+  feedback: FeedbackEntry[];
+  _meta: FeedbackLogMeta;
+  next_since: string; // Pass back as ?since= for the next page
+  has_more: boolean;
+}
+
+/** GET /api/failed-runs — newest first. */
+export interface FailedRunsResponse {
+  failed_runs: (FailedRun & { replay_status: JobStatus | null })[];
+  total: number;
+}
+
+/** POST /api/failed-runs/:id/replay */
+export interface ReplayResponse {
+  id: string;
+  job_id: string; // The new job re-running the payload
+}
+
+/** GET /api/deals/timeline — one per CRM with a deal by that name. */
+export interface DealTimelineResponse {
+  timelines: DealTimeline[];
+}
+
+/** The local mirror of the server's feedback log, plus where to resume. */
+type FeedbackLogMirror = FeedbackLog & { next_since: string };
+
+export interface SyncState {
+  etags: Record<string, string>; // Last-synced server ETag per endpoint
+  conflicts: SyncConflict[];
+  set_aside?: SyncConflict[]; // Refused pushes whose document pull_sync has since replaced
+  last_push?: { endpoint: string; at: string };
+  last_error?: { endpoint: string; at: string; message: string };
+}
+
+/** Where sync keeps its local bookkeeping (both in DATA_DIR). */
+export interface SyncPaths {
+  statePath: string;
+  outboxPath: string;
+}
+
+/** How a single push attempt ended. */
+type PushOutcome =
+  | { kind: "ok" }
+  | { kind: "conflict" }
+  | { kind: "retry"; error: string } // Server unreachable or overloaded — try again later
+  | { kind: "failed"; error: string }; // Server refused the document — retrying won't help
+
+/**
+ * Configuration for remote sync. Set via environment variables.
+ * When SYNC_URL is set, every writeKB / writeRepDirectory /
+ * writeStageConfig / writeFieldMapping call
+ * also pushes the update to the remote server.
+ */
+let syncConfig: ({ url: string; secret: string } & SyncPaths) | null = null;
+
+// Outbox drains run one at a time — a second write waits for the first
+// push's new ETag instead of racing it into a self-inflicted conflict.
+let drainQueue: Promise<void> = Promise.resolve();
+
+let retryTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Enable remote sync. Called once during MCP server startup.
+ * Subsequent writeKB / writeRepDirectory / writeStageConfig /
+ * writeFieldMapping calls will push to the remote.
+ */
+export function enableSync(url: string, secret: string, paths: SyncPaths): void {
+  syncConfig = { url: url.replace(/\/+$/, ""), secret, ...paths };
+  console.log(`[JIT] Sync enabled → ${syncConfig.url}`);
+}
+
+export function isSyncEnabled(): boolean {
+  return syncConfig !== null;
+}
+
+/**
+ * ETag for a synced document — a hash of its stored JSON. Used by the
+ * server's sync routes; clients only ever echo it back.
+ */
+export function documentEtag(data: unknown): string {
+  const hash = createHash("sha256").update(JSON.stringify(data)).digest("hex");
+  return `"${hash.slice(0, 32)}"`;
+}
+
+/**
+ * Queue data for the remote sync endpoint and try to send it.
+ * Never blocks the caller — the push is on disk before this returns,
+ * and a failed attempt stays in the outbox for the next retry.
+ */
+export function pushSync(endpoint: SyncEndpoint, data: unknown): Promise<void> {
+  if (!syncConfig) return Promise.resolve();
+
+  enqueueOutbox(syncConfig.outboxPath, endpoint, data);
+  return drainOutbox(syncConfig, { force: false });
+}
+
+/**
+ * Retry queued pushes whose backoff has elapsed (all of them with
+ * `force`). Called on every MCP tool call and at startup.
+ */
+export function retrySyncOutbox(opts: { force?: boolean } = {}): Promise<void> {
+  if (!syncConfig) return Promise.resolve();
+  if (!opts.force && !hasDuePushes(syncConfig)) return drainQueue;
+  return drainOutbox(syncConfig, { force: opts.force ?? false });
+}
+
+/**
+ * Push everything still waiting, backoff or not, and return the
+ * endpoints whose push still didn't get through. pull_sync runs this
+ * first — replacing a document while an edit to it is queued would
+ * lose the edit.
+ */
+export async function pushOutboxBeforePull(): Promise<SyncEndpoint[]> {
+  await retrySyncOutbox({ force: true });
+  return [...new Set(readSyncOutbox().items.map((i) => i.endpoint as SyncEndpoint))];
+}
+
+/**
+ * Wait for every queued push attempt to finish.
+ */
+export async function flushSync(): Promise<void> {
+  await drainQueue;
+}
+
+/**
+ * Pushes still waiting in the outbox.
+ */
+export function readSyncOutbox(): Outbox {
+  return syncConfig ? readOutbox(syncConfig.outboxPath) : { items: [] };
+}
+
+/**
+ * Fetch the server's current copy of a document and its ETag.
+ * Throws on network errors and non-2xx responses.
+ */
+export async function pullSync(
+  endpoint: SyncEndpoint
+): Promise<{ data: unknown; etag: string | null }> {
+  if (!syncConfig) {
+    throw new Error("Sync is not enabled — set SYNC_URL and SYNC_SECRET");
+  }
+
+  const response = await fetch(`${syncConfig.url}${endpoint}`, {
+    headers: { "Authorization": `Bearer ${syncConfig.secret}` },
+  });
+  if (!response.ok) {
+    throw new Error(`GET ${endpoint} → ${response.status} ${await response.text()}`);
+  }
+
+  return { data: await response.json(), etag: response.headers.get("etag") };
+}
+
+/**
+ * Remember that the local copy now matches the server at `etag`, and
+ * drop any conflict recorded for the endpoint.
+ */
+export function recordSyncBase(endpoint: SyncEndpoint, etag: string | null): void {
+  updateSyncState((state) => {
+    if (etag) state.etags[endpoint] = etag;
+    state.conflicts = state.conflicts.filter((c) => c.endpoint !== endpoint);
+  });
+}
+
+/**
+ * The local copy of `endpoint` was just replaced by the server's at
+ * `etag`. Record the new base and drop any push still waiting for the
+ * endpoint — it holds the document the pull replaced, and retrying it
+ * against the fresh ETag would silently overwrite the pull. A push the
+ * server refused as a conflict is set aside rather than forgotten, so
+ * its edit can still be re-applied (takeSetAsidePush).
+ */
+export function recordSyncPull(endpoint: SyncEndpoint, etag: string | null): void {
+  if (syncConfig) discardOutboxEndpoint(syncConfig.outboxPath, endpoint);
+  updateSyncState((state) => {
+    const refused = state.conflicts.find((c) => c.endpoint === endpoint && c.data !== undefined);
+    if (!refused) return;
+    state.set_aside = [...(state.set_aside ?? []).filter((c) => c.endpoint !== endpoint), refused];
+  });
+  recordSyncBase(endpoint, etag);
+}
+
+/**
+ * Remove and return the refused push set aside for `endpoint`, if any.
+ */
+export function takeSetAsidePush(endpoint: SyncEndpoint): SyncConflict | null {
+  const push = readSyncState().set_aside?.find((c) => c.endpoint === endpoint) ?? null;
+  if (push) {
+    updateSyncState((state) => {
+      state.set_aside = state.set_aside?.filter((c) => c.endpoint !== endpoint);
+    });
+  }
+  return push;
+}
+
+export function readSyncState(): SyncState {
+  if (!syncConfig || !existsSync(syncConfig.statePath)) {
+    return { etags: {}, conflicts: [] };
+  }
+  return JSON.parse(readFileSync(syncConfig.statePath, "utf-8")) as SyncState;
+}
+
+// ── Feedback log mirror ────────────────────────────────────
+
+const FEEDBACK_PAGE_LIMIT = 1000;
+
+let mirrorPull: Promise<{ log: FeedbackLog; pulled: number }> | null = null;
+
+/**
+ * Fetch every delivery and feedback entry recorded on the server since
+ * the last pull and append them to the mirror at `mirrorPath`.
+ * Concurrent callers share one pull. Throws if the server can't be
+ * reached — the mirror is left as it was.
+ */
+export function pullFeedbackLog(
+  mirrorPath: string
+): Promise<{ log: FeedbackLog; pulled: number }> {
+  if (!syncConfig) {
+    return Promise.reject(new Error("Sync is not enabled — set SYNC_URL and SYNC_SECRET"));
+  }
+  const config = syncConfig;
+
+  mirrorPull ??= pullFeedbackPages(config, mirrorPath).finally(() => {
+    mirrorPull = null;
+  });
+  return mirrorPull;
+}
+
+/**
+ * The last pulled copy of the server's feedback log, or null if it has
+ * never been pulled.
+ */
+export function readFeedbackMirror(mirrorPath: string): FeedbackLog | null {
+  return existsSync(mirrorPath) ? readFeedbackLog(mirrorPath) : null;
+}
+
+async function pullFeedbackPages(
+  config: NonNullable<typeof syncConfig>,
+  mirrorPath: string
+): Promise<{ log: FeedbackLog; pulled: number }> {
+  const cached = readFeedbackMirror(mirrorPath) as Partial<FeedbackLogMirror> | null;
+  let mirror = cached?.next_since ? (cached as FeedbackLogMirror) : emptyMirror();
+  let pulled = 0;
+
+  // The server updates a queued delivery in place once it's sent or
+  // fails — pull again from the first one still queued here
+  const firstQueued = mirror.deliveries.findIndex((d) => d.status === "queued");
+  if (firstQueued >= 0) {
+    mirror.deliveries.length = firstQueued;
+    mirror.next_since = mirror.next_since.replace(/^\d+/, String(firstQueued));
+  }
+  let restarted = false;
+
+  for (;;) {
+    const query = `since=${encodeURIComponent(mirror.next_since)}&limit=${FEEDBACK_PAGE_LIMIT}`;
+    const response = await fetch(`${config.url}/api/feedback-log?${query}`, {
+      headers: { "Authorization": `Bearer ${config.secret}` },
+    });
+
+    if (response.status === 410 && !restarted) {
+      // Server log was replaced — our cursor means nothing now
+      console.error("[JIT] Feedback log changed on the server — re-pulling from the start");
+      mirror = emptyMirror();
+      pulled = 0;
+      restarted = true;
+      continue;
+    }
+    if (!response.ok) {
+      throw new Error(`GET /api/feedback-log → ${response.status} ${await response.text()}`);
+    }
+
+    const page = await response.json() as FeedbackLogPage;
+    mirror.deliveries.push(...page.deliveries);
+    mirror.feedback.push(...page.feedback);
+    mirror._meta = {
+      ...page._meta,
+      total_deliveries: mirror.deliveries.length,
+      total_feedback: mirror.feedback.length,
+    };
+    mirror.next_since = page.next_since;
+    pulled += page.deliveries.length + page.feedback.length;
+
+    if (!page.has_more) break;
+  }
+
+  const log = parseFeedbackLog(mirror, `${config.url}/api/feedback-log`);
+  if (pulled > 0 || !existsSync(mirrorPath)) {
+    replaceFeedbackLog(mirrorPath, log);
+  }
+  return { log, pulled };
+}
+
+function emptyMirror(): FeedbackLogMirror {
+  return { ...emptyFeedbackLog(), next_since: "" };
+}
+
+// ── Failed runs ────────────────────────────────────────────
+
+/**
+ * Webhook runs that failed on the server, newest first.
+ * Throws on network errors and non-2xx responses.
+ */
+export async function fetchFailedRuns(limit?: number): Promise<FailedRunsResponse> {
+  const query = limit ? `?limit=${limit}` : "";
+  return serverRequest<FailedRunsResponse>(`/api/failed-runs${query}`, { method: "GET" });
+}
+
+/**
+ * Ask the server to re-run a failed webhook from its saved payload.
+ * Throws on network errors and non-2xx responses (404 for an unknown ID,
+ * 409 while an earlier replay is still running).
+ */
+export async function replayFailedRun(id: string): Promise<ReplayResponse> {
+  return serverRequest<ReplayResponse>(
+    `/api/failed-runs/${encodeURIComponent(id)}/replay`,
+    { method: "POST" }
+  );
+}
+
+// ── Deals ──────────────────────────────────────────────────
+
+/**
+ * The story of a deal from the server's deal store — no timelines if
+ * the server doesn't know the deal. Throws on network errors and
+ * non-2xx responses.
+ */
+export async function fetchDealTimelines(dealIdOrName: string): Promise<DealTimelineResponse> {
+  return serverRequest<DealTimelineResponse>(
+    `/api/deals/timeline?deal=${encodeURIComponent(dealIdOrName)}`,
+    { method: "GET" }
+  );
+}
+
+async function serverRequest<T>(path: string, init: RequestInit): Promise<T> {
+  if (!syncConfig) {
+    throw new Error("Sync is not enabled — set SYNC_URL and SYNC_SECRET");
+  }
+
+  const response = await fetch(`${syncConfig.url}${path}`, {
+    ...init,
+    headers: { "Authorization": `Bearer ${syncConfig.secret}` },
+  });
+  if (!response.ok) {
+    throw new Error(`${init.method} ${path} → ${response.status} ${await response.text()}`);
+  }
+  return await response.json() as T;
+}
+
+// ── Outbox ─────────────────────────────────────────────────
+
+function drainOutbox(
+  config: NonNullable<typeof syncConfig>,
+  opts: { force: boolean }
+): Promise<void> {
+  drainQueue = drainQueue
+    .then(() => drainOnce(config, opts.force))
+    .catch((err) => {
+      // Bad outbox file etc. — log it, but keep later drains running
+      console.error("[JIT] Sync outbox error:", (err as Error).message);
+    });
+  return drainQueue;
+}
+
+async function drainOnce(config: NonNullable<typeof syncConfig>, force: boolean): Promise<void> {
+  const now = Date.now();
+
+  for (const item of readOutbox(config.outboxPath).items) {
+    if (!force && Date.parse(item.next_attempt_at) > now) continue;
+    const outcome = await pushNow(config, item.endpoint as SyncEndpoint, item.data);
+    settle(config, item, outcome);
+  }
+
+  scheduleRetry(config);
+}
+
+function settle(
+  config: NonNullable<typeof syncConfig>,
+  item: OutboxItem,
+  outcome: PushOutcome
+): void {
+  const at = new Date().toISOString();
+
+  switch (outcome.kind) {
+    case "ok":
+      removeOutboxItem(config.outboxPath, item.id);
+      updateSyncState((state) => {
+        state.last_push = { endpoint: item.endpoint, at };
+      });
+      break;
+    case "conflict":
+      // Recorded in sync-state — pull_sync resolves it, not a retry
+      removeOutboxItem(config.outboxPath, item.id);
+      break;
+    case "retry":
+      deferOutboxItem(config.outboxPath, item.id, outcome.error);
+      updateSyncState((state) => {
+        state.last_error = { endpoint: item.endpoint, at, message: outcome.error };
+      });
+      break;
+    case "failed":
+      removeOutboxItem(config.outboxPath, item.id);
+      updateSyncState((state) => {
+        state.last_error = { endpoint: item.endpoint, at, message: outcome.error };
+      });
+      break;
+  }
+}
+
+/** Arm a single timer for the earliest pending retry. */
+function scheduleRetry(config: NonNullable<typeof syncConfig>): void {
+  if (retryTimer) {
+    clearTimeout(retryTimer);
+    retryTimer = null;
+  }
+
+  const { items } = readOutbox(config.outboxPath);
+  if (items.length === 0) return;
+
+  const due = Math.min(...items.map((i) => Date.parse(i.next_attempt_at)));
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    void retrySyncOutbox();
+  }, Math.max(0, due - Date.now()));
+  retryTimer.unref(); // Don't keep the process alive just to retry
+}
+
+function hasDuePushes(config: NonNullable<typeof syncConfig>): boolean {
+  const now = Date.now();
+  return readOutbox(config.outboxPath).items.some((i) => Date.parse(i.next_attempt_at) <= now);
+}
+
+// ── Helpers ────────────────────────────────────────────────
+
+async function pushNow(
+  config: NonNullable<typeof syncConfig>,
+  endpoint: SyncEndpoint,
+  data: unknown
+): Promise<PushOutcome> {
+  const url = `${config.url}${endpoint}`;
+
+  try {
+    let base: string | null = readSyncState().etags[endpoint] ?? null;
+
+    if (!base) {
+      // First push from this install — only safe if the server has
+      // nothing yet, otherwise we'd overwrite someone else's work
+      const remote = await pullSync(endpoint);
+      if (!isEmptyDocument(remote.data)) {
+        recordConflict({
+          endpoint,
+          detected_at: new Date().toISOString(),
+          server_etag: remote.etag,
+          summary: "The server already has data this install has never synced.",
+          data,
+        });
+        console.error(`[JIT] Sync conflict: ${endpoint} → server has unsynced data — run pull_sync first`);
+        return { kind: "conflict" };
+      }
+      base = remote.etag;
+    }
+
+    const response = await fetch(url, {
+      method: "PUT",
+      headers: {
+        "Content-Type": "application/json",
+        "Authorization": `Bearer ${config.secret}`,
+        ...(base ? { "If-Match": base } : {}),
+      },
+      body: JSON.stringify(data),
+    });
+
+    if (response.ok) {
+      const result = await response.json() as Record<string, unknown>;
+      recordSyncBase(endpoint, response.headers.get("etag"));
+      console.log(`[JIT] Sync push OK: ${endpoint} → ${JSON.stringify(result)}`);
+      return { kind: "ok" };
+    } else if (response.status === 409) {
+      const body = await response.json() as { etag?: string; diff: unknown };
+      recordConflict({
+        endpoint,
+        detected_at: new Date().toISOString(),
+        server_etag: body.etag ?? null,
+        summary: formatConflictDiff(endpoint, body.diff),
+        data,
+      });
+      console.error(`[JIT] Sync conflict: ${endpoint} → server changed since last sync — run pull_sync`);
+      return { kind: "conflict" };
+    }
+
+    const error = `${response.status} ${await response.text()}`;
+    console.error(`[JIT] Sync push failed: ${endpoint} → ${error}`);
+    return isRetryableStatus(response.status)
+      ? { kind: "retry", error }
+      : { kind: "failed", error };
+  } catch (err) {
+    // Network error (server down or asleep) — keep it queued
+    const error = (err as Error).message;
+    console.error(`[JIT] Sync push error: ${endpoint} →`, error);
+    return { kind: "retry", error };
+  }
+}
+
+/** Timeouts, rate limits and server errors are worth another try. */
+function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+function recordConflict(conflict: SyncConflict): void {
+  updateSyncState((state) => {
+    state.conflicts = state.conflicts.filter((c) => c.endpoint !== conflict.endpoint);
+    state.conflicts.push(conflict);
+  });
+}
+
+function updateSyncState(fn: (state: SyncState) => void): void {
+  if (!syncConfig) return;
+  const state = readSyncState();
+  fn(state);
+  writeJsonAtomic(syncConfig.statePath, state);
+}
+
+function formatConflictDiff(endpoint: SyncEndpoint, diff: unknown): string {
+  switch (endpoint) {
+    case "/api/kb":
+      return formatKBDiff(diff as KBDiff);
+    case "/api/rep-directory":
+      return formatRepDirectoryDiff(diff as KBSectionDiff);
+    case "/api/stage-config":
+      return formatStageConfigDiff(diff as KBSectionDiff);
+    case "/api/field-mapping":
+      return formatFieldMappingDiff(diff as KBSectionDiff);
+  }
+}
+
+function isEmptyDocument(doc: unknown): boolean {
+  const d = doc as {
+    reps?: unknown[];
+    stage_maps?: unknown;
+    crms?: Record<string, unknown>;
+    _meta?: { entry_count?: number; last_updated?: string | null };
+  };
+  if (Array.isArray(d.reps)) return d.reps.length === 0;
+  // Stage rules nobody has edited are still the shipped defaults
+  if (d.stage_maps) return !d._meta?.last_updated;
+  if (d.crms) return Object.keys(d.crms).length === 0;
+  return (d._meta?.entry_count ?? 0) === 0;
+}
@@ -5,122 +5,195 @@
  * and pipeline modules. Single source of truth.
  */
 
+import { z } from "zod";
+
 // ============================================================
 // KNOWLEDGE BASE
 // ============================================================
 
-export interface ResourceLink {
-  label: string;
-  url: string;
-}
+// The persisted data files (KB, feedback log, rep directory) are
+// defined as zod schemas so they can be checked at read time, sync
+// time and startup (see validate.ts). Their TypeScript types are
+// inferred from the schemas.
 
-export interface CaseStudy {
-  id: string;
-  company: string;
-  industry: string;
-  segment: string;
-  challenge: string;
-  result: string;
-  metric: string;
-  relevant_stages: string[];
-  resources: ResourceLink[];
-}
+export const ResourceLinkSchema = z.object({
+  label: z.string(),
+  url: z.string(),
+});
+export type ResourceLink = z.infer<typeof ResourceLinkSchema>;
 
-export interface CompetitorPositioning {
-  id: string;
-  competitor: string;
-  differentiator: string;
-  category: string;
-  supporting_evidence: string;
-  resources: ResourceLink[];
-}
+export const CaseStudySchema = z.object({
+  id: z.string(),
+  company: z.string(),
+  industry: z.string(),
+  segment: z.string(),
+  challenge: z.string(),
+  result: z.string(),
+  metric: z.string(),
+  relevant_stages: z.array(z.string()),
+  resources: z.array(ResourceLinkSchema),
+});
+export type CaseStudy = z.infer<typeof CaseStudySchema>;
 
-export interface ObjectionEntry {
-  id: string;
-  objection: string;
-  response: string;
-  competitor: string;
-  category: string;
-  relevant_stages: string[];
-}
+export const CompetitorPositioningSchema = z.object({
+  id: z.string(),
+  competitor: z.string(),
+  differentiator: z.string(),
+  category: z.string(),
+  supporting_evidence: z.string(),
+  resources: z.array(ResourceLinkSchema),
+});
+export type CompetitorPositioning = z.infer<typeof CompetitorPositioningSchema>;
+
+export const ObjectionEntrySchema = z.object({
+  id: z.string(),
+  objection: z.string(),
+  response: z.string(),
+  competitor: z.string(),
+  category: z.string(),
+  relevant_stages: z.array(z.string()),
+});
+export type ObjectionEntry = z.infer<typeof ObjectionEntrySchema>;
+
+export const MethodologySchema = z.object({
+  name: z.string(),
+  description: z.string(),
+  stage_guidance: z.record(z.string(), z.string()),
+});
+export type Methodology = z.infer<typeof MethodologySchema>;
+
+export const KnowledgeBaseMetaSchema = z.object({
+  last_updated: z.string().nullable(),
+  version: z.string(),
+  entry_count: z.number(),
+  configured: z.boolean(),
+  revision: z.number().int().optional(), // Snapshot number in the KB version history
+  updated_by: z.string().optional(), // Who made the latest change
+  updated_via: z.string().optional(), // MCP tool name, "sync", or "rollback_kb"
+});
+export type KnowledgeBaseMeta = z.infer<typeof KnowledgeBaseMetaSchema>;
+
+export const KnowledgeBaseSchema = z.object({
+  case_studies: z.array(CaseStudySchema),
+  competitor_positioning: z.array(CompetitorPositioningSchema),
+  objection_library: z.array(ObjectionEntrySchema),
+  methodology: MethodologySchema.nullable(),
+  _meta: KnowledgeBaseMetaSchema,
+});
+export type KnowledgeBase = z.infer<typeof KnowledgeBaseSchema>;
 
-export interface Methodology {
-  name: string;
-  description: string;
-  stage_guidance: Record<string, string>;
+// ============================================================
+// KNOWLEDGE BASE — Version history
+// ============================================================
+
+/** Who changed the KB and through which tool. */
+export interface KBChange {
+  author: string;
+  source: string;
 }
 
-export interface KnowledgeBaseMeta {
-  last_updated: string | null;
-  version: string;
+export interface KBVersionSummary {
+  version: number;
+  timestamp: string;
+  author: string;
+  source: string;
   entry_count: number;
-  configured: boolean;
 }
 
-export interface KnowledgeBase {
-  case_studies: CaseStudy[];
-  competitor_positioning: CompetitorPositioning[];
-  objection_library: ObjectionEntry[];
-  methodology: Methodology | null;
-  _meta: KnowledgeBaseMeta;
+export interface KBVersion extends KBVersionSummary {
+  kb: KnowledgeBase;
 }
 
 // ============================================================
 // FEEDBACK LOG
 // ============================================================
 
-export interface DeliveryEntry {
-  delivery_id: string;
-  deal_name: string;
-  deal_stage: string;
-  industry: string;
-  competitor: string;
-  rep_id: string;
-  case_studies_surfaced: string[];
-  competitors_surfaced: string[];
-  channel: string;
-  timestamp: string;
-}
+/** A message the engine posted — Slack channel + ts, or Telegram chat + message_id. */
+export const MessageRefSchema = z.object({
+  channel: z.string(), // Slack DM channel ("D0123ABC") or Telegram chat ID ("987654321")
+  id: z.string(), // Slack ts ("1767225600.000100") or Telegram message_id ("42")
+});
+export type MessageRef = z.infer<typeof MessageRefSchema>;
+
+/**
+ * queued: generated, not yet confirmed by the platform (retrying, or
+ * the job hasn't run yet). sent: the platform accepted it. failed: the
+ * job gave up. Entries from before statuses were recorded were sent.
+ */
+export const DeliveryStatusSchema = z.enum(["queued", "sent", "failed"]);
+export type DeliveryStatus = z.infer<typeof DeliveryStatusSchema>;
 
-export type FeedbackSource = "reaction" | "reply" | "outcome" | "call_intel";
+export const DeliveryEntrySchema = z.object({
+  delivery_id: z.string(),
+  deal_id: z.string().optional(), // CRM's own deal ID — missing on older entries
+  deal_name: z.string(),
+  deal_stage: z.string(),
+  industry: z.string(),
+  competitor: z.string(),
+  rep_id: z.string(),
+  case_studies_surfaced: z.array(z.string()),
+  competitors_surfaced: z.array(z.string()),
+  channel: z.string(),
+  status: DeliveryStatusSchema.optional(), // Missing on older entries — those were sent
+  attempts: z.number().int().nonnegative().optional(), // Sends tried so far
+  error_code: z.string().optional(), // Platform's error from the last failed send: "channel_not_found", "403"...
+  error_message: z.string().optional(),
+  message_ref: MessageRefSchema.optional(), // The message sent — replies to it are linked back here
+  timestamp: z.string(),
+});
+export type DeliveryEntry = z.infer<typeof DeliveryEntrySchema>;
 
-export interface FeedbackEntry {
-  id: string;
-  delivery_id: string;
-  source: FeedbackSource;
-  value: string;
-  raw_text: string | null;
-  rep_id: string;
-  deal_name: string;
-  timestamp: string;
-}
+export const FeedbackSourceSchema = z.enum(["reaction", "reply", "outcome", "call_intel"]);
+export type FeedbackSource = z.infer<typeof FeedbackSourceSchema>;
 
-export interface FeedbackLogMeta {
-  last_updated: string | null;
-  version: string;
-  total_deliveries: number;
-  total_feedback: number;
-}
+export const FeedbackEntrySchema = z.object({
+  id: z.string(),
+  delivery_id: z.string(),
+  source: FeedbackSourceSchema,
+  value: z.string(),
+  raw_text: z.string().nullable(),
+  rep_id: z.string(),
+  deal_id: z.string().optional(), // CRM's own deal ID, when the source knows it
+  deal_name: z.string(),
+  timestamp: z.string(),
+});
+export type FeedbackEntry = z.infer<typeof FeedbackEntrySchema>;
 
-export interface FeedbackLog {
-  deliveries: DeliveryEntry[];
-  feedback: FeedbackEntry[];
-  _meta: FeedbackLogMeta;
-}
+export const FeedbackLogMetaSchema = z.object({
+  last_updated: z.string().nullable(),
+  version: z.string(),
+  total_deliveries: z.number(),
+  total_feedback: z.number(),
+  generation: z.string().optional(), // New each time the whole log is replaced — part of the sync cursor
+});
+export type FeedbackLogMeta = z.infer<typeof FeedbackLogMetaSchema>;
+
+export const FeedbackLogSchema = z.object({
+  deliveries: z.array(DeliveryEntrySchema),
+  feedback: z.array(FeedbackEntrySchema),
+  _meta: FeedbackLogMetaSchema,
+});
+export type FeedbackLog = z.infer<typeof FeedbackLogSchema>;
 
 // ============================================================
 // PIPELINE — Deal Context (normalized from any CRM)
 // ============================================================
 
+/** The built-in CRMs. Plugin adapters add their own names (see crm-adapters.ts). */
 export type CrmType =
   | "hubspot"
   | "salesforce"
   | "attio"
   | "pipedrive"
   | "close"
+  | "zoho"
+  | "dynamics"
+  | "freshsales"
+  | "copper"
   | "generic";
 
 export interface DealContext {
+  deal_id: string; // The CRM's own ID for the deal, "" if the payload has none
   deal_name: string;
   deal_stage: string;
   company_name: string;
@@ -133,8 +206,10 @@ export interface DealContext {
   rep_slack_id: string;
   _identity_resolved: boolean;
   _resolution_method: string;
-  _crm_type: CrmType;
+  _crm_type: string; // A CrmType, or a plugin adapter's name
   _raw: Record<string, unknown>;
+  previous_stage?: string | null; // Canonical stage the deal moved from, if known
+  skipped_stages?: string[]; // Enablement stages it jumped over — the package covers them too
 }
 
 // ============================================================
@@ -150,6 +225,152 @@ export interface PipelineResult {
   error?: string;
 }
 
+// ============================================================
+// PIPELINE — Job queue
+// ============================================================
+
+export type JobKind = "enablement" | "outcome";
+
+export type JobStatus = "pending" | "running" | "succeeded" | "failed";
+
+/**
+ * One accepted CRM webhook, run step by step. The checkpoint in
+ * `state` is saved after every step, so a retry (or a restart)
+ * resumes at the step that failed instead of starting over.
+ */
+export interface PipelineJob {
+  id: string;
+  kind: JobKind;
+  status: JobStatus;
+  payload: Record<string, unknown>; // Raw webhook body
+  stage: string; // CRM stage that triggered the job
+  transition?: StageTransition; // How the deal got there (absent on older jobs)
+  step: string | null; // Step to run next (or the one that failed); null once succeeded
+  attempts: number; // Failed attempts at the current step
+  next_attempt_at: string | null;
+  last_error: string | null;
+  result: string | null; // What the job did, once it succeeded
+  state: Record<string, unknown>; // Checkpoint carried between steps
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Dead letter — a job that ran out of retries (or hit a permanent
+ * error), kept with everything needed to replay it.
+ */
+export interface FailedRun {
+  id: string; // The failed job's ID
+  kind: JobKind;
+  stage: string;
+  transition?: StageTransition;
+  payload: Record<string, unknown>; // Raw webhook body
+  deal: DealContext | null; // Parsed deal, as far as the pipeline got
+  step: string; // Step that failed
+  error: string;
+  attempts: number;
+  failed_at: string;
+  replayed_at: string | null;
+  replay_job_id: string | null; // Job started by the last replay
+}
+
+// ============================================================
+// PIPELINE — Webhook idempotency
+// ============================================================
+
+/**
+ * A CRM webhook that started a job, remembered so retries and repeat
+ * sends of the same stage change don't start another. Keyed by the
+ * CRM's event ID when it sends one, otherwise by a hash of deal + stage
+ * that lasts one dedup window.
+ */
+export interface WebhookKey {
+  id: string; // "event:<crm>:<event id>" or "deal:<sha256 of crm + deal + stage>"
+  source: "event_id" | "fingerprint";
+  job_id: string; // Job the first delivery started
+  deal_name: string;
+  stage: string;
+  first_seen_at: string;
+  expires_at: string; // Deliveries after this start a new job
+  duplicates: number; // Deliveries suppressed so far
+  last_duplicate_at: string | null;
+}
+
+// ============================================================
+// PIPELINE — Deal stage transitions
+// ============================================================
+
+/** How a deal reached the stage that queued a job. */
+export interface StageTransition {
+  from: string | null; // Previous canonical stage, null if never seen
+  source: "payload" | "history" | null; // Where `from` came from
+  skipped: string[]; // Enablement stages jumped over
+}
+
+// ============================================================
+// DEALS — what the webhook server knows about each deal
+// ============================================================
+
+/** One stage change, as the CRM webhook reported it. */
+export interface DealStageChange {
+  stage: string; // Canonical stage
+  from: string | null; // Stage it moved from, null the first time the deal was seen
+  at: string;
+  action: "enablement" | "outcome" | "skip"; // What the move triggered
+  reason: string; // Why, e.g. "backwards move" or "stage not in target list"
+}
+
+/** The latest real value of each deal field the CRM has sent. */
+export interface DealFields {
+  company_name: string;
+  industry: string;
+  competitor: string;
+  deal_size: number;
+  rep_email: string;
+  product_interest: string;
+}
+
+export interface DealOutcome {
+  result: "won" | "lost";
+  stage: string;
+  at: string;
+  feedback_id: string | null; // Outcome entry in the feedback log, if a package was sent
+}
+
+/**
+ * Everything the webhook server knows about one deal. Updated from every
+ * CRM webhook (including stages that trigger nothing), every delivery,
+ * and every piece of feedback and outcome that can be traced to it.
+ */
+export interface DealState {
+  id: string; // "<crm>:id:<deal id>", or "<crm>:<lowercased deal name>" without one
+  crm: string; // Adapter name — a CrmType for the built-in CRMs
+  deal_id: string; // "" if the CRM sends none
+  deal_name: string; // Latest name — deals with an ID can be renamed
+  stage: string; // Canonical stage from the latest webhook
+  previous_stage: string | null;
+  stage_changed_at: string;
+  first_seen_at: string;
+  updated_at: string;
+  stage_history: DealStageChange[]; // Oldest first
+  fields: DealFields;
+  delivery_ids: string[];
+  feedback_ids: string[];
+  outcome: DealOutcome | null;
+}
+
+/**
+ * One deal's full story — its store record plus the deliveries and
+ * feedback it links to. `deal` is null for a deal that only appears in
+ * the feedback log (delivered before the deal store existed).
+ */
+export interface DealTimeline {
+  deal_name: string;
+  deal: DealState | null;
+  deliveries: DeliveryEntry[];
+  feedback: FeedbackEntry[];
+}
+
 // ============================================================
 // MESSAGING — Slack Block Kit
 // ============================================================
@@ -196,23 +417,119 @@ export interface TelegramMessage {
 // REP DIRECTORY — maps rep identifiers to messaging platform IDs
 // ============================================================
 
-export interface RepEntry {
-  email: string; // Primary key — from CRM deal owner
-  name: string;
-  slack_id: string; // Slack user ID (e.g., "U01ABC123")
-  telegram_chat_id: string; // Telegram chat ID (e.g., "532751028")
-  registered_at: string; // ISO timestamp
-  registered_via: "manual" | "bot_start"; // How they were added
-}
+export const RepEntrySchema = z.object({
+  email: z.string(), // Primary key — from CRM deal owner
+  name: z.string(),
+  slack_id: z.string(), // Slack user ID (e.g., "U01ABC123")
+  telegram_chat_id: z.string(), // Telegram chat ID (e.g., "532751028")
+  registered_at: z.string(), // ISO timestamp
+  registered_via: z.enum(["manual", "bot_start"]), // How they were added
+});
+export type RepEntry = z.infer<typeof RepEntrySchema>;
 
-export interface RepDirectory {
-  reps: RepEntry[];
-  _meta: {
-    last_updated: string | null;
-    version: string;
-    total_reps: number;
-  };
-}
+export const RepDirectorySchema = z.object({
+  reps: z.array(RepEntrySchema),
+  _meta: z.object({
+    last_updated: z.string().nullable(),
+    version: z.string(),
+    total_reps: z.number(),
+  }),
+});
+export type RepDirectory = z.infer<typeof RepDirectorySchema>;
+
+// ============================================================
+// STAGE RULES — which CRM stages trigger the pipeline
+// ============================================================
+
+/**
+ * A rule on a from → to move. "*" matches any stage (as `from`, also a
+ * deal seen for the first time). "enablement" sends a package for the
+ * move, "skip" ignores it.
+ */
+export const StageTransitionRuleSchema = z.object({
+  from: z.string(),
+  to: z.string(),
+  action: z.enum(["enablement", "skip"]),
+});
+export type StageTransitionRule = z.infer<typeof StageTransitionRuleSchema>;
+
+/**
+ * CRMs name stages their own way (HubSpot sends internal IDs like
+ * "closedwon", Pipedrive sends numeric stage IDs). Each CRM's map turns
+ * its stage ID or label into a canonical stage; the lists below say
+ * which canonical stages trigger enablement and which are outcomes.
+ * A stage with no mapping is used as-is. stage_order says which way
+ * is forwards, for spotting backwards moves and skipped stages.
+ */
+export const StageConfigSchema = z.object({
+  stage_maps: z.record(z.string(), z.record(z.string(), z.string())), // CRM → { CRM stage → canonical stage }
+  enablement_stages: z.array(z.string()),
+  won_stages: z.array(z.string()),
+  lost_stages: z.array(z.string()),
+  stage_order: z.array(z.string()), // Canonical pipeline order, earliest first
+  suppress_backwards: z.boolean(), // Ignore moves to an earlier stage in stage_order
+  transition_rules: z.array(StageTransitionRuleSchema), // Checked in order, first match wins
+  _meta: z.object({
+    last_updated: z.string().nullable(), // null until the PMM first edits the rules
+    version: z.string(),
+    updated_by: z.string().optional(),
+  }),
+});
+export type StageConfig = z.infer<typeof StageConfigSchema>;
+
+// ============================================================
+// FIELD MAPPING — where each CRM keeps the deal fields
+// ============================================================
+
+/** DealContext fields a mapping can set (the stage has its own rules). */
+export const MAPPED_DEAL_FIELDS = [
+  "deal_id",
+  "deal_name",
+  "company_name",
+  "deal_notes",
+  "product_interest",
+  "industry",
+  "competitor",
+  "deal_size",
+  "rep_email",
+  "rep_slack_id",
+] as const;
+export const MappedDealFieldSchema = z.enum(MAPPED_DEAL_FIELDS);
+export type MappedDealField = z.infer<typeof MappedDealFieldSchema>;
+
+/**
+ * Applied in order to the value found: "lowercase", "uppercase",
+ * "trim", "number" (keep digits, "." and "-": "$150,000" → "150000"),
+ * "split:<separator>" (first part) or "split:<separator>:<index>"
+ * (negative counts from the end).
+ */
+export const FieldTransformSchema = z
+  .string()
+  .regex(/^(lowercase|uppercase|trim|number|split:.+)$/, "unknown transform");
+
+/**
+ * Dot paths into the payload ("properties.amount", "Owner.Email",
+ * "lines.0.name"), tried in order — the first with a value wins.
+ */
+export const FieldRuleSchema = z.object({
+  paths: z.array(z.string()).min(1),
+  transforms: z.array(FieldTransformSchema),
+});
+export type FieldRule = z.infer<typeof FieldRuleSchema>;
+
+/**
+ * Per-CRM overrides of the built-in field paths (see field-map.ts).
+ * A field with no rule here uses the built-in one.
+ */
+export const FieldMappingSchema = z.object({
+  crms: z.record(z.string(), z.record(MappedDealFieldSchema, FieldRuleSchema)), // CRM → { field → rule }
+  _meta: z.object({
+    last_updated: z.string().nullable(), // null until the PMM first edits the mapping
+    version: z.string(),
+    updated_by: z.string().optional(),
+  }),
+});
+export type FieldMapping = z.infer<typeof FieldMappingSchema>;
 
 // ============================================================
 // PMM Notification
@@ -0,0 +1,227 @@
+/**
+ * Schema validation + versioned migrations for the data files.
+ *
+ * Every KB, feedback log, rep directory, stage config and field mapping
+ * goes through one of the parse* functions below before the rest of the
+ * code sees it — at read time (both storage backends), at sync time
+ * (PUT /api/kb, /api/rep-directory, /api/stage-config and
+ * /api/field-mapping) and at startup (checkDataFiles).
+ *
+ * A file is first migrated up from its _meta.version, one registered
+ * step at a time, then checked against the zod schema in types.ts.
+ * Anything that doesn't fit throws a DataValidationError naming the
+ * file and each bad field, e.g. "case_studies[2].company: Expected
+ * string, received number".
+ */
+
+import type { ZodError, ZodTypeAny } from "zod";
+import {
+  KnowledgeBaseSchema,
+  FeedbackLogSchema,
+  RepDirectorySchema,
+  StageConfigSchema,
+  FieldMappingSchema,
+} from "./types.js";
+import type {
+  KnowledgeBase,
+  FeedbackLog,
+  RepDirectory,
+  StageConfig,
+  FieldMapping,
+} from "./types.js";
+import type { Storage } from "./storage.js";
+
+/** Current _meta.version written for each data file. */
+export const KB_SCHEMA_VERSION = "1.1";
+export const FEEDBACK_LOG_SCHEMA_VERSION = "1.0";
+export const REP_DIRECTORY_SCHEMA_VERSION = "1.0";
+export const STAGE_CONFIG_SCHEMA_VERSION = "1.1";
+export const FIELD_MAPPING_SCHEMA_VERSION = "1.0";
+
+/** Files written before _meta.version existed are treated as this. */
+const BASELINE_VERSION = "1.0";
+
+export class DataValidationError extends Error {
+  constructor(
+    public readonly source: string,
+    public readonly issues: string[]
+  ) {
+    super(`Invalid ${source}:\n${issues.map((i) => `  - ${i}`).join("\n")}`);
+    this.name = "DataValidationError";
+  }
+}
+
+// ============================================================
+// MIGRATION REGISTRY
+// ============================================================
+
+type DataRecord = Record<string, unknown>;
+
+export interface Migration {
+  to: string;
+  description: string;
+  migrate: (data: DataRecord) => void;
+}
+
+/**
+ * Keyed on the _meta.version a file is migrating *from*. To change a
+ * data file's shape: add a step here, bump the matching *_SCHEMA_VERSION
+ * and update the schema in types.ts.
+ */
+export const KB_MIGRATIONS: Record<string, Migration> = {
+  "1.0": {
+    to: "1.1",
+    description: "Add objection_library and resources[] to entries",
+    migrate(kb) {
+      if (!Array.isArray(kb.objection_library)) kb.objection_library = [];
+      for (const key of ["case_studies", "competitor_positioning"]) {
+        for (const entry of asRecords(kb[key])) {
+          if (!Array.isArray(entry.resources)) entry.resources = [];
+        }
+      }
+    },
+  },
+};
+
+export const FEEDBACK_LOG_MIGRATIONS: Record<string, Migration> = {};
+
+export const REP_DIRECTORY_MIGRATIONS: Record<string, Migration> = {};
+
+export const STAGE_CONFIG_MIGRATIONS: Record<string, Migration> = {
+  "1.0": {
+    to: "1.1",
+    description: "Add stage_order, suppress_backwards and transition_rules",
+    migrate(config) {
+      if (!Array.isArray(config.stage_order)) {
+        config.stage_order = ["Discovery", "Demo", "Proposal Sent", "Negotiation"];
+      }
+      if (typeof config.suppress_backwards !== "boolean") config.suppress_backwards = true;
+      if (!Array.isArray(config.transition_rules)) config.transition_rules = [];
+    },
+  },
+};
+
+export const FIELD_MAPPING_MIGRATIONS: Record<string, Migration> = {};
+
+// ============================================================
+// PARSERS
+// ============================================================
+
+/**
+ * Migrate + validate a knowledge base. `source` names where it came
+ * from (a file path, "sync payload", ...) for the error message.
+ *
+ * The input object is migrated in place and returned — fields the
+ * schema doesn't know about are kept, not stripped.
+ */
+export function parseKnowledgeBase(data: unknown, source: string): KnowledgeBase {
+  return parseDataFile(data, `knowledge base (${source})`, {
+    schema: KnowledgeBaseSchema,
+    migrations: KB_MIGRATIONS,
+    current: KB_SCHEMA_VERSION,
+  });
+}
+
+export function parseFeedbackLog(data: unknown, source: string): FeedbackLog {
+  return parseDataFile(data, `feedback log (${source})`, {
+    schema: FeedbackLogSchema,
+    migrations: FEEDBACK_LOG_MIGRATIONS,
+    current: FEEDBACK_LOG_SCHEMA_VERSION,
+  });
+}
+
+export function parseRepDirectory(data: unknown, source: string): RepDirectory {
+  return parseDataFile(data, `rep directory (${source})`, {
+    schema: RepDirectorySchema,
+    migrations: REP_DIRECTORY_MIGRATIONS,
+    current: REP_DIRECTORY_SCHEMA_VERSION,
+  });
+}
+
+export function parseStageConfig(data: unknown, source: string): StageConfig {
+  return parseDataFile(data, `stage config (${source})`, {
+    schema: StageConfigSchema,
+    migrations: STAGE_CONFIG_MIGRATIONS,
+    current: STAGE_CONFIG_SCHEMA_VERSION,
+  });
+}
+
+export function parseFieldMapping(data: unknown, source: string): FieldMapping {
+  return parseDataFile(data, `field mapping (${source})`, {
+    schema: FieldMappingSchema,
+    migrations: FIELD_MAPPING_MIGRATIONS,
+    current: FIELD_MAPPING_SCHEMA_VERSION,
+  });
+}
+
+/**
+ * Read every data file once so a malformed one stops the process at
+ * startup instead of failing the first webhook that touches it.
+ */
+export function checkDataFiles(storage: Storage): void {
+  storage.readKB();
+  storage.readFeedbackLog();
+  storage.readRepDirectory();
+  storage.readStageConfig();
+  storage.readFieldMapping();
+}
+
+// ── Helpers ────────────────────────────────────────────────
+
+interface DataFileSpec {
+  schema: ZodTypeAny;
+  migrations: Record<string, Migration>;
+  current: string;
+}
+
+function parseDataFile<T>(data: unknown, label: string, spec: DataFileSpec): T {
+  if (!isRecord(data)) {
+    throw new DataValidationError(label, ["expected a JSON object"]);
+  }
+
+  migrate(data, label, spec);
+
+  const result = spec.schema.safeParse(data);
+  if (!result.success) {
+    throw new DataValidationError(label, formatIssues(result.error));
+  }
+  return data as T;
+}
+
+function migrate(data: DataRecord, label: string, spec: DataFileSpec): void {
+  // No _meta at all — nothing to key on; let the schema report it
+  if (!isRecord(data._meta)) return;
+  const meta = data._meta;
+
+  let version = typeof meta.version === "string" ? meta.version : BASELINE_VERSION;
+  while (version !== spec.current) {
+    const step = spec.migrations[version];
+    if (!step) {
+      throw new DataValidationError(label, [
+        `_meta.version: "${version}" is not a known version (this build reads up to "${spec.current}") — ` +
+          "upgrade this install or restore the file from a backup",
+      ]);
+    }
+    step.migrate(data);
+    version = step.to;
+    meta.version = version;
+  }
+}
+
+function formatIssues(error: ZodError): string[] {
+  return error.issues.map((issue) => {
+    const path = issue.path.reduce<string>(
+      (acc, key) => (typeof key === "number" ? `${acc}[${key}]` : acc ? `${acc}.${key}` : key),
+      ""
+    );
+    return `${path || "(root)"}: ${issue.message}`;
+  });
+}
+
+function isRecord(value: unknown): value is DataRecord {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function asRecords(value: unknown): DataRecord[] {
+  return Array.isArray(value) ? value.filter(isRecord) : [];
+}
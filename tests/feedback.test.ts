@@ -4,7 +4,9 @@
  */
 
 import { describe, it, expect } from "vitest";
-import { parseFeedback } from "../src/feedback/parse.js";
+import { parseFeedback, repliedMessage } from "../src/feedback/parse.js";
+import { attachDelivery } from "../src/feedback/deliveries.js";
+import { verifySlackSignature } from "../src/server/slack-signature.js";
 import {
   buildOutcomeNotification,
   buildFieldSignalNotification,
@@ -13,8 +15,13 @@ import {
   slackButtonPayload,
   slackNotHelpfulPayload,
   slackThreadReplyPayload,
+  slackBotThreadMessagePayload,
+  slackEditedReplyPayload,
   slackVerificationPayload,
+  slackSignedButtonRequest,
+  SLACK_TEST_SIGNING_SECRET,
   telegramCallbackPayload,
+  telegramDeliveryCallbackPayload,
   telegramReplyPayload,
   callIntelPayload,
 } from "./fixtures/payloads.js";
@@ -113,6 +120,67 @@ describe("Slack Thread Reply", () => {
   it("extracts rep ID from event", () => {
     expect((result as Record<string, unknown>).rep_id).toBe("U12345");
   });
+
+  it("names the message it's threaded under", () => {
+    expect(repliedMessage(slackThreadReplyPayload)).toEqual({
+      channel: "D0TESTDM1",
+      id: "1234567890.123456",
+    });
+  });
+
+  it("ignores bot messages in the thread", () => {
+    expect(parseFeedback(slackBotThreadMessagePayload)).toBeNull();
+    expect(repliedMessage(slackBotThreadMessagePayload)).toBeNull();
+  });
+
+  it("ignores edits", () => {
+    expect(parseFeedback(slackEditedReplyPayload)).toBeNull();
+    expect(repliedMessage(slackEditedReplyPayload)).toBeNull();
+  });
+
+  it("keeps replies also sent to the channel", () => {
+    const broadcast = {
+      event: { ...slackThreadReplyPayload.event, subtype: "thread_broadcast" },
+    };
+    expect((parseFeedback(broadcast) as Record<string, unknown>).source).toBe("reply");
+  });
+});
+
+// ============================================================
+// REPLY LINKING
+// ============================================================
+
+describe("Reply Linking", () => {
+  const delivery = {
+    delivery_id: "del-thread1",
+    deal_id: "8841920731",
+    deal_name: "Acme Corp Enterprise Platform",
+    deal_stage: "Proposal Sent",
+    industry: "Healthcare",
+    competitor: "Gong",
+    rep_id: "U12345",
+    case_studies_surfaced: [],
+    competitors_surfaced: [],
+    channel: "slack",
+    message_ref: { channel: "D0TESTDM1", id: "1234567890.123456" },
+    timestamp: "2026-01-01T00:00:00.000Z",
+  };
+
+  it("points the reply at the delivery and its deal", () => {
+    const reply = parseFeedback(slackThreadReplyPayload) as Parameters<typeof attachDelivery>[0];
+    const linked = attachDelivery(reply, delivery);
+
+    expect(linked).toMatchObject({
+      delivery_id: "del-thread1",
+      deal_id: "8841920731",
+      deal_name: "Acme Corp Enterprise Platform",
+      rep_id: "U12345",
+      raw_text: reply.raw_text,
+    });
+    expect(buildFieldSignalNotification(linked, delivery).text).toContain(
+      "Acme Corp Enterprise Platform (Proposal Sent, Healthcare)"
+    );
+  });
 });
 
 // ============================================================
@@ -133,6 +201,44 @@ describe("Slack URL Verification", () => {
   });
 });
 
+// ============================================================
+// SLACK REQUEST SIGNATURES
+// ============================================================
+
+describe("Slack Request Signatures", () => {
+  const { rawBody, headers, signedAt } = slackSignedButtonRequest;
+  const tolerance = 300_000;
+
+  it("accepts a request signed with the signing secret", () => {
+    expect(verifySlackSignature(headers, rawBody, SLACK_TEST_SIGNING_SECRET, tolerance, signedAt + 1000)).toBeNull();
+  });
+
+  it("rejects a changed body or another secret", () => {
+    const forged = rawBody.replace("feedback_helpful", "feedback_not_helpful");
+    expect(verifySlackSignature(headers, forged, SLACK_TEST_SIGNING_SECRET, tolerance, signedAt)).toBe("signature mismatch");
+    expect(verifySlackSignature(headers, rawBody, "another-secret", tolerance, signedAt)).toBe("signature mismatch");
+  });
+
+  it("rejects timestamps outside the tolerance, either way", () => {
+    expect(verifySlackSignature(headers, rawBody, SLACK_TEST_SIGNING_SECRET, tolerance, signedAt + tolerance + 1)).toBe(
+      "request timestamp outside tolerance"
+    );
+    expect(verifySlackSignature(headers, rawBody, SLACK_TEST_SIGNING_SECRET, tolerance, signedAt - tolerance - 1)).toBe(
+      "request timestamp outside tolerance"
+    );
+  });
+
+  it("rejects missing or malformed headers", () => {
+    expect(verifySlackSignature({}, rawBody, SLACK_TEST_SIGNING_SECRET, tolerance, signedAt)).toContain("missing");
+    expect(
+      verifySlackSignature({ ...headers, "x-slack-signature": "v0=abc" }, rawBody, SLACK_TEST_SIGNING_SECRET, tolerance, signedAt)
+    ).toBe("signature mismatch");
+    expect(
+      verifySlackSignature({ ...headers, "x-slack-request-timestamp": "soon" }, rawBody, SLACK_TEST_SIGNING_SECRET, tolerance, signedAt)
+    ).toBe("invalid X-Slack-Request-Timestamp");
+  });
+});
+
 // ============================================================
 // TELEGRAM CALLBACK QUERY
 // ============================================================
@@ -155,6 +261,16 @@ describe("Telegram Callback Query", () => {
   it("extracts rep ID from from.id", () => {
     expect((result as Record<string, unknown>).rep_id).toBe("987654321");
   });
+
+  it("names the message whose button was pressed", () => {
+    expect(repliedMessage(telegramDeliveryCallbackPayload)).toEqual({ channel: "111222333", id: "42" });
+    expect(repliedMessage(telegramCallbackPayload)).toBeNull();
+  });
+
+  it("ignores presses of the clicked label", () => {
+    const noop = { callback_query: { ...telegramDeliveryCallbackPayload.callback_query, data: "noop" } };
+    expect(parseFeedback(noop)).toBeNull();
+  });
 });
 
 // ============================================================
@@ -185,6 +301,18 @@ describe("Telegram Text Reply", () => {
   it("extracts rep ID from from.id", () => {
     expect((result as Record<string, unknown>).rep_id).toBe("111222333");
   });
+
+  it("names the message replied to, in the reply's chat", () => {
+    expect(repliedMessage(telegramReplyPayload)).toEqual({ channel: "111222333", id: "42" });
+  });
+
+  it("ignores messages from bots", () => {
+    const fromBot = {
+      message: { ...telegramReplyPayload.message, from: { id: 5550001, is_bot: true } },
+    };
+    expect(parseFeedback(fromBot)).toBeNull();
+    expect(repliedMessage(fromBot)).toBeNull();
+  });
 });
 
 // ============================================================
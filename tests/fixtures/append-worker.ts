@@ -0,0 +1,18 @@
+/**
+ * Child process for the concurrent-append tests — appends N deliveries
+ * and N feedback entries to the feedback log given on the command line.
+ *
+ * Usage: vite-node tests/fixtures/append-worker.ts <feedbackLogPath> <workerId> <count>
+ */
+
+import { appendDelivery, appendFeedback } from "../../src/shared/data.js";
+import { populatedFeedbackLog } from "./knowledge-base.js";
+
+const [path, workerId, count] = process.argv.slice(2);
+const [delivery] = populatedFeedbackLog.deliveries;
+const [feedback] = populatedFeedbackLog.feedback;
+
+for (let i = 0; i < Number(count); i++) {
+  appendDelivery(path, { ...delivery, delivery_id: `del-w${workerId}-${i}` });
+  appendFeedback(path, { ...feedback, id: `fb-w${workerId}-${i}` });
+}
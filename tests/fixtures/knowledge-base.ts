@@ -11,7 +11,7 @@ export const emptyKB: KnowledgeBase = {
   methodology: null,
   _meta: {
     last_updated: null,
-    version: "1.0",
+    version: "1.1",
     entry_count: 0,
     configured: false,
   },
@@ -99,7 +99,7 @@ export const configuredKB: KnowledgeBase = {
   },
   _meta: {
     last_updated: "2026-02-27T10:00:00Z",
-    version: "1.0",
+    version: "1.1",
     entry_count: 7,
     configured: true,
   },
@@ -1,9 +1,15 @@
 /**
  * Test fixtures — CRM webhook payloads shaped like real data.
- * Covers HubSpot, Salesforce, Attio, Pipedrive, Close, generic, and minimal.
+ * Covers HubSpot (flat and v3 subscription batches), Salesforce (JSON
+ * and Outbound Message XML), Attio, Pipedrive, Close, Zoho CRM,
+ * Dynamics 365, Freshsales, Copper, generic, and minimal.
+ * Slack requests come signed (see signSlackRequest).
  */
 
+import { createHmac } from "crypto";
+
 export const hubspotPayload = {
+  objectId: 8841920731,
   properties: {
     dealname: "Acme Corp Enterprise Platform",
     dealstage: "Proposal Sent",
@@ -19,7 +25,77 @@ export const hubspotPayload = {
   },
 };
 
+// HubSpot v3 webhook subscription batch — events only, the deal is looked up
+export const hubspotEventBatch = [
+  {
+    eventId: 3121834221,
+    subscriptionId: 2211094,
+    portalId: 62515,
+    appId: 1160452,
+    occurredAt: 1767225660000,
+    subscriptionType: "deal.propertyChange",
+    attemptNumber: 0,
+    objectId: 8841920731,
+    propertyName: "dealstage",
+    propertyValue: "qualifiedtobuy",
+    changeSource: "CRM_UI",
+  },
+  {
+    eventId: 3121834220,
+    subscriptionId: 2211094,
+    portalId: 62515,
+    appId: 1160452,
+    occurredAt: 1767225600000,
+    subscriptionType: "deal.propertyChange",
+    attemptNumber: 0,
+    objectId: 8841920731,
+    propertyName: "dealstage",
+    propertyValue: "appointmentscheduled",
+    changeSource: "CRM_UI",
+  },
+  {
+    eventId: 3121834222,
+    subscriptionId: 2211095,
+    portalId: 62515,
+    appId: 1160452,
+    occurredAt: 1767225660000,
+    subscriptionType: "deal.propertyChange",
+    attemptNumber: 0,
+    objectId: 8841920731,
+    propertyName: "amount",
+    propertyValue: "175000",
+    changeSource: "CRM_UI",
+  },
+];
+
+// What GET /crm/v3/objects/deals/8841920731 answers — property values are strings
+export const hubspotDealResponse = {
+  id: "8841920731",
+  properties: {
+    dealname: "Acme Corp Enterprise Platform",
+    dealstage: "qualifiedtobuy",
+    amount: "175000",
+    hs_object_id: "8841920731",
+    hubspot_owner_id: "41029384",
+    industry: "Financial Services",
+    competitor: "Gong",
+  },
+  createdAt: "2026-01-01T00:00:00.000Z",
+  updatedAt: "2026-01-01T00:01:00.000Z",
+  archived: false,
+};
+
+export const hubspotOwnerResponse = {
+  id: "41029384",
+  email: "sarah.chen@yourcompany.com",
+  firstName: "Sarah",
+  lastName: "Chen",
+  userId: 9104412,
+  archived: false,
+};
+
 export const salesforcePayload = {
+  Id: "0065e00000GtXyZAAV",
   Name: "GlobalTech Series B Expansion",
   StageName: "Negotiation",
   Industry__c: "SaaS / Technology",
@@ -32,7 +108,48 @@ export const salesforcePayload = {
   Product_Interest__c: "Sales Engagement Suite",
 };
 
+// Salesforce Workflow Outbound Message — SOAP XML, two notifications
+export const salesforceOutboundMessage = `<?xml version="1.0" encoding="UTF-8"?>
+<soapenv:Envelope xmlns:soapenv="http://schemas.xmlsoap.org/soap/envelope/" xmlns:xsd="http://www.w3.org/2001/XMLSchema" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">
+ <soapenv:Body>
+  <notifications xmlns="http://soap.sforce.com/2005/09/outbound">
+   <OrganizationId>00D5e000000Hk2LEAS</OrganizationId>
+   <ActionId>04k5e000000Cb9QAAS</ActionId>
+   <SessionId xsi:nil="true"/>
+   <EnterpriseUrl>https://globaltech.my.salesforce.com/services/Soap/c/59.0/00D5e000000Hk2L</EnterpriseUrl>
+   <PartnerUrl>https://globaltech.my.salesforce.com/services/Soap/u/59.0/00D5e000000Hk2L</PartnerUrl>
+   <Notification>
+    <Id>04l5e00000XqA1bAAF</Id>
+    <sObject xsi:type="sf:Opportunity" xmlns:sf="urn:sobject.enterprise.soap.sforce.com">
+     <sf:Id>0065e00000SoapAAA</sf:Id>
+     <sf:Amount>85000.0</sf:Amount>
+     <sf:Competitor__c>Outreach</sf:Competitor__c>
+     <sf:Description>VP of Sales is champion &amp; CRO needs ROI proof.</sf:Description>
+     <sf:Industry__c>SaaS / Technology</sf:Industry__c>
+     <sf:Name>Soap Co Expansion</sf:Name>
+     <sf:NextStep xsi:nil="true"/>
+     <sf:StageName>Discovery</sf:StageName>
+    </sObject>
+   </Notification>
+   <Notification>
+    <Id>04l5e00000XqA1cAAF</Id>
+    <sObject xsi:type="sf:Opportunity" xmlns:sf="urn:sobject.enterprise.soap.sforce.com">
+     <sf:Id>0065e00000SoapBBB</sf:Id>
+     <sf:Amount>12000.0</sf:Amount>
+     <sf:Name>Soap Co Renewal</sf:Name>
+     <sf:StageName>Demo</sf:StageName>
+    </sObject>
+   </Notification>
+  </notifications>
+ </soapenv:Body>
+</soapenv:Envelope>`;
+
 export const attioPayload = {
+  id: {
+    workspace_id: "9b2c6a1e-7d4f-4e8a-b0f3-2a5c8d1e6f90",
+    object_id: "5f1d3c7a-2b8e-4d6f-9a1c-3e7b5d2f8a40",
+    record_id: "c4e8a2f6-1d3b-4f7e-8a9c-6b2d4e8f1a35",
+  },
   attributes: {
     name: "DataSync Pro Deal",
     stage: "Proposal Sent",
@@ -49,6 +166,7 @@ export const attioPayload = {
 
 export const pipedrivePayload = {
   current: {
+    id: 1042,
     title: "MedFlow Enterprise",
     stage_name: "Negotiation",
     org_name: "MedFlow Inc",
@@ -66,6 +184,7 @@ export const pipedrivePayload = {
 };
 
 export const closePayload = {
+  opportunity_id: "oppo_8kXvJ2mN4pQ7rT1wY9zB3cD5",
   lead: {
     display_name: "TechStart Seed Round",
     name: "TechStart Inc",
@@ -80,6 +199,142 @@ export const closePayload = {
   product_interest: "Starter Plan",
 };
 
+// Zoho CRM workflow webhook — the Deals record with its API field names
+export const zohoPayload = {
+  id: "4876876000001234567",
+  Deal_Name: "Northwind Logistics Rollout",
+  Stage: "Negotiation/Review",
+  Amount: 64000,
+  Account_Name: { name: "Northwind Logistics", id: "4876876000000998877" },
+  Owner: { name: "Priya Nair", id: "4876876000000321001", email: "priya.nair@yourcompany.com" },
+  Description: "Ops director wants a pilot in two depots first.",
+  Industry: "Logistics",
+  Competitor: "Clari",
+  Product_Interest: "Forecasting Suite",
+  Rep_Slack_ID: "U04ZOHO1",
+  Closing_Date: "2026-06-30",
+};
+
+// Dynamics 365 webhook step on opportunity Update — RemoteExecutionContext
+// with a post image and a pre image
+export const dynamicsPayload = {
+  BusinessUnitId: "5c1a2b3d-0000-0000-0000-000000000001",
+  CorrelationId: "9e4f1a2b-3c4d-4e5f-8a9b-0c1d2e3f4a5b",
+  Depth: 1,
+  InitiatingUserId: "1f2e3d4c-0000-0000-0000-00000000beef",
+  InputParameters: [
+    {
+      key: "Target",
+      value: {
+        __type: "Entity:http://schemas.microsoft.com/xrm/2011/Contracts",
+        Attributes: [
+          { key: "opportunityid", value: "b7e3c1d2-5f6a-4b8c-9d0e-1f2a3b4c5d6e" },
+          { key: "stepname", value: "3-Propose" },
+        ],
+        FormattedValues: [{ key: "salesstage", value: "Propose" }],
+        Id: "b7e3c1d2-5f6a-4b8c-9d0e-1f2a3b4c5d6e",
+        LogicalName: "opportunity",
+      },
+    },
+  ],
+  MessageName: "Update",
+  OperationId: "0d9c8b7a-6f5e-4d3c-2b1a-000000000042",
+  PrimaryEntityId: "b7e3c1d2-5f6a-4b8c-9d0e-1f2a3b4c5d6e",
+  PrimaryEntityName: "opportunity",
+  PostEntityImages: [
+    {
+      key: "PostImage",
+      value: {
+        Attributes: [
+          { key: "name", value: "Contoso Fleet Renewal" },
+          { key: "stepname", value: "3-Propose" },
+          {
+            key: "estimatedvalue",
+            value: { __type: "Money:http://schemas.microsoft.com/xrm/2011/Contracts", Value: 210000 },
+          },
+          {
+            key: "parentaccountid",
+            value: {
+              __type: "EntityReference:http://schemas.microsoft.com/xrm/2011/Contracts",
+              Id: "a1b2c3d4-0000-0000-0000-000000000777",
+              LogicalName: "account",
+              Name: "Contoso Ltd",
+            },
+          },
+          {
+            key: "ownerid",
+            value: {
+              __type: "EntityReference:http://schemas.microsoft.com/xrm/2011/Contracts",
+              Id: "1f2e3d4c-0000-0000-0000-00000000beef",
+              LogicalName: "systemuser",
+              Name: "Tom Becker",
+            },
+          },
+          { key: "description", value: "Renewal with a fleet telematics upsell." },
+          { key: "new_competitor", value: "Gong" },
+          { key: "new_owneremail", value: "tom.becker@yourcompany.com" },
+          {
+            key: "statecode",
+            value: { __type: "OptionSetValue:http://schemas.microsoft.com/xrm/2011/Contracts", Value: 0 },
+          },
+        ],
+        FormattedValues: [
+          { key: "salesstage", value: "Propose" },
+          { key: "statecode", value: "Open" },
+          { key: "estimatedvalue", value: "$210,000.00" },
+        ],
+      },
+    },
+  ],
+  PreEntityImages: [
+    {
+      key: "PreImage",
+      value: {
+        Attributes: [{ key: "stepname", value: "2-Develop" }],
+        FormattedValues: [{ key: "salesstage", value: "Develop" }],
+      },
+    },
+  ],
+  UserId: "1f2e3d4c-0000-0000-0000-00000000beef",
+};
+
+// Freshsales workflow webhook — the deal with its owner and account
+export const freshsalesPayload = {
+  deal: {
+    id: 70000123456,
+    name: "Brightline Clinics Expansion",
+    amount: "48000.0",
+    deal_stage_id: 70000000104,
+    deal_stage: { id: 70000000104, name: "Negotiation" },
+    sales_account: { id: 70000055501, name: "Brightline Clinics" },
+    owner: { id: 70000000011, display_name: "Ana Ruiz", email: "ana.ruiz@yourcompany.com" },
+    custom_field: {
+      cf_competitor: "Salesloft",
+      cf_industry: "Healthcare",
+      cf_product_interest: "Coaching Add-on",
+      cf_notes: "Needs SSO before rollout.",
+      cf_rep_slack_id: "U04FRESH1",
+    },
+  },
+};
+
+// Copper opportunity webhook — the record, with the change that fired it
+export const copperPayload = {
+  id: 27140359,
+  name: "Harbor Analytics Platform",
+  company_name: "Harbor Analytics",
+  pipeline_id: 213214,
+  pipeline_stage_id: 987793,
+  status: "Open",
+  monetary_value: 36000,
+  details: "Champion is the Head of RevOps.",
+  assignee_id: 137658,
+  assignee: { id: 137658, name: "Dev Patel", email: "dev.patel@yourcompany.com" },
+  competitor: "Outreach",
+  industry: "SaaS / Technology",
+  updated_attributes: { pipeline_stage_id: [987792, 987793] },
+};
+
 export const genericPayload = {
   deal_name: "QuickStart SMB Deal",
   deal_stage: "Proposal Sent",
@@ -151,17 +406,80 @@ export const slackNotHelpfulPayload = {
 export const slackThreadReplyPayload = {
   event: {
     type: "message",
+    channel: "D0TESTDM1",
+    ts: "1234567899.000200",
     thread_ts: "1234567890.123456",
     text: "Prospect asked about SOC 2 compliance — we don't have an answer for that.",
     user: "U12345",
   },
 };
 
+/** The engine's own message in the thread — must not count as feedback. */
+export const slackBotThreadMessagePayload = {
+  event: {
+    type: "message",
+    subtype: "bot_message",
+    bot_id: "B0TESTBOT",
+    channel: "D0TESTDM1",
+    ts: "1234567899.000300",
+    thread_ts: "1234567890.123456",
+    text: "Thanks — logged for your PMM.",
+  },
+};
+
+/** A rep editing their reply. */
+export const slackEditedReplyPayload = {
+  event: {
+    type: "message",
+    subtype: "message_changed",
+    channel: "D0TESTDM1",
+    text: "Prospect asked about SOC 2 and HIPAA.",
+    thread_ts: "1234567890.123456",
+    message: {
+      user: "U12345",
+      text: "Prospect asked about SOC 2 and HIPAA.",
+      ts: "1234567899.000200",
+      thread_ts: "1234567890.123456",
+    },
+  },
+};
+
 export const slackVerificationPayload = {
   type: "url_verification",
   challenge: "abc123challenge",
 };
 
+// ── Slack request signing ───────────────────────────────────
+
+export const SLACK_TEST_SIGNING_SECRET = "8f742231b10e8888abcd99yyyzzz85a5";
+
+/** slackButtonPayload as Slack POSTs it — form-encoded, signed at 2026-01-01T00:00:00Z. */
+export const slackSignedButtonRequest = {
+  rawBody:
+    "payload=%7B%22actions%22%3A%5B%7B%22action_id%22%3A%22feedback_helpful%22%2C%22value%22%3A%22del-test123%22%7D%5D%2C%22user%22%3A%7B%22id%22%3A%22U12345%22%7D%7D",
+  headers: {
+    "x-slack-request-timestamp": "1767225600",
+    "x-slack-signature": "v0=47365bb4ade0e24612f37c14c9883629dc6dc755eead4a403ffd51ef0cb7e591",
+  },
+  signedAt: 1767225600000,
+};
+
+/**
+ * Headers Slack would send with a body — signed with the test secret,
+ * timestamped now unless given a time (seconds).
+ */
+export function signSlackRequest(
+  rawBody: string,
+  timestamp: number = Math.floor(Date.now() / 1000),
+  secret: string = SLACK_TEST_SIGNING_SECRET
+): Record<string, string> {
+  const signature = createHmac("sha256", secret).update(`v0:${timestamp}:${rawBody}`).digest("hex");
+  return {
+    "X-Slack-Request-Timestamp": String(timestamp),
+    "X-Slack-Signature": `v0=${signature}`,
+  };
+}
+
 export const telegramCallbackPayload = {
   callback_query: {
     data: "helpful:del-tg789",
@@ -171,12 +489,24 @@ export const telegramCallbackPayload = {
 
 export const telegramReplyPayload = {
   message: {
+    message_id: 57,
+    chat: { id: 111222333, type: "private" },
     text: "Gong just launched real-time coaching too — our differentiator needs updating.",
     from: { id: 111222333 },
     reply_to_message: { message_id: 42 },
   },
 };
 
+/** A button press on a delivered message — callback_query.message is that message. */
+export const telegramDeliveryCallbackPayload = {
+  callback_query: {
+    id: "4382bfdwdsb323b2d9",
+    data: "not_helpful:del-tg789",
+    from: { id: 111222333 },
+    message: { message_id: 42, chat: { id: 111222333, type: "private" } },
+  },
+};
+
 export const callIntelPayload = {
   deal_name: "Acme Corp",
   summary:
@@ -0,0 +1,176 @@
+/**
+ * Job queue tests — pipeline jobs run step by step against real JSON
+ * storage, retry a failing step with backoff (without re-running the
+ * steps before it), record failures, and resume after a restart.
+ */
+
+import { describe, it, expect, beforeEach, afterAll } from "vitest";
+import { resolve } from "path";
+import { mkdirSync, existsSync, rmSync } from "fs";
+import { createStorage } from "../src/shared/storage.js";
+import type { Storage } from "../src/shared/storage.js";
+import { createJobQueue, PermanentJobError } from "../src/server/job-queue.js";
+import type { JobHandlers, JobStep } from "../src/server/job-queue.js";
+
+const testDataDir = resolve(import.meta.dirname, "__test-data-jobs__");
+const options = { maxAttempts: 3, retryBaseMs: 5 };
+
+let storage: Storage;
+let calls: string[];
+
+/** A step that records each call and fails its first `failures` runs. */
+function step(name: string, failures = 0, error: () => Error = () => new Error(`${name} down`)): JobStep {
+  let runs = 0;
+  return {
+    name,
+    async run(ctx) {
+      calls.push(name);
+      if (runs++ < failures) throw error();
+      ctx.state[name] = runs;
+    },
+  };
+}
+
+function handlers(enablement: JobStep[]): JobHandlers {
+  return { enablement, outcome: [] };
+}
+
+beforeEach(() => {
+  if (existsSync(testDataDir)) {
+    rmSync(testDataDir, { recursive: true });
+  }
+  mkdirSync(testDataDir, { recursive: true });
+  storage = createStorage({
+    storageBackend: "json",
+    kbPath: resolve(testDataDir, "knowledge-base.json"),
+    feedbackLogPath: resolve(testDataDir, "feedback-log.json"),
+    repDirectoryPath: resolve(testDataDir, "rep-directory.json"),
+    sqlitePath: resolve(testDataDir, "jit-enablement.db"),
+  });
+  calls = [];
+});
+
+afterAll(() => {
+  if (existsSync(testDataDir)) {
+    rmSync(testDataDir, { recursive: true });
+  }
+});
+
+// ============================================================
+// RUNNING + RETRIES
+// ============================================================
+
+describe("Pipeline Job Queue", () => {
+  it("runs every step and records the checkpoint", async () => {
+    const queue = createJobQueue(storage, handlers([step("resolve"), step("deliver")]), options);
+
+    const { id } = queue.enqueue("enablement", { deal_name: "Acme" }, "Discovery");
+    expect(storage.getJob(id)?.payload).toEqual({ deal_name: "Acme" });
+    await queue.idle();
+
+    const job = storage.getJob(id);
+    expect(job).toMatchObject({ status: "succeeded", step: null, result: "completed" });
+    expect(job?.state).toEqual({ resolve: 1, deliver: 1 });
+    expect(calls).toEqual(["resolve", "deliver"]);
+  });
+
+  it("retries only the failing step", async () => {
+    const queue = createJobQueue(
+      storage,
+      handlers([step("generate"), step("deliver", 2)]),
+      options
+    );
+
+    const { id } = queue.enqueue("enablement", {}, "Discovery");
+    await queue.idle();
+
+    expect(calls).toEqual(["generate", "deliver", "deliver", "deliver"]);
+    expect(storage.getJob(id)).toMatchObject({ status: "succeeded", attempts: 0, last_error: null });
+  });
+
+  it("records a failure once the attempts run out", async () => {
+    const queue = createJobQueue(storage, handlers([step("generate"), step("deliver", 99)]), options);
+
+    const { id } = queue.enqueue("enablement", {}, "Discovery");
+    await queue.idle();
+
+    expect(storage.getJob(id)).toMatchObject({
+      status: "failed",
+      step: "deliver",
+      attempts: 3,
+      last_error: "deliver down",
+      next_attempt_at: null,
+    });
+    expect(storage.getJob(id)?.state).toEqual({ generate: 1 });
+  });
+
+  it("fails straight away on a permanent error", async () => {
+    const queue = createJobQueue(
+      storage,
+      handlers([step("resolve", 1, () => new PermanentJobError("no way to reach rep")), step("deliver")]),
+      options
+    );
+
+    const { id } = queue.enqueue("enablement", {}, "Discovery");
+    await queue.idle();
+
+    expect(calls).toEqual(["resolve"]);
+    expect(storage.getJob(id)).toMatchObject({ status: "failed", attempts: 1, last_error: "no way to reach rep" });
+  });
+
+  it("hands a failed job to onFailed once", async () => {
+    const failed: string[] = [];
+    const queue = createJobQueue(storage, handlers([step("deliver", 99)]), {
+      ...options,
+      onFailed: (job) => failed.push(`${job.id}:${job.step}`),
+    });
+
+    const { id } = queue.enqueue("enablement", {}, "Discovery");
+    await queue.idle();
+
+    expect(failed).toEqual([`${id}:deliver`]);
+  });
+
+  it("stops early when a step finishes the job", async () => {
+    const finish: JobStep = { name: "record", run: async (ctx) => ctx.finish("No prior enablement") };
+    const queue = createJobQueue(storage, handlers([finish, step("notify")]), options);
+
+    const { id } = queue.enqueue("enablement", {}, "Closed Won");
+    await queue.idle();
+
+    expect(calls).toEqual([]);
+    expect(storage.getJob(id)).toMatchObject({ status: "succeeded", result: "No prior enablement" });
+  });
+});
+
+// ============================================================
+// RESUME
+// ============================================================
+
+describe("Job Resume", () => {
+  it("picks up unfinished jobs at the step they stopped on", async () => {
+    const now = new Date().toISOString();
+    const base = {
+      kind: "enablement" as const,
+      payload: {},
+      stage: "Discovery",
+      attempts: 0,
+      next_attempt_at: null,
+      last_error: null,
+      result: null,
+      created_at: now,
+      updated_at: now,
+    };
+    // Died mid-delivery, waiting on a retry, and already done
+    storage.saveJob({ ...base, id: "job-a", status: "running", step: "deliver", state: { resolve: 1 } });
+    storage.saveJob({ ...base, id: "job-b", status: "pending", step: "resolve", state: {}, attempts: 1, next_attempt_at: now });
+    storage.saveJob({ ...base, id: "job-c", status: "succeeded", step: null, state: {} });
+
+    const queue = createJobQueue(storage, handlers([step("resolve"), step("deliver")]), options);
+    expect(queue.resume()).toBe(2);
+    await queue.idle();
+
+    expect(calls.sort()).toEqual(["deliver", "deliver", "resolve"]);
+    expect(storage.listJobs(["succeeded"]).map((j) => j.id)).toEqual(["job-a", "job-b", "job-c"]);
+  });
+});
@@ -18,6 +18,8 @@ import {
   appendFeedback,
 } from "../src/shared/data.js";
 import { generateId, generateDeliveryId, generateFeedbackId } from "../src/shared/id.js";
+import { diffKB, formatKBDiff, isEmptyDiff } from "../src/shared/kb-diff.js";
+import { deliveryStats } from "../src/shared/delivery-stats.js";
 import type {
   KnowledgeBase,
   CaseStudy,
@@ -363,3 +365,94 @@ describe("KB Meta Invariants", () => {
     expect(kb._meta.entry_count).toBe(6);
   });
 });
+
+// ============================================================
+// KB DIFF (diff_kb_versions / rollback_kb)
+// ============================================================
+
+describe("KB Diff", () => {
+  it("reports no differences for identical KBs", () => {
+    const diff = diffKB(configuredKB, structuredClone(configuredKB));
+    expect(isEmptyDiff(diff)).toBe(true);
+    expect(formatKBDiff(diff)).toBe("No differences.");
+  });
+
+  it("detects added, removed and changed entries by ID", () => {
+    const after = structuredClone(configuredKB);
+    after.case_studies.pop();
+    after.case_studies[0].metric = "99% faster";
+    after.competitor_positioning.push({
+      id: "cp-003",
+      competitor: "Clari",
+      differentiator: "Real-time, not weekly",
+      category: "Forecasting",
+      supporting_evidence: "",
+    });
+
+    const diff = diffKB(configuredKB, after);
+    expect(diff.case_studies.changed).toEqual(["cs-001 (FinServ Corp)"]);
+    expect(diff.case_studies.removed).toHaveLength(1);
+    expect(diff.competitor_positioning.added).toEqual(["cp-003 (vs. Clari)"]);
+    expect(diff.methodology_changed).toBe(false);
+  });
+
+  it("flags methodology changes and renders markdown", () => {
+    const after = { ...structuredClone(configuredKB), methodology: null };
+    const text = formatKBDiff(diffKB(configuredKB, after));
+    expect(text).toContain("**Methodology:** changed");
+  });
+});
+
+// ============================================================
+// DELIVERY STATS
+// ============================================================
+
+describe("Delivery Stats", () => {
+  const [delivery] = populatedFeedbackLog.deliveries;
+  const failed = (id: string, code: string, message: string) => ({
+    ...delivery,
+    delivery_id: id,
+    status: "failed" as const,
+    attempts: 1,
+    error_code: code,
+    error_message: message,
+  });
+
+  it("counts sent, queued and failed — older entries without a status were sent", () => {
+    const stats = deliveryStats([
+      delivery,
+      { ...delivery, delivery_id: "del-sent", status: "sent" },
+      { ...delivery, delivery_id: "del-queued", status: "queued", attempts: 2 },
+      failed("del-f1", "channel_not_found", "Slack API error: channel_not_found"),
+    ]);
+
+    expect(stats).toMatchObject({ total: 4, sent: 2, queued: 1, failed: 1 });
+    // Queued deliveries haven't finished — 1 of 3
+    expect(stats.failure_rate).toBe(33);
+  });
+
+  it("ranks failure causes, most common first", () => {
+    const stats = deliveryStats([
+      failed("del-f1", "not_in_channel", "Slack API error: not_in_channel"),
+      failed("del-f2", "channel_not_found", "Slack API error: channel_not_found"),
+      failed("del-f3", "channel_not_found", "Slack API error: channel_not_found"),
+    ]);
+
+    expect(stats.failure_rate).toBe(100);
+    expect(stats.top_causes).toEqual([
+      { error_code: "channel_not_found", count: 2, example: "Slack API error: channel_not_found" },
+      { error_code: "not_in_channel", count: 1, example: "Slack API error: not_in_channel" },
+    ]);
+  });
+
+  it("reports nothing for no deliveries", () => {
+    expect(deliveryStats([])).toEqual({
+      total: 0,
+      sent: 0,
+      queued: 0,
+      failed: 0,
+      failure_rate: 0,
+      top_causes: [],
+    });
+  });
+});
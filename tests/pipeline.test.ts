@@ -3,9 +3,40 @@
  * from CRM webhook to delivery logging.
  */
 
-import { describe, it, expect } from "vitest";
-import { classifyStage, extractStage, filterStage } from "../src/pipeline/filter.js";
+import { describe, it, expect, afterEach } from "vitest";
+import { createHmac } from "crypto";
+import {
+  classifyStage,
+  classifyTransition,
+  extractPreviousStage,
+  extractStage,
+  filterStage,
+  stageOutcome,
+} from "../src/pipeline/filter.js";
+import { defaultStageConfig, defaultFieldMapping } from "../src/shared/data.js";
 import { parseCrmPayload } from "../src/pipeline/parse.js";
+import { mapField, readPath } from "../src/pipeline/field-map.js";
+import {
+  crmAdapters,
+  detectCrmAdapter,
+  getCrmAdapter,
+  registerCrmAdapter,
+  unregisterCrmAdapter,
+} from "../src/pipeline/crm-adapters.js";
+import type { CrmAdapter, CrmWebhookRequest } from "../src/pipeline/crm-adapters.js";
+import {
+  verifyAttioSignature,
+  verifyBasicAuth,
+  verifyCloseSignature,
+  verifyHubSpotSignature,
+  verifySharedSecret,
+  safeEqual,
+} from "../src/pipeline/crm-signatures.js";
+import {
+  isOutboundMessage,
+  parseOutboundMessage,
+  notificationPayload,
+} from "../src/pipeline/salesforce-soap.js";
 import { enrichDealContext } from "../src/pipeline/enrich.js";
 import { resolveRepIdentity } from "../src/pipeline/resolve.js";
 import { contextGate } from "../src/pipeline/gate.js";
@@ -13,14 +44,21 @@ import { buildPrompt } from "../src/pipeline/prompt.js";
 import { buildTemplateEnablement } from "../src/pipeline/template.js";
 import { formatSlackMessage } from "../src/pipeline/format-slack.js";
 import { buildDeliveryEntry } from "../src/pipeline/log.js";
+import { isPermanentSlackError } from "../src/pipeline/send-slack.js";
+import { isPermanentTelegramError } from "../src/pipeline/send-telegram.js";
 import { generateId, generateDeliveryId } from "../src/shared/id.js";
 import type { DealContext } from "../src/shared/types.js";
 import {
   hubspotPayload,
   salesforcePayload,
+  salesforceOutboundMessage,
   attioPayload,
   pipedrivePayload,
   closePayload,
+  zohoPayload,
+  dynamicsPayload,
+  freshsalesPayload,
+  copperPayload,
   genericPayload,
   minimalPayload,
   wrappedPayload,
@@ -58,6 +96,17 @@ describe("Stage Filter", () => {
     expect(classifyStage("")).toBe("skip");
   });
 
+  it("follows configured trigger stages", () => {
+    const rules = { ...defaultStageConfig(), enablement_stages: ["Demo Booked"], won_stages: ["Signed"] };
+    expect(classifyStage("Demo Booked", rules)).toBe("enablement");
+    expect(classifyStage("demo booked", rules)).toBe("enablement");
+    expect(classifyStage("Proposal Sent", rules)).toBe("skip");
+    expect(classifyStage("Signed", rules)).toBe("outcome");
+    expect(stageOutcome("Signed", rules)).toBe("won");
+    expect(stageOutcome("Closed Lost", rules)).toBe("lost");
+    expect(stageOutcome("Demo Booked", rules)).toBeNull();
+  });
+
   it("filterStage matches custom stages", () => {
     expect(filterStage("Custom Stage", ["Custom Stage", "Another"])).toBe(true);
     expect(filterStage("Nope", ["Custom Stage"])).toBe(false);
@@ -100,6 +149,151 @@ describe("Stage Extraction", () => {
   it("returns empty string for unknown format", () => {
     expect(extractStage({})).toBe("");
   });
+
+  it("maps HubSpot internal stage IDs by default", () => {
+    const payload = { properties: { ...hubspotPayload.properties, dealstage: "closedwon" } };
+    expect(extractStage(payload)).toBe("Closed Won");
+  });
+
+  it("maps stage IDs and labels through the CRM's map", () => {
+    const rules = defaultStageConfig();
+    rules.stage_maps.hubspot.appointmentscheduled = "Proposal Sent";
+    rules.stage_maps.pipedrive["7"] = "Negotiation";
+
+    const hubspot = { properties: { ...hubspotPayload.properties, dealstage: "AppointmentScheduled" } };
+    const pipedrive = { current: { title: "Deal", stage_id: 7, status: "open" } };
+    expect(extractStage(hubspot, rules)).toBe("Proposal Sent");
+    expect(extractStage(pipedrive, rules)).toBe("Negotiation");
+    // Only the CRM's own map applies
+    expect(extractStage({ deal_stage: "appointmentscheduled" }, rules)).toBe("appointmentscheduled");
+  });
+
+  it("treats a won/lost Pipedrive status as the stage", () => {
+    const rules = defaultStageConfig();
+    rules.stage_maps.pipedrive["7"] = "Negotiation";
+    expect(extractStage({ current: { title: "Deal", stage_id: 7, status: "won" } }, rules)).toBe("Closed Won");
+  });
+
+  it("falls back to Close's status type", () => {
+    expect(extractStage({ ...closePayload, status_label: "Signed 🎉", status_type: "won" })).toBe("Closed Won");
+  });
+
+  it("extracts stage from Zoho, Dynamics 365, Freshsales and Copper", () => {
+    expect(extractStage(zohoPayload)).toBe("Negotiation/Review");
+    expect(extractStage(dynamicsPayload)).toBe("3-Propose");
+    expect(extractStage(freshsalesPayload)).toBe("Negotiation");
+    expect(extractStage(copperPayload)).toBe("987793");
+  });
+
+  it("maps the new CRMs' closed stages by default", () => {
+    expect(extractStage({ ...zohoPayload, Stage: "Closed-Lost to Competition" })).toBe("Closed Lost");
+    expect(
+      extractStage({ deal: { ...freshsalesPayload.deal, deal_stage: { id: 1, name: "Won" } } })
+    ).toBe("Closed Won");
+    expect(extractStage({ ...copperPayload, status: "Abandoned" })).toBe("Closed Lost");
+  });
+
+  it("treats a won Dynamics 365 opportunity as won, whatever its stage", () => {
+    const [post] = dynamicsPayload.PostEntityImages;
+    const won = {
+      ...dynamicsPayload,
+      PostEntityImages: [
+        {
+          ...post,
+          value: {
+            ...post.value,
+            FormattedValues: [...post.value.FormattedValues, { key: "statecode", value: "Won" }],
+          },
+        },
+      ],
+    };
+    expect(extractStage(won)).toBe("Closed Won");
+  });
+});
+
+// ============================================================
+// STAGE TRANSITIONS
+// ============================================================
+
+describe("Stage Transitions", () => {
+  it("falls back to the current stage for a new deal or an unchanged stage", () => {
+    expect(classifyTransition(null, "Proposal Sent").type).toBe("enablement");
+    expect(classifyTransition("Negotiation", "Negotiation").type).toBe("enablement");
+    expect(classifyTransition(null, "Demo")).toMatchObject({
+      type: "skip",
+      reason: 'stage "Demo" not in target list',
+    });
+  });
+
+  it("suppresses backwards moves by default", () => {
+    expect(classifyTransition("Negotiation", "Proposal Sent")).toMatchObject({
+      type: "skip",
+      reason: 'backwards move "Negotiation" → "Proposal Sent"',
+    });
+
+    const rules = defaultStageConfig();
+    rules.suppress_backwards = false;
+    expect(classifyTransition("Negotiation", "Proposal Sent", rules).type).toBe("enablement");
+  });
+
+  it("covers skipped enablement stages in one package", () => {
+    expect(classifyTransition("Discovery", "Negotiation")).toMatchObject({
+      type: "enablement",
+      skipped: ["Proposal Sent"],
+    });
+    // Demo isn't an enablement stage, so there's nothing to combine
+    expect(classifyTransition("Discovery", "Proposal Sent").skipped).toEqual([]);
+  });
+
+  it("sends a package when a jump passes an enablement stage it doesn't land on", () => {
+    const rules = defaultStageConfig();
+    rules.stage_order.push("Contract");
+    expect(classifyTransition("Demo", "Contract", rules)).toMatchObject({
+      type: "enablement",
+      skipped: ["Proposal Sent", "Negotiation"],
+    });
+    expect(classifyTransition("Negotiation", "Contract", rules).type).toBe("skip");
+  });
+
+  it("always records outcomes, even from an earlier stage", () => {
+    expect(classifyTransition("Discovery", "Closed Won").type).toBe("outcome");
+    expect(classifyTransition("Negotiation", "Closed Lost").type).toBe("outcome");
+  });
+
+  it("lets transition rules override the defaults, first match wins", () => {
+    const rules = defaultStageConfig();
+    rules.transition_rules = [
+      { from: "Discovery", to: "Demo", action: "enablement" },
+      { from: "*", to: "Negotiation", action: "skip" },
+      { from: "Proposal Sent", to: "Negotiation", action: "enablement" },
+    ];
+
+    expect(classifyTransition("discovery", "DEMO", rules).type).toBe("enablement");
+    expect(classifyTransition("Proposal Sent", "Negotiation", rules).type).toBe("skip");
+    expect(classifyTransition(null, "Negotiation", rules).type).toBe("skip");
+    expect(classifyTransition("Negotiation", "Negotiation", rules).type).toBe("enablement");
+  });
+
+  it("reads the previous stage from Pipedrive's previous object", () => {
+    expect(extractPreviousStage(pipedrivePayload)).toBe("Proposal Sent");
+
+    const rules = defaultStageConfig();
+    rules.stage_maps.pipedrive["3"] = "Demo";
+    expect(extractPreviousStage({ current: { stage_id: 4 }, previous: { stage_id: 3 } }, rules)).toBe("Demo");
+  });
+
+  it("reads a Salesforce prior value, Close previous_data or a generic previous_stage", () => {
+    expect(extractPreviousStage({ ...salesforcePayload, PriorValue: "Proposal Sent" })).toBe("Proposal Sent");
+    expect(extractPreviousStage({ ...closePayload, previous_data: { status_label: "Demo" } })).toBe("Demo");
+    expect(extractPreviousStage({ ...genericPayload, previous_stage: "Discovery" })).toBe("Discovery");
+    expect(extractPreviousStage(genericPayload)).toBeNull();
+  });
+
+  it("reads a Dynamics 365 pre-image and Copper's updated_attributes", () => {
+    expect(extractPreviousStage(dynamicsPayload)).toBe("2-Develop");
+    expect(extractPreviousStage(copperPayload)).toBe("987792");
+    expect(extractPreviousStage(zohoPayload)).toBeNull();
+  });
 });
 
 // ============================================================
@@ -111,6 +305,7 @@ describe("CRM Payload Parsing", () => {
     const deal = parseCrmPayload(hubspotPayload);
 
     it("detects CRM type", () => expect(deal._crm_type).toBe("hubspot"));
+    it("extracts deal ID", () => expect(deal.deal_id).toBe("8841920731"));
     it("extracts deal name", () => expect(deal.deal_name).toBe("Acme Corp Enterprise Platform"));
     it("extracts deal stage", () => expect(deal.deal_stage).toBe("Proposal Sent"));
     it("extracts company name", () => expect(deal.company_name).toBe("Acme Corp"));
@@ -127,6 +322,7 @@ describe("CRM Payload Parsing", () => {
     const deal = parseCrmPayload(salesforcePayload);
 
     it("detects CRM type", () => expect(deal._crm_type).toBe("salesforce"));
+    it("extracts deal ID", () => expect(deal.deal_id).toBe("0065e00000GtXyZAAV"));
     it("extracts deal name", () => expect(deal.deal_name).toBe("GlobalTech Series B Expansion"));
     it("extracts deal stage", () => expect(deal.deal_stage).toBe("Negotiation"));
     it("extracts company name", () => expect(deal.company_name).toBe("GlobalTech Inc"));
@@ -140,6 +336,7 @@ describe("CRM Payload Parsing", () => {
     const deal = parseCrmPayload(attioPayload);
 
     it("detects CRM type", () => expect(deal._crm_type).toBe("attio"));
+    it("extracts record ID", () => expect(deal.deal_id).toBe("c4e8a2f6-1d3b-4f7e-8a9c-6b2d4e8f1a35"));
     it("extracts deal name", () => expect(deal.deal_name).toBe("DataSync Pro Deal"));
     it("extracts deal stage", () => expect(deal.deal_stage).toBe("Proposal Sent"));
     it("extracts company name", () => expect(deal.company_name).toBe("DataSync Health"));
@@ -151,6 +348,7 @@ describe("CRM Payload Parsing", () => {
     const deal = parseCrmPayload(pipedrivePayload);
 
     it("detects CRM type", () => expect(deal._crm_type).toBe("pipedrive"));
+    it("extracts deal ID", () => expect(deal.deal_id).toBe("1042"));
     it("extracts deal name", () => expect(deal.deal_name).toBe("MedFlow Enterprise"));
     it("extracts deal stage", () => expect(deal.deal_stage).toBe("Negotiation"));
     it("extracts company name", () => expect(deal.company_name).toBe("MedFlow Inc"));
@@ -161,15 +359,72 @@ describe("CRM Payload Parsing", () => {
     const deal = parseCrmPayload(closePayload);
 
     it("detects CRM type", () => expect(deal._crm_type).toBe("close"));
+    it("extracts opportunity ID", () => expect(deal.deal_id).toBe("oppo_8kXvJ2mN4pQ7rT1wY9zB3cD5"));
     it("extracts deal name", () => expect(deal.deal_name).toBe("TechStart Seed Round"));
     it("extracts deal stage", () => expect(deal.deal_stage).toBe("Proposal Sent"));
     it("extracts deal size", () => expect(deal.deal_size).toBe(45000));
   });
 
+  describe("Zoho CRM", () => {
+    const deal = parseCrmPayload(zohoPayload);
+
+    it("detects CRM type", () => expect(deal._crm_type).toBe("zoho"));
+    it("extracts deal ID", () => expect(deal.deal_id).toBe("4876876000001234567"));
+    it("extracts deal name", () => expect(deal.deal_name).toBe("Northwind Logistics Rollout"));
+    it("extracts deal stage", () => expect(deal.deal_stage).toBe("Negotiation/Review"));
+    it("extracts account name", () => expect(deal.company_name).toBe("Northwind Logistics"));
+    it("extracts competitor", () => expect(deal.competitor).toBe("Clari"));
+    it("extracts deal size", () => expect(deal.deal_size).toBe(64000));
+    it("extracts owner email", () => expect(deal.rep_email).toBe("priya.nair@yourcompany.com"));
+  });
+
+  describe("Dynamics 365", () => {
+    const deal = parseCrmPayload(dynamicsPayload);
+
+    it("detects CRM type", () => expect(deal._crm_type).toBe("dynamics"));
+    it("extracts opportunity ID", () => expect(deal.deal_id).toBe("b7e3c1d2-5f6a-4b8c-9d0e-1f2a3b4c5d6e"));
+    it("extracts deal name from the post image", () => expect(deal.deal_name).toBe("Contoso Fleet Renewal"));
+    it("extracts business process stage", () => expect(deal.deal_stage).toBe("3-Propose"));
+    it("extracts account name from the lookup", () => expect(deal.company_name).toBe("Contoso Ltd"));
+    it("extracts Money values", () => expect(deal.deal_size).toBe(210000));
+    it("extracts competitor", () => expect(deal.competitor).toBe("Gong"));
+    it("extracts owner email column", () => expect(deal.rep_email).toBe("tom.becker@yourcompany.com"));
+    it("keeps the context as the raw payload", () => expect(deal._raw).toBe(dynamicsPayload));
+  });
+
+  describe("Freshsales", () => {
+    const deal = parseCrmPayload(freshsalesPayload);
+
+    it("detects CRM type", () => expect(deal._crm_type).toBe("freshsales"));
+    it("extracts deal ID", () => expect(deal.deal_id).toBe("70000123456"));
+    it("extracts deal name", () => expect(deal.deal_name).toBe("Brightline Clinics Expansion"));
+    it("extracts deal stage", () => expect(deal.deal_stage).toBe("Negotiation"));
+    it("extracts account name", () => expect(deal.company_name).toBe("Brightline Clinics"));
+    it("extracts custom fields", () => {
+      expect(deal.competitor).toBe("Salesloft");
+      expect(deal.industry).toBe("Healthcare");
+    });
+    it("extracts deal size", () => expect(deal.deal_size).toBe(48000));
+    it("extracts owner email", () => expect(deal.rep_email).toBe("ana.ruiz@yourcompany.com"));
+  });
+
+  describe("Copper", () => {
+    const deal = parseCrmPayload(copperPayload);
+
+    it("detects CRM type", () => expect(deal._crm_type).toBe("copper"));
+    it("extracts opportunity ID", () => expect(deal.deal_id).toBe("27140359"));
+    it("extracts deal name", () => expect(deal.deal_name).toBe("Harbor Analytics Platform"));
+    it("extracts pipeline stage ID", () => expect(deal.deal_stage).toBe("987793"));
+    it("extracts company name", () => expect(deal.company_name).toBe("Harbor Analytics"));
+    it("extracts deal size", () => expect(deal.deal_size).toBe(36000));
+    it("extracts assignee email", () => expect(deal.rep_email).toBe("dev.patel@yourcompany.com"));
+  });
+
   describe("Generic", () => {
     const deal = parseCrmPayload(genericPayload);
 
     it("detects CRM type", () => expect(deal._crm_type).toBe("generic"));
+    it("has no deal ID unless deal_id is sent", () => expect(deal.deal_id).toBe(""));
     it("extracts deal name", () => expect(deal.deal_name).toBe("QuickStart SMB Deal"));
     it("extracts deal stage", () => expect(deal.deal_stage).toBe("Proposal Sent"));
     it("extracts company name", () => expect(deal.company_name).toBe("MedFlow Health"));
@@ -182,6 +437,7 @@ describe("CRM Payload Parsing", () => {
 
     it("falls back to generic", () => expect(deal._crm_type).toBe("generic"));
     it("uses default deal name", () => expect(deal.deal_name).toBe("Unknown Deal"));
+    it("has no deal ID", () => expect(deal.deal_id).toBe(""));
     it("extracts stage", () => expect(deal.deal_stage).toBe("Proposal Sent"));
     it("uses default company name", () => expect(deal.company_name).toBe("Unknown Company"));
     it("uses default industry", () => expect(deal.industry).toBe("Technology"));
@@ -195,6 +451,298 @@ describe("CRM Payload Parsing", () => {
     it("unwraps body wrapper", () => expect(deal._crm_type).toBe("hubspot"));
     it("extracts deal name through wrapper", () => expect(deal.deal_name).toBe("Acme Corp Enterprise Platform"));
   });
+
+  it("reads HubSpot's hs_object_id when objectId is missing", () => {
+    const deal = parseCrmPayload({ properties: { ...hubspotPayload.properties, hs_object_id: "512" } });
+    expect(deal.deal_id).toBe("512");
+  });
+});
+
+// ============================================================
+// SALESFORCE OUTBOUND MESSAGES
+// ============================================================
+
+describe("Salesforce Outbound Messages", () => {
+  const message = parseOutboundMessage(salesforceOutboundMessage);
+
+  it("recognises the SOAP envelope", () => {
+    expect(isOutboundMessage(salesforceOutboundMessage)).toBe(true);
+    expect(isOutboundMessage("<deal/>")).toBe(false);
+    expect(isOutboundMessage({ notifications: [] })).toBe(false);
+  });
+
+  it("reads every notification's ID and sObject", () => {
+    expect(message.organization_id).toBe("00D5e000000Hk2LEAS");
+    expect(message.notifications.map((n) => [n.id, n.sobject_type])).toEqual([
+      ["04l5e00000XqA1bAAF", "Opportunity"],
+      ["04l5e00000XqA1cAAF", "Opportunity"],
+    ]);
+  });
+
+  it("decodes entities and leaves out nil fields", () => {
+    const { fields } = message.notifications[0];
+    expect(fields.Description).toBe("VP of Sales is champion & CRO needs ROI proof.");
+    expect(fields).not.toHaveProperty("NextStep");
+  });
+
+  it("parses a notification like a Salesforce JSON payload", () => {
+    const deal = parseCrmPayload(notificationPayload(message.notifications[0]));
+
+    expect(deal._crm_type).toBe("salesforce");
+    expect(deal).toMatchObject({
+      deal_id: "0065e00000SoapAAA",
+      deal_name: "Soap Co Expansion",
+      deal_stage: "Discovery",
+      competitor: "Outreach",
+      industry: "SaaS / Technology",
+      deal_size: 85000,
+    });
+  });
+});
+
+// ============================================================
+// FIELD MAPPING
+// ============================================================
+
+describe("Field Mapping", () => {
+  const withRule = (crm: string, field: string, paths: string[], transforms: string[] = []) => {
+    const mapping = defaultFieldMapping();
+    mapping.crms[crm] = { [field]: { paths, transforms } };
+    return mapping;
+  };
+
+  it("reads dot paths, including array indexes", () => {
+    const raw = { Owner: { Email: "a@b.com" }, lines: [{ name: "Pro" }], Amount: 0 };
+    expect(readPath(raw, "Owner.Email")).toBe("a@b.com");
+    expect(readPath(raw, "lines.0.name")).toBe("Pro");
+    expect(readPath(raw, "Amount")).toBe("0");
+    expect(readPath(raw, "Owner")).toBeNull();
+    expect(readPath(raw, "Owner.Phone.Mobile")).toBeNull();
+  });
+
+  it("reports where a built-in field came from", () => {
+    expect(mapField(salesforcePayload, defaultFieldMapping(), "salesforce", "rep_email")).toEqual({
+      value: "james.rivera@yourcompany.com",
+      path: "Owner.Email",
+      custom: false,
+    });
+  });
+
+  it("overrides the built-in paths for one field only", () => {
+    const mapping = withRule("salesforce", "competitor", ["Primary_Competitor__c", "Competitor__c"]);
+    const deal = parseCrmPayload({ ...salesforcePayload, Primary_Competitor__c: "Gong" }, mapping);
+
+    expect(deal.competitor).toBe("Gong");
+    expect(deal.industry).toBe("SaaS / Technology");
+  });
+
+  it("falls back through the paths, then to the field's default", () => {
+    const mapping = withRule("salesforce", "competitor", ["Primary_Competitor__c", "Competitor__c"]);
+    expect(parseCrmPayload(salesforcePayload, mapping).competitor).toBe("Outreach");
+
+    const { Competitor__c: _, ...noCompetitor } = salesforcePayload;
+    expect(parseCrmPayload(noCompetitor, mapping).competitor).toBe("Not specified");
+  });
+
+  it("applies transforms in order", () => {
+    const email = withRule("hubspot", "rep_email", ["properties.owner"], ["split:<:1", "split:>", "lowercase"]);
+    const deal = parseCrmPayload(
+      { properties: { ...hubspotPayload.properties, owner: "Sarah Chen <Sarah.Chen@YourCompany.com>" } },
+      email
+    );
+    expect(deal.rep_email).toBe("sarah.chen@yourcompany.com");
+
+    const amount = withRule("generic", "deal_size", ["amount"], ["number"]);
+    expect(parseCrmPayload({ ...genericPayload, amount: "$150,000" }, amount).deal_size).toBe(150000);
+  });
+
+  it("skips a path whose value transforms to nothing", () => {
+    const mapping = withRule("generic", "competitor", ["tags", "competitor"], ["split:competitor=:1"]);
+    const deal = parseCrmPayload({ ...genericPayload, tags: "no-match", competitor: "competitor=Gong" }, mapping);
+    expect(deal.competitor).toBe("Gong");
+  });
+});
+
+// ============================================================
+// CRM ADAPTERS
+// ============================================================
+
+describe("CRM Adapters", () => {
+  // An in-house CRM that sends { acme_deal: { ... } }
+  const acme: CrmAdapter = {
+    name: "acme",
+    detect: (raw) => Boolean(raw.acme_deal),
+    parse: (raw) => {
+      const d = raw.acme_deal as Record<string, string>;
+      return {
+        deal_name: d.title,
+        deal_stage: d.phase,
+        company_name: d.account,
+        deal_notes: "",
+        product_interest: "",
+        industry: "",
+        competitor: d.rival ?? "",
+        deal_size: d.amount,
+        rep_email: d.owner,
+        rep_slack_id: "",
+      };
+    },
+    extractStage: (raw) => [(raw.acme_deal as Record<string, string>).phase],
+    extractPreviousStage: (raw) => [(raw.acme_deal as Record<string, string>).was ?? ""].filter(Boolean),
+    extractDealId: (raw) => (raw.acme_deal as Record<string, string>).ref,
+  };
+  const acmePayload = {
+    acme_deal: { ref: "AC-7", title: "Globex Rollout", phase: "quote", was: "demo", account: "Globex", amount: "42000", owner: "kim@yourcompany.com" },
+  };
+
+  afterEach(() => {
+    unregisterCrmAdapter("acme");
+    unregisterCrmAdapter("salesforce");
+  });
+
+  it("registers every built-in CRM, with generic last", () => {
+    const names = crmAdapters().map((a) => a.name);
+    expect(names).toEqual(expect.arrayContaining(["hubspot", "salesforce", "dynamics", "copper"]));
+    expect(names.at(-1)).toBe("generic");
+    expect(detectCrmAdapter({}).name).toBe("generic");
+  });
+
+  it("parses a plugin CRM's payload through its adapter", () => {
+    registerCrmAdapter(acme);
+    const deal = parseCrmPayload(acmePayload);
+
+    expect(deal._crm_type).toBe("acme");
+    expect(deal.deal_id).toBe("AC-7");
+    expect(deal.deal_name).toBe("Globex Rollout");
+    expect(deal.deal_size).toBe(42000);
+    expect(deal.competitor).toBe("Not specified");
+    expect(deal.industry).toBe("Technology");
+  });
+
+  it("maps a plugin CRM's stages through its own stage map", () => {
+    registerCrmAdapter(acme);
+    const rules = defaultStageConfig();
+    rules.stage_maps.acme = { quote: "Proposal Sent", demo: "Demo" };
+
+    expect(extractStage(acmePayload, rules)).toBe("Proposal Sent");
+    expect(extractPreviousStage(acmePayload, rules)).toBe("Demo");
+    expect(extractStage(acmePayload)).toBe("quote");
+  });
+
+  it("asks plugin adapters before the built-ins", () => {
+    registerCrmAdapter({ ...acme, detect: (raw) => raw.Name === "Globex Rollout" });
+    expect(detectCrmAdapter({ Name: "Globex Rollout" }).name).toBe("acme");
+    expect(detectCrmAdapter(salesforcePayload).name).toBe("salesforce");
+  });
+
+  it("lets a plugin replace a built-in, and unregistering restores it", () => {
+    const builtIn = getCrmAdapter("salesforce");
+    registerCrmAdapter({ ...acme, name: "salesforce", detect: (raw) => Boolean(raw.StageName) });
+
+    expect(getCrmAdapter("salesforce")).not.toBe(builtIn);
+    expect(crmAdapters().filter((a) => a.name === "salesforce")).toHaveLength(1);
+    expect(unregisterCrmAdapter("salesforce")).toBe(true);
+    expect(getCrmAdapter("salesforce")).toBe(builtIn);
+  });
+});
+
+// ============================================================
+// CRM WEBHOOK SIGNATURES
+// ============================================================
+
+describe("CRM Webhook Signatures", () => {
+  const body = JSON.stringify(hubspotPayload);
+  const now = 1767225600000;
+  const tolerance = 300_000;
+  const webhook = (headers: Record<string, string>, url = "https://jit.example.com/webhook/crm"): CrmWebhookRequest => ({
+    method: "POST",
+    url,
+    headers,
+    rawBody: body,
+  });
+
+  describe("HubSpot v3", () => {
+    const secret = "hubspot-client-secret";
+    const sign = (url: string, timestamp: number) =>
+      createHmac("sha256", secret).update(`POST${url}${body}${timestamp}`).digest("base64");
+
+    it("accepts a valid signature", () => {
+      const url = "https://jit.example.com/webhook/crm";
+      const headers = { "x-hubspot-signature-v3": sign(url, now), "x-hubspot-request-timestamp": String(now) };
+      expect(verifyHubSpotSignature(webhook(headers), secret, tolerance, now)).toBeNull();
+    });
+
+    it("signs the URL with HubSpot's decoded characters", () => {
+      const sent = "https://jit.example.com/webhook/crm?portal=acme%3Aeu&x=a%20b";
+      const headers = {
+        "x-hubspot-signature-v3": sign("https://jit.example.com/webhook/crm?portal=acme:eu&x=a%20b", now),
+        "x-hubspot-request-timestamp": String(now),
+      };
+      expect(verifyHubSpotSignature(webhook(headers, sent), secret, tolerance, now)).toBeNull();
+    });
+
+    it("rejects a wrong secret, a tampered body and a missing header", () => {
+      const url = "https://jit.example.com/webhook/crm";
+      const headers = { "x-hubspot-signature-v3": sign(url, now), "x-hubspot-request-timestamp": String(now) };
+
+      expect(verifyHubSpotSignature(webhook(headers), "other-secret", tolerance, now)).toBe("HubSpot signature mismatch");
+      expect(
+        verifyHubSpotSignature({ ...webhook(headers), rawBody: body.replace("Gong", "Nobody") }, secret, tolerance, now)
+      ).toBe("HubSpot signature mismatch");
+      expect(verifyHubSpotSignature(webhook({}), secret, tolerance, now)).toContain("missing");
+    });
+
+    it("rejects a timestamp outside the tolerance", () => {
+      const url = "https://jit.example.com/webhook/crm";
+      const old = now - tolerance - 1;
+      const headers = { "x-hubspot-signature-v3": sign(url, old), "x-hubspot-request-timestamp": String(old) };
+      expect(verifyHubSpotSignature(webhook(headers), secret, tolerance, now)).toBe("signature timestamp outside tolerance");
+    });
+  });
+
+  it("checks Pipedrive basic auth", () => {
+    const auth = (user: string, password: string) => ({
+      authorization: `Basic ${Buffer.from(`${user}:${password}`).toString("base64")}`,
+    });
+    expect(verifyBasicAuth(webhook(auth("pipedrive", "s3cret")), "pipedrive", "s3cret")).toBeNull();
+    expect(verifyBasicAuth(webhook(auth("pipedrive", "guess")), "pipedrive", "s3cret")).toBe("wrong basic auth credentials");
+    expect(verifyBasicAuth(webhook({}), "pipedrive", "s3cret")).toBe("missing basic auth");
+  });
+
+  it("checks Attio's signature over the body", () => {
+    const signature = createHmac("sha256", "attio-secret").update(body).digest("hex");
+    expect(verifyAttioSignature(webhook({ "attio-signature": signature }), "attio-secret")).toBeNull();
+    expect(verifyAttioSignature(webhook({ "attio-signature": signature }), "other")).toBe("Attio signature mismatch");
+    expect(verifyAttioSignature(webhook({}), "attio-secret")).toBe("missing Attio-Signature");
+  });
+
+  it("checks Close's signature over timestamp + body with a hex key", () => {
+    const key = "a1b2c3d4e5f60718293a4b5c6d7e8f90";
+    const timestamp = String(now / 1000);
+    const signature = createHmac("sha256", Buffer.from(key, "hex")).update(`${timestamp}${body}`).digest("hex");
+    const headers = { "close-sig-hash": signature, "close-sig-timestamp": timestamp };
+
+    expect(verifyCloseSignature(webhook(headers), key, tolerance, now)).toBeNull();
+    expect(verifyCloseSignature(webhook(headers), key, tolerance, now + tolerance + 1000)).toBe(
+      "signature timestamp outside tolerance"
+    );
+    expect(verifyCloseSignature(webhook({ ...headers, "close-sig-hash": "0".repeat(64) }), key, tolerance, now)).toBe(
+      "Close signature mismatch"
+    );
+  });
+
+  it("takes the shared secret from a header or the query string", () => {
+    expect(verifySharedSecret(webhook({ "x-webhook-secret": "shh" }), "shh")).toBeNull();
+    expect(verifySharedSecret(webhook({}, "https://jit.example.com/webhook/crm?secret=shh"), "shh")).toBeNull();
+    expect(verifySharedSecret(webhook({ "x-webhook-secret": "nope" }), "shh")).toBe("wrong webhook secret");
+    expect(verifySharedSecret(webhook({}), "shh")).toBe("missing X-Webhook-Secret");
+  });
+
+  it("compares in constant time, treating different lengths as unequal", () => {
+    expect(safeEqual("abc", "abc")).toBe(true);
+    expect(safeEqual("abc", "abd")).toBe(false);
+    expect(safeEqual("abc", "abcd")).toBe(false);
+  });
 });
 
 // ============================================================
@@ -461,6 +1009,29 @@ describe("Delivery Entry", () => {
     expect(entry.channel).toBe("slack");
     expect(entry.timestamp).toMatch(/^\d{4}-\d{2}-\d{2}T/);
   });
+  it("starts queued, with no attempts and no message yet", () => {
+    expect(entry.status).toBe("queued");
+    expect(entry.attempts).toBe(0);
+    expect(entry.message_ref).toBeUndefined();
+  });
+});
+
+describe("Delivery Errors", () => {
+  it("gives up on Slack errors retrying won't fix", () => {
+    expect(isPermanentSlackError("channel_not_found")).toBe(true);
+    expect(isPermanentSlackError("not_in_channel")).toBe(true);
+    expect(isPermanentSlackError("ratelimited")).toBe(false);
+    expect(isPermanentSlackError("internal_error")).toBe(false);
+    expect(isPermanentSlackError(undefined)).toBe(false);
+  });
+
+  it("retries Telegram rate limits and server errors only", () => {
+    expect(isPermanentTelegramError(403)).toBe(true); // Bot blocked by the user
+    expect(isPermanentTelegramError(400)).toBe(true); // Chat not found
+    expect(isPermanentTelegramError(429)).toBe(false);
+    expect(isPermanentTelegramError(502)).toBe(false);
+    expect(isPermanentTelegramError(undefined)).toBe(false);
+  });
 });
 
 // ============================================================
@@ -506,6 +1077,13 @@ describe("Template Enablement", () => {
     _raw: {},
   };
 
+  it("covers skipped stages in a combined package", () => {
+    const deal = { ...baseDeal, deal_stage: "Negotiation", skipped_stages: ["Proposal Sent"] };
+    const output = buildTemplateEnablement(deal, configuredKB);
+    expect(output).toContain("Skipped: Proposal Sent (covered below)");
+    expect(buildPrompt(deal, configuredKB)).toContain('jumped straight past the "Proposal Sent" stage(s)');
+  });
+
   it("includes deal context header", () => {
     const output = buildTemplateEnablement(baseDeal, configuredKB);
     expect(output).toContain("DEAL CONTEXT");
@@ -0,0 +1,715 @@
+/**
+ * Storage backend tests — runs the same contract against the JSON
+ * and SQLite backends, checks the one-shot JSON → SQLite migration,
+ * and hammers the JSON files with concurrent appends.
+ */
+
+import { describe, it, expect, beforeEach, afterAll } from "vitest";
+import { resolve } from "path";
+import { spawn } from "child_process";
+import {
+  mkdirSync,
+  existsSync,
+  rmSync,
+  writeFileSync,
+  readFileSync,
+  readdirSync,
+  utimesSync,
+} from "fs";
+import { createStorage } from "../src/shared/storage.js";
+import type { Storage, StorageConfig } from "../src/shared/storage.js";
+import { migrateJsonToSqlite } from "../src/shared/migrate.js";
+import {
+  appendDelivery,
+  appendFeedback,
+  readFeedbackLog,
+  writeKB,
+  defaultStageConfig,
+  stageConfigPath,
+  defaultFieldMapping,
+  fieldMappingPath,
+  dealStatesPath,
+  FAILED_RUN_HISTORY_LIMIT,
+} from "../src/shared/data.js";
+import { writeJsonAtomic } from "../src/shared/file-io.js";
+import {
+  logDelivery,
+  markDeliveryFailed,
+  recordDeliveryAttempt,
+  recordDeliveryError,
+} from "../src/pipeline/log.js";
+import { enrichDealContext } from "../src/pipeline/enrich.js";
+import { parseCrmPayload } from "../src/pipeline/parse.js";
+import { genericPayload } from "./fixtures/payloads.js";
+import type {
+  RepEntry,
+  PipelineJob,
+  FailedRun,
+  WebhookKey,
+  DealState,
+} from "../src/shared/types.js";
+import { configuredKB, populatedFeedbackLog } from "./fixtures/knowledge-base.js";
+
+const testDataDir = resolve(import.meta.dirname, "__test-data-storage__");
+
+function storageConfig(backend: StorageConfig["storageBackend"]): StorageConfig {
+  return {
+    storageBackend: backend,
+    kbPath: resolve(testDataDir, "knowledge-base.json"),
+    feedbackLogPath: resolve(testDataDir, "feedback-log.json"),
+    repDirectoryPath: resolve(testDataDir, "rep-directory.json"),
+    sqlitePath: resolve(testDataDir, "jit-enablement.db"),
+  };
+}
+
+const sarah: RepEntry = {
+  email: "sarah@team.com",
+  name: "Sarah Chen",
+  slack_id: "U0123ABC",
+  telegram_chat_id: "532751028",
+  registered_at: "2026-02-27T10:00:00Z",
+  registered_via: "manual",
+};
+
+function dealState(
+  overrides: Pick<DealState, "id" | "crm" | "deal_name"> & Partial<DealState>
+): DealState {
+  return {
+    deal_id: "",
+    stage: "Demo",
+    previous_stage: null,
+    stage_changed_at: "2026-03-01T10:00:00Z",
+    first_seen_at: "2026-03-01T10:00:00Z",
+    updated_at: new Date().toISOString(), // Older deals are pruned
+    stage_history: [],
+    fields: {
+      company_name: "Acme",
+      industry: "SaaS",
+      competitor: "Not specified",
+      deal_size: 0,
+      rep_email: "sarah@team.com",
+      product_interest: "Not specified",
+    },
+    delivery_ids: [],
+    feedback_ids: [],
+    outcome: null,
+    ...overrides,
+  };
+}
+
+function resetDataDir(): void {
+  if (existsSync(testDataDir)) {
+    rmSync(testDataDir, { recursive: true });
+  }
+  mkdirSync(testDataDir, { recursive: true });
+}
+
+afterAll(() => {
+  if (existsSync(testDataDir)) {
+    rmSync(testDataDir, { recursive: true });
+  }
+});
+
+// ============================================================
+// BACKEND CONTRACT
+// ============================================================
+
+describe.each(["json", "sqlite"] as const)("%s storage backend", (backend) => {
+  let storage: Storage;
+
+  beforeEach(() => {
+    storage?.close();
+    resetDataDir();
+    storage = createStorage(storageConfig(backend));
+  });
+
+  afterAll(() => storage?.close());
+
+  it("reports its backend", () => {
+    expect(storage.backend).toBe(backend);
+  });
+
+  it("returns an empty KB on first read", () => {
+    const kb = storage.readKB();
+    expect(kb.case_studies).toHaveLength(0);
+    expect(kb._meta.configured).toBe(false);
+  });
+
+  it("writes a KB and recalculates _meta", () => {
+    storage.writeKB(structuredClone(configuredKB));
+    const kb = storage.readKB();
+
+    expect(kb.case_studies).toHaveLength(2);
+    expect(kb._meta.entry_count).toBe(7);
+    expect(kb._meta.configured).toBe(true);
+    expect(kb._meta.last_updated).not.toBe(configuredKB._meta.last_updated);
+  });
+
+  it("replaces a KB as-is without touching _meta", () => {
+    storage.replaceKB(structuredClone(configuredKB));
+    expect(storage.readKB()._meta.last_updated).toBe(configuredKB._meta.last_updated);
+  });
+
+  it("appends deliveries and feedback in order", () => {
+    const [delivery] = populatedFeedbackLog.deliveries;
+    const [feedback] = populatedFeedbackLog.feedback;
+
+    storage.appendDelivery(delivery);
+    storage.appendDelivery({ ...delivery, delivery_id: "del-second" });
+    storage.appendFeedback(feedback);
+
+    const log = storage.readFeedbackLog();
+    expect(log.deliveries.map((d) => d.delivery_id)).toEqual(["del-test123", "del-second"]);
+    expect(log.feedback[0].value).toBe("helpful");
+    expect(log._meta.total_deliveries).toBe(2);
+    expect(log._meta.total_feedback).toBe(1);
+    expect(log._meta.last_updated).not.toBeNull();
+  });
+
+  it("reads the log a page at a time", () => {
+    const [delivery] = populatedFeedbackLog.deliveries;
+    const [feedback] = populatedFeedbackLog.feedback;
+    for (let i = 0; i < 5; i++) {
+      storage.appendDelivery({ ...delivery, delivery_id: `del-${i}` });
+    }
+    storage.appendFeedback(feedback);
+
+    const page = storage.readFeedbackPage(2, 0, 2);
+    expect(page.deliveries.map((d) => d.delivery_id)).toEqual(["del-2", "del-3"]);
+    expect(page.feedback.map((f) => f.id)).toEqual([feedback.id]);
+    expect(page._meta).toMatchObject({ total_deliveries: 5, total_feedback: 1 });
+    expect(storage.readFeedbackPage(5, 1, 2)).toMatchObject({ deliveries: [], feedback: [] });
+  });
+
+  it("stamps a new generation on a replaced log", () => {
+    storage.replaceFeedbackLog(structuredClone(populatedFeedbackLog));
+    const first = storage.readFeedbackLog()._meta.generation;
+    storage.appendDelivery({ ...populatedFeedbackLog.deliveries[0], delivery_id: "del-after" });
+    expect(storage.readFeedbackLog()._meta.generation).toBe(first);
+
+    storage.replaceFeedbackLog(storage.readFeedbackLog());
+    expect(first).toBeTruthy();
+    expect(storage.readFeedbackLog()._meta.generation).not.toBe(first);
+  });
+
+  it("saves a delivery in place, keeping its position", () => {
+    const [delivery] = populatedFeedbackLog.deliveries;
+
+    storage.saveDelivery({ ...delivery, status: "queued" });
+    storage.appendDelivery({ ...delivery, delivery_id: "del-second" });
+    storage.saveDelivery({ ...delivery, status: "sent", attempts: 2 });
+
+    const log = storage.readFeedbackLog();
+    expect(log.deliveries.map((d) => [d.delivery_id, d.status])).toEqual([
+      ["del-test123", "sent"],
+      ["del-second", undefined],
+    ]);
+    expect(log._meta.total_deliveries).toBe(2);
+  });
+
+  it("looks deliveries up by ID and by the message they were sent as", () => {
+    const [delivery] = populatedFeedbackLog.deliveries;
+    const ref = { channel: "D0TESTDM1", id: "1234567890.123456" };
+
+    storage.appendDelivery({ ...delivery, delivery_id: "del-other", message_ref: { ...ref, channel: "D0OTHERDM" } });
+    storage.appendDelivery({ ...delivery, message_ref: ref });
+    storage.appendDelivery({ ...delivery, delivery_id: "del-unsent" });
+
+    expect(storage.getDelivery("del-test123")?.message_ref).toEqual(ref);
+    expect(storage.getDelivery("del-missing")).toBeNull();
+    expect(storage.findDeliveryByMessageRef(ref)?.delivery_id).toBe("del-test123");
+    expect(storage.findDeliveryByMessageRef({ ...ref, id: "1.2" })).toBeNull();
+  });
+
+  it("tracks a delivery from queued to sent or failed", () => {
+    const deal = enrichDealContext(parseCrmPayload(genericPayload));
+    const kb = storage.readKB();
+
+    recordDeliveryAttempt(deal, kb, "del-ok", "slack", storage);
+    recordDeliveryError(storage, "del-ok", "ratelimited", "Slack API error: ratelimited");
+    recordDeliveryAttempt(deal, kb, "del-ok", "slack", storage);
+    logDelivery(deal, kb, "del-ok", "slack", storage, { channel: "D0OK", id: "1767225600.000100" });
+
+    recordDeliveryAttempt(deal, kb, "del-bad", "slack", storage);
+    recordDeliveryError(storage, "del-bad", "channel_not_found", "Slack API error: channel_not_found");
+    markDeliveryFailed(storage, "del-bad", "Slack API error: channel_not_found");
+    // A job that failed after its package was sent doesn't unsend it
+    markDeliveryFailed(storage, "del-ok", "linking failed");
+
+    const [ok, bad] = storage.readFeedbackLog().deliveries;
+    expect(ok).toMatchObject({
+      delivery_id: "del-ok",
+      status: "sent",
+      attempts: 2,
+      message_ref: { channel: "D0OK", id: "1767225600.000100" },
+    });
+    expect(ok.error_code).toBeUndefined();
+    expect(bad).toMatchObject({
+      delivery_id: "del-bad",
+      status: "failed",
+      attempts: 1,
+      error_code: "channel_not_found",
+      error_message: "Slack API error: channel_not_found",
+    });
+  });
+
+  it("upserts reps by email, keeping existing IDs when blank", () => {
+    storage.upsertRep(sarah);
+    storage.upsertRep({ ...sarah, email: "SARAH@team.com", name: "Sarah C.", slack_id: "" });
+
+    const dir = storage.readRepDirectory();
+    expect(dir.reps).toHaveLength(1);
+    expect(dir.reps[0].name).toBe("Sarah C.");
+    expect(dir.reps[0].slack_id).toBe("U0123ABC");
+    expect(dir._meta.total_reps).toBe(1);
+  });
+
+  it("finds reps by email and Telegram chat ID", () => {
+    storage.upsertRep(sarah);
+
+    expect(storage.findRepByEmail("Sarah@Team.com")?.name).toBe("Sarah Chen");
+    expect(storage.findRepByTelegramChatId("532751028")?.email).toBe("sarah@team.com");
+    expect(storage.findRepByEmail("nobody@team.com")).toBeNull();
+  });
+
+  it("removes reps by email", () => {
+    storage.upsertRep(sarah);
+
+    expect(storage.removeRep("sarah@team.com")).toBe(true);
+    expect(storage.removeRep("sarah@team.com")).toBe(false);
+    expect(storage.readRepDirectory().reps).toHaveLength(0);
+  });
+
+  it("persists across reopen", () => {
+    storage.writeKB(structuredClone(configuredKB));
+    storage.upsertRep(sarah);
+    storage.close();
+
+    storage = createStorage(storageConfig(backend));
+    expect(storage.readKB().case_studies).toHaveLength(2);
+    expect(storage.findRepByEmail("sarah@team.com")).not.toBeNull();
+  });
+
+  it("records a version for every KB write", () => {
+    const change = { author: "pmm", source: "add_case_study" };
+    storage.writeKB(structuredClone(configuredKB), change);
+    const kb = storage.readKB();
+    kb.case_studies.pop();
+    storage.writeKB(kb, { author: "pmm", source: "remove_entry" });
+
+    const current = storage.readKB();
+    expect(current._meta.revision).toBe(2);
+    expect(current._meta.updated_by).toBe("pmm");
+    expect(current._meta.updated_via).toBe("remove_entry");
+
+    const versions = storage.listKBVersions();
+    expect(versions.map((v) => v.version)).toEqual([2, 1]);
+    expect(versions[1]).toMatchObject({ author: "pmm", source: "add_case_study", entry_count: 7 });
+    expect(storage.listKBVersions(1)).toHaveLength(1);
+
+    expect(storage.readKBVersion(1)?.kb.case_studies).toHaveLength(2);
+    expect(storage.readKBVersion(2)?.kb.case_studies).toHaveLength(1);
+    expect(storage.readKBVersion(99)).toBeNull();
+  });
+
+  it("records an as-is replace only when told who made it", () => {
+    storage.replaceKB(structuredClone(configuredKB));
+    expect(storage.listKBVersions()).toHaveLength(0);
+
+    storage.replaceKB(structuredClone(configuredKB), { author: "pmm", source: "sync" });
+    const [version] = storage.listKBVersions();
+    expect(version).toMatchObject({ version: 1, source: "sync" });
+    expect(storage.readKB()._meta.last_updated).toBe(configuredKB._meta.last_updated);
+  });
+
+  it("keeps numbering versions after a reopen", () => {
+    storage.writeKB(structuredClone(configuredKB));
+    storage.close();
+
+    storage = createStorage(storageConfig(backend));
+    storage.writeKB(storage.readKB());
+    expect(storage.listKBVersions().map((v) => v.version)).toEqual([2, 1]);
+    expect(storage.listKBVersions()[0].author).toBe("unknown");
+  });
+
+  it("saves pipeline jobs and lists them by status", () => {
+    const job: PipelineJob = {
+      id: "job-1",
+      kind: "enablement",
+      status: "pending",
+      payload: { deal_stage: "Discovery" },
+      stage: "Discovery",
+      step: "resolve",
+      attempts: 0,
+      next_attempt_at: null,
+      last_error: null,
+      result: null,
+      state: {},
+      created_at: "2026-03-01T10:00:00Z",
+      updated_at: "2026-03-01T10:00:00Z",
+    };
+    storage.saveJob(job);
+    storage.saveJob({ ...job, id: "job-2", status: "failed", last_error: "boom" });
+    storage.saveJob({ ...job, status: "running", step: "generate", state: { content: "hi" } });
+
+    expect(storage.listJobs().map((j) => j.id)).toEqual(["job-1", "job-2"]);
+    expect(storage.listJobs(["pending", "running"]).map((j) => j.id)).toEqual(["job-1"]);
+    expect(storage.getJob("job-1")).toMatchObject({ step: "generate", state: { content: "hi" } });
+    expect(storage.getJob("job-404")).toBeNull();
+  });
+
+  it("keeps failed runs and records their replays", () => {
+    const run: FailedRun = {
+      id: "job-1",
+      kind: "enablement",
+      stage: "Proposal Sent",
+      payload: { deal_stage: "Proposal Sent" },
+      deal: null,
+      step: "generate",
+      error: "BLOCKED: KB not configured.",
+      attempts: 1,
+      failed_at: "2026-03-01T10:00:00Z",
+      replayed_at: null,
+      replay_job_id: null,
+    };
+    storage.saveFailedRun(run);
+    storage.saveFailedRun({ ...run, id: "job-2" });
+    storage.saveFailedRun({ ...run, replayed_at: "2026-03-02T10:00:00Z", replay_job_id: "job-3" });
+
+    expect(storage.listFailedRuns().map((r) => r.id)).toEqual(["job-1", "job-2"]);
+    expect(storage.getFailedRun("job-1")?.replay_job_id).toBe("job-3");
+    expect(storage.getFailedRun("job-404")).toBeNull();
+  });
+
+  it("prunes the oldest failed runs beyond the cap", () => {
+    const run: Omit<FailedRun, "id"> = {
+      kind: "outcome",
+      stage: "Closed Lost",
+      payload: {},
+      deal: null,
+      step: "notify",
+      error: "Slack API error: not_in_channel",
+      attempts: 3,
+      failed_at: "2026-03-01T10:00:00Z",
+      replayed_at: null,
+      replay_job_id: null,
+    };
+    for (let i = 0; i < FAILED_RUN_HISTORY_LIMIT + 2; i++) {
+      storage.saveFailedRun({ ...run, id: `job-${i}` });
+    }
+
+    const runs = storage.listFailedRuns();
+    expect(runs).toHaveLength(FAILED_RUN_HISTORY_LIMIT);
+    expect(runs[0].id).toBe("job-2");
+    expect(storage.getFailedRun("job-1")).toBeNull();
+  });
+
+  it("starts with the default stage rules and stores edits", () => {
+    const stages = storage.readStageConfig();
+    expect(stages.enablement_stages).toEqual(["Proposal Sent", "Negotiation"]);
+    expect(stages._meta.last_updated).toBeNull();
+
+    stages.stage_maps.salesforce = { "Contract Review": "Negotiation" };
+    stages.won_stages.push("Signed");
+    storage.writeStageConfig(stages);
+
+    const stored = storage.readStageConfig();
+    expect(stored.stage_maps.salesforce).toEqual({ "Contract Review": "Negotiation" });
+    expect(stored.won_stages).toEqual(["Closed Won", "Signed"]);
+    expect(stored._meta.last_updated).not.toBeNull();
+  });
+
+  it("starts with no field overrides and stores edits", () => {
+    const mapping = storage.readFieldMapping();
+    expect(mapping.crms).toEqual({});
+    expect(mapping._meta.last_updated).toBeNull();
+
+    mapping.crms.hubspot = {
+      rep_email: { paths: ["properties.owner_email"], transforms: ["lowercase"] },
+    };
+    storage.writeFieldMapping(mapping);
+
+    const stored = storage.readFieldMapping();
+    expect(stored.crms.hubspot.rep_email).toEqual({
+      paths: ["properties.owner_email"],
+      transforms: ["lowercase"],
+    });
+    expect(stored._meta.last_updated).not.toBeNull();
+  });
+
+  it("saves webhook keys and prunes expired ones", () => {
+    const key: WebhookKey = {
+      id: "event:hubspot:evt-1",
+      source: "event_id",
+      job_id: "job-1",
+      deal_name: "Acme",
+      stage: "Negotiation",
+      first_seen_at: "2026-03-01T10:00:00Z",
+      expires_at: "2099-01-01T00:00:00Z",
+      duplicates: 0,
+      last_duplicate_at: null,
+    };
+    storage.saveWebhookKey({ ...key, id: "deal:old", expires_at: "2020-01-01T00:00:00Z" });
+    storage.saveWebhookKey(key);
+    storage.saveWebhookKey({ ...key, duplicates: 2 });
+
+    expect(storage.getWebhookKey("event:hubspot:evt-1")?.duplicates).toBe(2);
+    expect(storage.getWebhookKey("deal:old")).toBeNull();
+  });
+
+  it("remembers each deal's last stage", () => {
+    const deal = dealState({ id: "hubspot:acme", crm: "hubspot", deal_name: "Acme" });
+    storage.saveDealState(deal);
+    storage.saveDealState({ ...deal, stage: "Proposal Sent", previous_stage: "Demo" });
+
+    expect(storage.getDealState("hubspot:acme")).toMatchObject({
+      stage: "Proposal Sent",
+      previous_stage: "Demo",
+    });
+    expect(storage.getDealState("hubspot:nobody")).toBeNull();
+  });
+
+  it("finds deals by name across CRMs, ignoring case, or by CRM deal ID", () => {
+    storage.saveDealState(dealState({ id: "hubspot:acme", crm: "hubspot", deal_name: "Acme" }));
+    storage.saveDealState(dealState({ id: "pipedrive:acme", crm: "pipedrive", deal_name: "ACME " }));
+    storage.saveDealState(
+      dealState({ id: "hubspot:id:9001", crm: "hubspot", deal_id: "9001", deal_name: "Globex" })
+    );
+
+    const found = storage.findDealStates("acme").map((d) => d.id).sort();
+    expect(found).toEqual(["hubspot:acme", "pipedrive:acme"]);
+    expect(storage.findDealStates("9001").map((d) => d.deal_name)).toEqual(["Globex"]);
+    expect(storage.findDealStates("Initech")).toEqual([]);
+  });
+
+  it("prunes closed deals and deals nobody has touched in a year", () => {
+    const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60_000).toISOString();
+    const won = { result: "won", stage: "Closed Won", at: daysAgo(200), feedback_id: null } as const;
+    const deal = (id: string, updated_at: string, outcome: DealState["outcome"] = null) =>
+      dealState({ id: `hubspot:${id}`, crm: "hubspot", deal_name: id, updated_at, outcome });
+    storage.saveDealState(deal("old-won", daysAgo(200), won));
+    storage.saveDealState(deal("new-won", daysAgo(30), won));
+    storage.saveDealState(deal("idle", daysAgo(200)));
+    storage.saveDealState(deal("abandoned", daysAgo(400)));
+
+    storage.saveDealState(deal("acme", daysAgo(0)));
+
+    expect(storage.getDealState("hubspot:old-won")).toBeNull();
+    expect(storage.getDealState("hubspot:abandoned")).toBeNull();
+    expect(storage.getDealState("hubspot:new-won")).not.toBeNull();
+    expect(storage.getDealState("hubspot:idle")).not.toBeNull();
+    expect(storage.getDealState("hubspot:acme")).not.toBeNull();
+  });
+});
+
+// ============================================================
+// JSON → SQLITE MIGRATION
+// ============================================================
+
+describe("JSON → SQLite migration", () => {
+  const config = storageConfig("sqlite");
+
+  beforeEach(() => {
+    resetDataDir();
+    writeFileSync(config.kbPath, JSON.stringify(configuredKB));
+    writeFileSync(config.feedbackLogPath, JSON.stringify(populatedFeedbackLog));
+    writeFileSync(
+      config.repDirectoryPath,
+      JSON.stringify({ reps: [sarah], _meta: { last_updated: null, version: "1.0", total_reps: 1 } })
+    );
+  });
+
+  it("copies KB, feedback log, rep directory, stage rules and field mapping into SQLite", () => {
+    const stages = defaultStageConfig();
+    stages.stage_maps.hubspot.contractsent = "Proposal Sent";
+    writeFileSync(stageConfigPath(config.kbPath), JSON.stringify(stages));
+    const mapping = defaultFieldMapping();
+    mapping.crms.salesforce = {
+      competitor: { paths: ["Primary_Competitor__c"], transforms: [] },
+    };
+    writeFileSync(fieldMappingPath(config.kbPath), JSON.stringify(mapping));
+    writeFileSync(
+      dealStatesPath(config.feedbackLogPath),
+      JSON.stringify({
+        deals: [
+          {
+            id: "generic:acme",
+            crm: "generic",
+            deal_name: "Acme",
+            stage: "Demo",
+            previous_stage: null,
+            stage_changed_at: "2026-03-01T10:00:00Z",
+            first_seen_at: "2026-03-01T10:00:00Z",
+            updated_at: "2026-03-01T10:00:00Z",
+            stage_history: [],
+            fields: {},
+            delivery_ids: [],
+            feedback_ids: [],
+            outcome: null,
+          },
+        ],
+      })
+    );
+
+    const result = migrateJsonToSqlite(config, config.sqlitePath);
+
+    expect(result).toEqual({
+      kb_entries: 7,
+      kb_versions: 0,
+      deliveries: 1,
+      feedback: 1,
+      reps: 1,
+      stage_mappings: 15,
+      mapped_fields: 1,
+      jobs: 0,
+      failed_runs: 0,
+      deal_states: 1,
+    });
+
+    const storage = createStorage(config);
+    try {
+      expect(storage.readKB()).toEqual(configuredKB);
+      expect(storage.readFeedbackLog().deliveries[0].delivery_id).toBe("del-test123");
+      expect(storage.findRepByEmail("sarah@team.com")?.slack_id).toBe("U0123ABC");
+      expect(storage.readStageConfig().stage_maps.hubspot.contractsent).toBe("Proposal Sent");
+      expect(storage.readFieldMapping().crms.salesforce.competitor?.paths).toEqual([
+        "Primary_Competitor__c",
+      ]);
+      expect(storage.getDealState("generic:acme")?.stage).toBe("Demo");
+    } finally {
+      storage.close();
+    }
+  });
+
+  it("refuses to overwrite a populated database without force", () => {
+    migrateJsonToSqlite(config, config.sqlitePath);
+
+    expect(() => migrateJsonToSqlite(config, config.sqlitePath)).toThrow(/--force/);
+    expect(() => migrateJsonToSqlite(config, config.sqlitePath, { force: true })).not.toThrow();
+  });
+
+  it("carries KB version history across", () => {
+    const json = createStorage(storageConfig("json"));
+    json.writeKB(structuredClone(configuredKB), { author: "pmm", source: "add_case_study" });
+    json.writeKB(json.readKB(), { author: "pmm", source: "set_methodology" });
+    json.close();
+
+    const result = migrateJsonToSqlite(config, config.sqlitePath);
+    expect(result.kb_versions).toBe(2);
+
+    const storage = createStorage(config);
+    try {
+      expect(storage.listKBVersions().map((v) => v.source)).toEqual(["set_methodology", "add_case_study"]);
+      expect(storage.readKB()._meta.revision).toBe(2);
+      storage.writeKB(storage.readKB());
+      expect(storage.readKB()._meta.revision).toBe(3);
+    } finally {
+      storage.close();
+    }
+  });
+
+  it("skips JSON files that don't exist", () => {
+    rmSync(config.feedbackLogPath);
+
+    const result = migrateJsonToSqlite(config, config.sqlitePath);
+    expect(result.deliveries).toBe(0);
+    expect(result.kb_entries).toBe(7);
+  });
+});
+
+// ============================================================
+// JSON WRITE SAFETY
+// ============================================================
+
+describe("JSON write safety", () => {
+  const { feedbackLogPath, kbPath } = storageConfig("json");
+  const [delivery] = populatedFeedbackLog.deliveries;
+  const [feedback] = populatedFeedbackLog.feedback;
+
+  beforeEach(() => {
+    resetDataDir();
+  });
+
+  it("keeps every entry when hundreds of appends race", async () => {
+    await Promise.all(
+      Array.from({ length: 300 }, (_, i) =>
+        new Promise<void>((done) =>
+          setImmediate(() => {
+            if (i % 2 === 0) {
+              appendDelivery(feedbackLogPath, { ...delivery, delivery_id: `del-race-${i}` });
+            } else {
+              appendFeedback(feedbackLogPath, { ...feedback, id: `fb-race-${i}` });
+            }
+            done();
+          })
+        )
+      )
+    );
+
+    const log = readFeedbackLog(feedbackLogPath);
+    expect(log.deliveries).toHaveLength(150);
+    expect(log.feedback).toHaveLength(150);
+    expect(log._meta.total_deliveries).toBe(150);
+    expect(log._meta.total_feedback).toBe(150);
+  });
+
+  it("keeps every entry when separate processes append at once", async () => {
+    const workers = 4;
+    const perWorker = 50;
+    const workerScript = resolve(import.meta.dirname, "fixtures/append-worker.ts");
+    const viteNode = resolve(import.meta.dirname, "../node_modules/.bin/vite-node");
+
+    await Promise.all(
+      Array.from({ length: workers }, (_, w) =>
+        new Promise<void>((done, fail) => {
+          const child = spawn(viteNode, [workerScript, feedbackLogPath, String(w), String(perWorker)], {
+            stdio: "ignore",
+          });
+          child.on("error", fail);
+          child.on("exit", (code) =>
+            code === 0 ? done() : fail(new Error(`worker ${w} exited with ${code}`))
+          );
+        })
+      )
+    );
+
+    const log = readFeedbackLog(feedbackLogPath);
+    expect(new Set(log.deliveries.map((d) => d.delivery_id)).size).toBe(workers * perWorker);
+    expect(new Set(log.feedback.map((f) => f.id)).size).toBe(workers * perWorker);
+  }, 60_000);
+
+  it("leaves no temp or lock files behind", () => {
+    for (let i = 0; i < 20; i++) {
+      appendDelivery(feedbackLogPath, { ...delivery, delivery_id: `del-clean-${i}` });
+    }
+    writeKB(kbPath, structuredClone(configuredKB));
+
+    const leftovers = readdirSync(testDataDir).filter((f) => f.endsWith(".tmp") || f.endsWith(".lock"));
+    expect(leftovers).toEqual([]);
+  });
+
+  it("leaves the previous file intact when a write fails midway", () => {
+    appendDelivery(feedbackLogPath, delivery);
+    const before = readFileSync(feedbackLogPath, "utf-8");
+
+    const circular: Record<string, unknown> = {};
+    circular.self = circular;
+    expect(() => writeJsonAtomic(feedbackLogPath, circular)).toThrow();
+
+    expect(readFileSync(feedbackLogPath, "utf-8")).toBe(before);
+    expect(readFeedbackLog(feedbackLogPath).deliveries).toHaveLength(1);
+    expect(readdirSync(testDataDir).filter((f) => f.endsWith(".tmp"))).toEqual([]);
+  });
+
+  it("breaks a stale lock left by a crashed process", () => {
+    const lockPath = `${feedbackLogPath}.lock`;
+    writeFileSync(lockPath, "99999");
+    const oneMinuteAgo = new Date(Date.now() - 60_000);
+    utimesSync(lockPath, oneMinuteAgo, oneMinuteAgo);
+
+    appendDelivery(feedbackLogPath, delivery);
+
+    expect(readFeedbackLog(feedbackLogPath).deliveries).toHaveLength(1);
+    expect(existsSync(lockPath)).toBe(false);
+  });
+});
@@ -0,0 +1,209 @@
+/**
+ * Schema validation + migration tests — data files are migrated up
+ * from their _meta.version and rejected with an error naming the bad
+ * field, whether they come from disk, SQLite or a sync push.
+ */
+
+import { describe, it, expect, beforeEach, afterAll } from "vitest";
+import { resolve } from "path";
+import { mkdirSync, existsSync, rmSync, writeFileSync } from "fs";
+import {
+  parseKnowledgeBase,
+  parseFeedbackLog,
+  parseRepDirectory,
+  parseStageConfig,
+  checkDataFiles,
+  DataValidationError,
+  KB_SCHEMA_VERSION,
+  STAGE_CONFIG_SCHEMA_VERSION,
+} from "../src/shared/validate.js";
+import { readKB, readFeedbackLog, defaultStageConfig } from "../src/shared/data.js";
+import { createStorage } from "../src/shared/storage.js";
+import { configuredKB, populatedFeedbackLog } from "./fixtures/knowledge-base.js";
+
+const testDataDir = resolve(import.meta.dirname, "__test-data-validate__");
+const kbPath = resolve(testDataDir, "knowledge-base.json");
+const feedbackLogPath = resolve(testDataDir, "feedback-log.json");
+const repDirectoryPath = resolve(testDataDir, "rep-directory.json");
+
+/** A KB as written before objection_library and resources[] existed. */
+function legacyKB(): Record<string, unknown> {
+  const kb = structuredClone(configuredKB) as unknown as Record<string, any>;
+  delete kb.objection_library;
+  for (const cs of kb.case_studies) delete cs.resources;
+  for (const cp of kb.competitor_positioning) delete cp.resources;
+  kb._meta.version = "1.0";
+  return kb;
+}
+
+function issuesOf(fn: () => unknown): string[] {
+  try {
+    fn();
+  } catch (err) {
+    if (err instanceof DataValidationError) return err.issues;
+    throw err;
+  }
+  throw new Error("expected a DataValidationError");
+}
+
+beforeEach(() => {
+  if (existsSync(testDataDir)) {
+    rmSync(testDataDir, { recursive: true });
+  }
+  mkdirSync(testDataDir, { recursive: true });
+});
+
+afterAll(() => {
+  if (existsSync(testDataDir)) {
+    rmSync(testDataDir, { recursive: true });
+  }
+});
+
+// ============================================================
+// MIGRATIONS
+// ============================================================
+
+describe("KB Migrations", () => {
+  it("upgrades a 1.0 KB to the current version", () => {
+    const kb = parseKnowledgeBase(legacyKB(), "test");
+
+    expect(kb._meta.version).toBe(KB_SCHEMA_VERSION);
+    expect(kb.objection_library).toEqual([]);
+    expect(kb.case_studies.every((cs) => Array.isArray(cs.resources))).toBe(true);
+    expect(kb.competitor_positioning.every((cp) => Array.isArray(cp.resources))).toBe(true);
+  });
+
+  it("treats a KB with no _meta.version as 1.0", () => {
+    const kb = legacyKB();
+    delete (kb._meta as Record<string, unknown>).version;
+
+    expect(parseKnowledgeBase(kb, "test")._meta.version).toBe(KB_SCHEMA_VERSION);
+  });
+
+  it("leaves a current KB untouched", () => {
+    const kb = structuredClone(configuredKB);
+    expect(parseKnowledgeBase(kb, "test")).toEqual(configuredKB);
+  });
+
+  it("keeps fields the schema doesn't know about", () => {
+    const kb = { ...structuredClone(configuredKB), notes: "from a newer client" };
+    expect(parseKnowledgeBase(kb, "test")).toHaveProperty("notes", "from a newer client");
+  });
+
+  it("rejects a version this build doesn't know", () => {
+    const kb = structuredClone(configuredKB);
+    kb._meta.version = "9.0";
+
+    const [issue] = issuesOf(() => parseKnowledgeBase(kb, "test"));
+    expect(issue).toContain('_meta.version: "9.0"');
+  });
+});
+
+describe("Stage Config Migrations", () => {
+  it("adds the stage order and transition settings to 1.0 rules", () => {
+    const rules = structuredClone(defaultStageConfig()) as unknown as Record<string, any>;
+    delete rules.stage_order;
+    delete rules.suppress_backwards;
+    delete rules.transition_rules;
+    rules.enablement_stages = ["Demo"];
+    rules._meta.version = "1.0";
+
+    const migrated = parseStageConfig(rules, "test");
+    expect(migrated._meta.version).toBe(STAGE_CONFIG_SCHEMA_VERSION);
+    expect(migrated.stage_order).toEqual(["Discovery", "Demo", "Proposal Sent", "Negotiation"]);
+    expect(migrated.suppress_backwards).toBe(true);
+    expect(migrated.transition_rules).toEqual([]);
+    expect(migrated.enablement_stages).toEqual(["Demo"]);
+  });
+});
+
+// ============================================================
+// SCHEMA ERRORS
+// ============================================================
+
+describe("Schema Errors", () => {
+  it("names the bad field with its index", () => {
+    const kb = structuredClone(configuredKB) as unknown as Record<string, any>;
+    kb.case_studies[1].company = 42;
+
+    const issues = issuesOf(() => parseKnowledgeBase(kb, "test"));
+    expect(issues).toEqual(["case_studies[1].company: Expected string, received number"]);
+  });
+
+  it("includes the source in the message", () => {
+    expect(() => parseKnowledgeBase({ random: "data" }, "sync payload")).toThrow(
+      /knowledge base \(sync payload\)[\s\S]*case_studies: Required/
+    );
+  });
+
+  it("rejects a non-object", () => {
+    expect(issuesOf(() => parseKnowledgeBase([], "test"))).toEqual(["expected a JSON object"]);
+  });
+
+  it("rejects an unknown feedback source", () => {
+    const log = structuredClone(populatedFeedbackLog) as unknown as Record<string, any>;
+    log.feedback[0].source = "emoji";
+
+    const [issue] = issuesOf(() => parseFeedbackLog(log, "test"));
+    expect(issue).toMatch(/^feedback\[0\]\.source: Invalid enum value/);
+  });
+
+  it("rejects a rep without an email", () => {
+    const dir = {
+      reps: [{ name: "Sarah", slack_id: "", telegram_chat_id: "", registered_at: "", registered_via: "manual" }],
+      _meta: { last_updated: null, version: "1.0", total_reps: 1 },
+    };
+
+    expect(issuesOf(() => parseRepDirectory(dir, "test"))).toEqual(["reps[0].email: Required"]);
+  });
+});
+
+// ============================================================
+// READ TIME + STARTUP
+// ============================================================
+
+describe("Read-time Validation", () => {
+  it("migrates a legacy KB file on read", () => {
+    writeFileSync(kbPath, JSON.stringify(legacyKB()));
+    expect(readKB(kbPath).objection_library).toEqual([]);
+  });
+
+  it("names the file when it isn't valid JSON", () => {
+    writeFileSync(feedbackLogPath, "{ deliveries: [");
+    expect(() => readFeedbackLog(feedbackLogPath)).toThrow(/feedback-log\.json[\s\S]*not valid JSON/);
+  });
+
+  it("fails the startup check on a malformed file", () => {
+    writeFileSync(kbPath, JSON.stringify(structuredClone(configuredKB)));
+    writeFileSync(repDirectoryPath, JSON.stringify({ reps: "nope", _meta: {} }));
+
+    const storage = createStorage({
+      storageBackend: "json",
+      kbPath,
+      feedbackLogPath,
+      repDirectoryPath,
+      sqlitePath: resolve(testDataDir, "jit-enablement.db"),
+    });
+
+    expect(() => checkDataFiles(storage)).toThrow(/rep-directory\.json[\s\S]*reps: Expected array/);
+  });
+
+  it("validates documents read from SQLite", () => {
+    const storage = createStorage({
+      storageBackend: "sqlite",
+      kbPath,
+      feedbackLogPath,
+      repDirectoryPath,
+      sqlitePath: resolve(testDataDir, "jit-enablement.db"),
+    });
+    try {
+      const bad = structuredClone(configuredKB) as unknown as Record<string, any>;
+      bad.methodology = "MEDDIC";
+      storage.replaceKB(bad as never);
+
+      expect(() => storage.readKB()).toThrow(/methodology: Expected object, received string/);
+    } finally {
+      storage.close();
+    }
+  });
+});